@@ -1,5 +1,6 @@
 import React, {useState, useEffect, useRef} from 'react';
 import {useApp, Box, Text} from 'ink';
+import {spawnSync} from 'child_process';
 import Menu from './Menu.js';
 import Session from './Session.js';
 import NewWorktree from './NewWorktree.js';
@@ -7,17 +8,29 @@ import DeleteWorktree from './DeleteWorktree.js';
 import MergeWorktree from './MergeWorktree.js';
 import Configuration from './Configuration.js';
 import CommandSelection from './CommandSelection.js';
+import Confirmation from './Confirmation.js';
 import {SessionManager} from '../services/sessionManager.js';
 import {WorktreeService} from '../services/worktreeService.js';
 import {ZellijService} from '../services/zellijService.js';
-import {Worktree, Session as SessionType, CommandType} from '../types/index.js';
+import {
+	Worktree,
+	Session as SessionType,
+	CommandType,
+	MenuFilter,
+	MenuWorktreeAction,
+} from '../types/index.js';
 import {shortcutManager} from '../services/shortcutManager.js';
+import {agentRegistry} from '../services/agentRegistry.js';
+import {configurationManager} from '../services/configurationManager.js';
+import {lifecycleHookRunner} from '../services/lifecycleHookRunner.js';
 import {
 	checkCommandAvailability,
 	getDefaultCommandType,
 	shouldShowCommandSelection,
 	CommandAvailability,
 } from '../utils/commandChecker.js';
+import {copySetupFiles} from '../utils/setupFiles.js';
+import {useRawInkInput} from '../utils/inkInput.js';
 
 // Global flag to prevent title duplication
 let titleRendered = false;
@@ -33,8 +46,13 @@ type View =
 	| 'merge-worktree'
 	| 'merging-worktree'
 	| 'configuration'
+	| 'confirm-session-action'
+	| 'confirm-project-commands'
 	| 'no-commands-available';
 
+const handleShortcutInput = (data: string) =>
+	shortcutManager.handleInkInput(data);
+
 const App: React.FC = React.memo(function App() {
 	const {exit} = useApp();
 	const [view, setView] = useState<View>('menu');
@@ -57,6 +75,13 @@ const App: React.FC = React.memo(function App() {
 	);
 	const [error, setError] = useState<string | null>(null);
 	const [menuKey, setMenuKey] = useState(0); // Force menu refresh
+	const [menuFilter, setMenuFilter] = useState<MenuFilter>({query: ''});
+	const [collapsedMenuGroups, setCollapsedMenuGroups] = useState<string[]>([]);
+	// Kill or restart waiting for confirmation
+	const [pendingSessionAction, setPendingSessionAction] = useState<{
+		action: Exclude<MenuWorktreeAction, 'openShell'>;
+		worktree: Worktree;
+	} | null>(null);
 	const [commandAvailability, setCommandAvailability] =
 		useState<CommandAvailability | null>(null);
 	const [isZellijAvailable, setIsZellijAvailable] = useState(false);
@@ -84,6 +109,11 @@ const App: React.FC = React.memo(function App() {
 			return;
 		}
 
+		// Commands from the shared project config only run once approved
+		if (configurationManager.needsProjectApproval()) {
+			setView('confirm-project-commands');
+		}
+
 		// Discover and restore existing sessions if inside Zellij
 		if (zellijAvailable && insideZellij) {
 			const discoverSessions = async () => {
@@ -139,6 +169,135 @@ const App: React.FC = React.memo(function App() {
 		};
 	}, [sessionManager]); // sessionManager is stable via useRef
 
+	useEffect(() => {
+		// Pick up edits to the configuration files without restarting. Running
+		// sessions keep going; shortcuts, hooks and worktree settings are read
+		// from the configuration each time they are used.
+		const handleConfigChanged = () => {
+			setCommandAvailability(checkCommandAvailability());
+			setMenuKey(prev => prev + 1);
+			// e.g. a git pull changed the commands of the project config
+			if (configurationManager.needsProjectApproval()) {
+				setView(current =>
+					current === 'menu' ? 'confirm-project-commands' : current,
+				);
+			}
+		};
+
+		configurationManager.on('configChanged', handleConfigChanged);
+		configurationManager.watch();
+
+		return () => {
+			configurationManager.off('configChanged', handleConfigChanged);
+			configurationManager.unwatch();
+		};
+	}, []);
+
+	// Let shortcuts see the raw keypress before the views' input handlers,
+	// so Alt, function keys and chords can be matched
+	useRawInkInput(handleShortcutInput);
+
+	const handleToggleMenuGroup = (prefix: string) => {
+		setCollapsedMenuGroups(prev =>
+			prev.includes(prefix)
+				? prev.filter(group => group !== prefix)
+				: [...prev, prefix],
+		);
+	};
+
+	const handleWorktreeAction = (
+		action: MenuWorktreeAction,
+		worktree: Worktree,
+	) => {
+		if (action === 'openShell') {
+			openShell(worktree.path);
+			return;
+		}
+
+		// Stopping an agent loses its work in progress, so ask first
+		if (sessionManager.getSession(worktree.path)) {
+			setPendingSessionAction({action, worktree});
+			setView('confirm-session-action');
+		}
+	};
+
+	/**
+	 * Kill the session of a worktree, or kill it and start the same agent
+	 * again
+	 */
+	const runSessionAction = async (
+		action: Exclude<MenuWorktreeAction, 'openShell'>,
+		worktree: Worktree,
+	) => {
+		const session = sessionManager.getSession(worktree.path);
+		if (!session) {
+			return;
+		}
+
+		const {commandType, isZellijSession} = session;
+		if (isZellijSession) {
+			const closeResult = await ZellijService.closePaneForWorktree(
+				worktree.path,
+			);
+			if (!closeResult.success) {
+				console.warn(`⚠️ Could not close pane: ${closeResult.error}`);
+				return;
+			}
+		}
+		sessionManager.destroySession(worktree.path);
+
+		if (action !== 'restartSession') {
+			return;
+		}
+		if (isZellijSession) {
+			const zellijResult = await ZellijService.openWorktreeSession(
+				worktree.path,
+				worktree.branch.replace('refs/heads/', ''),
+				commandType,
+			);
+			if (zellijResult.success) {
+				sessionManager.createSession(worktree.path, commandType, true);
+			} else {
+				console.error('Failed to restart Zellij session:', zellijResult.error);
+			}
+		} else {
+			setActiveSession(
+				sessionManager.createSession(worktree.path, commandType),
+			);
+			setView('session');
+		}
+	};
+
+	/**
+	 * Open a shell in a worktree: a new pane inside Zellij, otherwise the
+	 * shell takes over the terminal until it exits
+	 */
+	const openShell = async (worktreePath: string) => {
+		if (isZellijAvailable && isInsideZellij) {
+			const result = await ZellijService.openShellPane(worktreePath);
+			if (!result.success) {
+				console.warn(`⚠️ Could not open shell pane: ${result.error}`);
+			}
+			return;
+		}
+
+		const wasRaw = process.stdin.isTTY && process.stdin.isRaw;
+		if (wasRaw) {
+			process.stdin.setRawMode(false);
+		}
+		process.stdout.write('\x1B[2J\x1B[H');
+		console.log(`Shell in ${worktreePath}, exit it to return to CCManager`);
+		spawnSync(process.env['SHELL'] || 'sh', {
+			cwd: worktreePath,
+			stdio: 'inherit',
+		});
+		if (wasRaw) {
+			process.stdin.setRawMode(true);
+		}
+		process.stdout.write('\x1B[2J\x1B[H');
+		setMenuKey(prev => prev + 1);
+	};
+
 	const handleSelectWorktree = async (worktree: Worktree) => {
 		// Check if this is the new worktree option
 		if (worktree.path === '') {
@@ -212,16 +371,19 @@ const App: React.FC = React.memo(function App() {
 			// Check if we should use Zellij
 			if (isZellijAvailable && isInsideZellij) {
 				// Use Zellij to create a new tab/pane
-				if (shouldShowCommandSelection(commandAvailability)) {
+				if (shouldShowCommandSelection(commandAvailability, worktree.path)) {
 					// Multiple commands available, show selection
 					setSelectedWorktree(worktree);
 					setView('command-selection');
 				} else {
-					// Only one command available, create Zellij tab directly
-					const defaultCommand = getDefaultCommandType(commandAvailability);
+					// Default or only available command, create Zellij tab directly
+					const defaultCommand = getDefaultCommandType(
+						commandAvailability,
+						worktree.path,
+					);
 					if (defaultCommand) {
 						const branchName = worktree.branch.replace('refs/heads/', '');
-						const zellijResult = await ZellijService.createWorktreeTab(
+						const zellijResult = await ZellijService.openWorktreeSession(
 							worktree.path,
 							branchName,
 							defaultCommand,
@@ -257,13 +419,16 @@ const App: React.FC = React.memo(function App() {
 				}
 			} else {
 				// Fallback to traditional session management
-				if (shouldShowCommandSelection(commandAvailability)) {
+				if (shouldShowCommandSelection(commandAvailability, worktree.path)) {
 					// Multiple commands available, show selection
 					setSelectedWorktree(worktree);
 					setView('command-selection');
 				} else {
-					// Only one command available, create session directly
-					const defaultCommand = getDefaultCommandType(commandAvailability);
+					// Default or only available command, create session directly
+					const defaultCommand = getDefaultCommandType(
+						commandAvailability,
+						worktree.path,
+					);
 					if (defaultCommand) {
 						session = sessionManager.createSession(
 							worktree.path,
@@ -304,6 +469,18 @@ const App: React.FC = React.memo(function App() {
 		}
 	};
 
+	const handleNextWaitingSession = () => {
+		const next = sessionManager.getNextWaitingSession(
+			activeSession?.worktreePath,
+		);
+		const worktree = worktreeService
+			.getWorktrees()
+			.find(wt => wt.path === next?.worktreePath);
+		if (worktree && next !== activeSession) {
+			handleSelectWorktree(worktree);
+		}
+	};
+
 	const handleReturnToMenu = () => {
 		setActiveSession(null);
 		setSelectedWorktree(null);
@@ -331,14 +508,58 @@ const App: React.FC = React.memo(function App() {
 		}, 50); // Small delay to ensure proper cleanup
 	};
 
-	const handleCreateWorktree = async (path: string, branch: string) => {
+	const handleCreateWorktree = async (
+		path: string,
+		branch: string,
+		baseRef?: string,
+		initialPrompt?: string,
+	) => {
 		setView('creating-worktree');
 		setError(null);
 
+		// Pre-create hooks run in the main worktree and can abort the creation
+		const mainWorktreePath =
+			worktreeService.getWorktrees().find(wt => wt.isMainWorktree)?.path ||
+			process.cwd();
+		const preResult = await lifecycleHookRunner.run('preCreate', {
+			cwd: mainWorktreePath,
+			worktreePath: path,
+			branch,
+		});
+		if (!preResult.success) {
+			setError(`Worktree not created: ${preResult.error}`);
+			setView('new-worktree');
+			return;
+		}
+
 		// Create the worktree
-		const result = worktreeService.createWorktree(path, branch);
+		const result = worktreeService.createWorktree(path, branch, baseRef);
 
 		if (result.success) {
+			// Bring untracked setup files such as .env over before the hooks run
+			const setupFiles = configurationManager.getWorktreeConfig().setupFiles;
+			if (setupFiles && setupFiles.length > 0) {
+				const copyResult = copySetupFiles(mainWorktreePath, path, setupFiles);
+				if (!copyResult.success) {
+					console.warn(
+						'⚠️ Some setup files were not copied:',
+						copyResult.error,
+					);
+				}
+			}
+
+			// The first session of the worktree starts on the task right away
+			if (initialPrompt) {
+				sessionManager.setInitialPrompt(path, initialPrompt);
+			}
+
+			// Failures of post-create hooks are shown in the menu
+			await lifecycleHookRunner.run('postCreate', {
+				cwd: path,
+				worktreePath: path,
+				branch,
+			});
+
 			// Success - determine how to handle the new worktree
 			const newWorktree: Worktree = {
 				path: path,
@@ -352,15 +573,18 @@ const App: React.FC = React.memo(function App() {
 			// Check if we should use Zellij
 			if (isZellijAvailable && isInsideZellij) {
 				// Use Zellij to create a new tab/pane
-				if (shouldShowCommandSelection(commandAvailability)) {
+				if (shouldShowCommandSelection(commandAvailability, newWorktree.path)) {
 					// Multiple commands available, show selection
 					setSelectedWorktree(newWorktree);
 					setView('command-selection');
 				} else {
-					// Only one command available, create Zellij tab directly
-					const defaultCommand = getDefaultCommandType(commandAvailability);
+					// Default or only available command, create Zellij tab directly
+					const defaultCommand = getDefaultCommandType(
+						commandAvailability,
+						newWorktree.path,
+					);
 					if (defaultCommand) {
-						const zellijResult = await ZellijService.createWorktreeTab(
+						const zellijResult = await ZellijService.openWorktreeSession(
 							newWorktree.path,
 							branch,
 							defaultCommand,
@@ -393,13 +617,16 @@ const App: React.FC = React.memo(function App() {
 				}
 			} else {
 				// Fallback to traditional session management
-				if (shouldShowCommandSelection(commandAvailability)) {
+				if (shouldShowCommandSelection(commandAvailability, newWorktree.path)) {
 					// Multiple commands available, show selection
 					setSelectedWorktree(newWorktree);
 					setView('command-selection');
 				} else {
-					// Only one command available, create session directly
-					const defaultCommand = getDefaultCommandType(commandAvailability);
+					// Default or only available command, create session directly
+					const defaultCommand = getDefaultCommandType(
+						commandAvailability,
+						newWorktree.path,
+					);
 					if (defaultCommand) {
 						const session = sessionManager.createSession(
 							newWorktree.path,
@@ -425,22 +652,10 @@ const App: React.FC = React.memo(function App() {
 		setView('deleting-worktree');
 		setError(null);
 
-		// First close any Zellij panes associated with these worktrees
-		if (ZellijService.isInsideZellij()) {
-			const closeResult =
-				await ZellijService.closePanesForWorktrees(worktreePaths);
-			if (closeResult.closedCount > 0) {
-				console.log(`Closed ${closeResult.closedCount} Zellij panes`);
-			}
-			if (closeResult.errors.length > 0) {
-				console.warn('Some panes could not be closed:', closeResult.errors);
-			}
-		}
-
 		// Delete the worktrees
 		let hasError = false;
 		for (const path of worktreePaths) {
-			const result = worktreeService.deleteWorktree(path);
+			const result = await deleteWorktreeWithHooks(path);
 			if (!result.success) {
 				hasError = true;
 				setError(result.error || 'Failed to delete worktree');
@@ -457,6 +672,49 @@ const App: React.FC = React.memo(function App() {
 		}
 	};
 
+	/**
+	 * Delete a worktree between its pre-delete and post-delete hooks. A
+	 * failing pre-delete hook keeps the worktree and its running agents.
+	 */
+	const deleteWorktreeWithHooks = async (
+		worktreePath: string,
+	): Promise<{success: boolean; error?: string}> => {
+		const worktrees = worktreeService.getWorktrees();
+		const branch =
+			worktrees
+				.find(wt => wt.path === worktreePath)
+				?.branch.replace('refs/heads/', '') || '';
+		const mainWorktreePath =
+			worktrees.find(wt => wt.isMainWorktree)?.path || process.cwd();
+
+		const preResult = await lifecycleHookRunner.run('preDelete', {
+			cwd: worktreePath,
+			worktreePath,
+			branch,
+		});
+		if (!preResult.success) {
+			return {
+				success: false,
+				error: `Worktree not deleted: ${preResult.error}`,
+			};
+		}
+
+		// Close the Zellij panes of agents running in the worktree
+		if (ZellijService.isInsideZellij()) {
+			await ZellijService.closePanesForWorktrees([worktreePath]);
+		}
+
+		const result = worktreeService.deleteWorktree(worktreePath);
+		if (result.success) {
+			await lifecycleHookRunner.run('postDelete', {
+				cwd: mainWorktreePath,
+				worktreePath,
+				branch,
+			});
+		}
+		return result;
+	};
+
 	const handleCancelDeleteWorktree = () => {
 		handleReturnToMenu();
 	};
@@ -470,6 +728,33 @@ const App: React.FC = React.memo(function App() {
 		setView('merging-worktree');
 		setError(null);
 
+		const worktrees = worktreeService.getWorktrees();
+		const findWorktree = (branch: string) =>
+			worktrees.find(wt => wt.branch.replace('refs/heads/', '') === branch);
+		const sourceWorktree = findWorktree(sourceBranch);
+		const targetWorktree = findWorktree(targetBranch);
+		const mainWorktreePath =
+			worktrees.find(wt => wt.isMainWorktree)?.path || process.cwd();
+		const hookEnv = {
+			CCMANAGER_SOURCE_BRANCH: sourceBranch,
+			CCMANAGER_TARGET_BRANCH: targetBranch,
+			CCMANAGER_MERGE_STRATEGY: useRebase ? 'rebase' : 'merge',
+		};
+
+		// Pre-merge hooks (e.g. tests) run in the source worktree and can
+		// abort the merge
+		const preResult = await lifecycleHookRunner.run('preMerge', {
+			cwd: sourceWorktree?.path || mainWorktreePath,
+			worktreePath: sourceWorktree?.path || mainWorktreePath,
+			branch: sourceBranch,
+			env: hookEnv,
+		});
+		if (!preResult.success) {
+			setError(`Merge aborted: ${preResult.error}`);
+			setView('merge-worktree');
+			return;
+		}
+
 		// Perform the merge
 		const mergeResult = worktreeService.mergeWorktree(
 			sourceBranch,
@@ -478,10 +763,18 @@ const App: React.FC = React.memo(function App() {
 		);
 
 		if (mergeResult.success) {
+			await lifecycleHookRunner.run('postMerge', {
+				cwd: targetWorktree?.path || mainWorktreePath,
+				worktreePath: sourceWorktree?.path || mainWorktreePath,
+				branch: sourceBranch,
+				env: hookEnv,
+			});
+
 			// If user wants to delete the merged branch
 			if (deleteAfterMerge) {
-				const deleteResult =
-					worktreeService.deleteWorktreeByBranch(sourceBranch);
+				const deleteResult = sourceWorktree
+					? await deleteWorktreeWithHooks(sourceWorktree.path)
+					: worktreeService.deleteWorktreeByBranch(sourceBranch);
 				if (!deleteResult.success) {
 					setError(deleteResult.error || 'Failed to delete merged worktree');
 					setView('merge-worktree');
@@ -508,7 +801,7 @@ const App: React.FC = React.memo(function App() {
 		if (isZellijAvailable && isInsideZellij) {
 			// Use Zellij to create a new tab/pane
 			const branchName = selectedWorktree.branch.replace('refs/heads/', '');
-			const zellijResult = await ZellijService.createWorktreeTab(
+			const zellijResult = await ZellijService.openWorktreeSession(
 				selectedWorktree.path,
 				branchName,
 				commandType,
@@ -579,11 +872,71 @@ const App: React.FC = React.memo(function App() {
 					sessionManager={sessionManager}
 					onSelectWorktree={handleSelectWorktree}
 					showTitle={false}
+					filter={menuFilter}
+					onFilterChange={setMenuFilter}
+					collapsedGroups={collapsedMenuGroups}
+					onToggleGroup={handleToggleMenuGroup}
+					onWorktreeAction={handleWorktreeAction}
 				/>
 			</Box>
 		);
 	}
 
+	if (view === 'confirm-session-action' && pendingSessionAction) {
+		const {action, worktree} = pendingSessionAction;
+		const handleDone = () => {
+			setPendingSessionAction(null);
+			setView('menu');
+		};
+
+		return (
+			<Confirmation
+				message={
+					<Text bold color="red">
+						{action === 'killSession' ? 'Kill' : 'Restart'} the agent running in{' '}
+						{worktree.branch.replace('refs/heads/', '')}? Work in progress in
+						the session is lost.
+					</Text>
+				}
+				onConfirm={() => {
+					handleDone();
+					runSessionAction(action, worktree);
+				}}
+				onCancel={handleDone}
+			/>
+		);
+	}
+
+	if (view === 'confirm-project-commands') {
+		return (
+			<Confirmation
+				message={
+					<Box flexDirection="column">
+						<Text bold color="yellow">
+							{configurationManager.getLayerPath('project')} defines settings
+							that run commands:{' '}
+							{configurationManager.getProjectCommandSettings().join(', ')}
+						</Text>
+						<Text>
+							Only allow them if you trust this repository; otherwise they are
+							ignored.
+						</Text>
+					</Box>
+				}
+				confirmText="Allow"
+				cancelText="Ignore"
+				onConfirm={() => {
+					configurationManager.approveProjectCommands();
+					setView('menu');
+				}}
+				onCancel={() => {
+					configurationManager.declineProjectCommands();
+					setView('menu');
+				}}
+			/>
+		);
+	}
+
 	if (view === 'session' && activeSession) {
 		return (
 			<Box flexDirection="column">
@@ -592,11 +945,13 @@ const App: React.FC = React.memo(function App() {
 					session={activeSession}
 					sessionManager={sessionManager}
 					onReturnToMenu={handleReturnToMenu}
+					onNextWaitingSession={handleNextWaitingSession}
 				/>
 				<Box marginTop={1}>
 					<Text dimColor>
 						Press {shortcutManager.getShortcutDisplay('returnToMenu')} to return
-						to menu
+						to menu, {shortcutManager.getShortcutDisplay('nextWaiting')} for the
+						next session waiting for input
 					</Text>
 				</Box>
 			</Box>
@@ -678,6 +1033,7 @@ const App: React.FC = React.memo(function App() {
 	if (view === 'command-selection' && selectedWorktree && commandAvailability) {
 		return (
 			<CommandSelection
+				worktreePath={selectedWorktree.path}
 				worktreeBranch={selectedWorktree.branch.replace('refs/heads/', '')}
 				commandAvailability={commandAvailability}
 				onComplete={handleCommandSelection}
@@ -720,17 +1076,18 @@ const App: React.FC = React.memo(function App() {
 					</Box>
 
 					<Box marginBottom={1} flexDirection="column">
-						<Text>
-							• <Text bold>claude</Text> - Advanced AI coding assistant
-						</Text>
-						<Text>
-							• <Text bold>codex</Text> - Fast AI code completion
-						</Text>
+						{agentRegistry.getAgents().map(agent => (
+							<Text key={agent.id}>
+								• <Text bold>{agent.command}</Text> - {agent.label}
+								{agent.description ? ` (${agent.description})` : ''}
+							</Text>
+						))}
 					</Box>
 
 					<Box marginBottom={1}>
 						<Text>
-							Please install one or both commands and restart CCManager.
+							Please install at least one command (or declare an agent in
+							config.json) and restart CCManager.
 						</Text>
 					</Box>
 
@@ -1,11 +1,13 @@
-import React from 'react';
+import React, {useState} from 'react';
 import {Box, Text, useInput} from 'ink';
 import SelectInput from 'ink-select-input';
 import {CommandType} from '../types/index.js';
 import {shortcutManager} from '../services/shortcutManager.js';
+import {agentRegistry} from '../services/agentRegistry.js';
 import {CommandAvailability} from '../utils/commandChecker.js';
 
 interface CommandSelectionProps {
+	worktreePath: string;
 	worktreeBranch: string;
 	commandAvailability: CommandAvailability;
 	onComplete: (commandType: CommandType) => void;
@@ -18,27 +20,31 @@ interface CommandOption {
 }
 
 const CommandSelection: React.FC<CommandSelectionProps> = ({
+	worktreePath,
 	worktreeBranch,
 	commandAvailability,
 	onComplete,
 	onCancel,
 }) => {
 	// Build options based on available commands
-	const options: CommandOption[] = [];
-
-	if (commandAvailability.claude) {
-		options.push({
-			label: '[C] Claude Code - Advanced AI coding assistant',
-			value: 'claude',
-		});
-	}
+	const options: CommandOption[] = commandAvailability.available.map(id => {
+		const agent = agentRegistry.getAgent(id);
+		const description = agent?.description ? ` - ${agent.description}` : '';
+		return {
+			label: `${agentRegistry.getPrefix(id)} ${agentRegistry.getLabel(id)}${description}`,
+			value: id,
+		};
+	});
 
-	if (commandAvailability.codex) {
-		options.push({
-			label: '[X] Codex - Fast AI code completion',
-			value: 'codex',
-		});
-	}
+	// Preselect the default agent of the worktree's repository or branch
+	const [initialIndex] = useState(() =>
+		Math.max(
+			0,
+			commandAvailability.available.indexOf(
+				agentRegistry.getDefaultCommand(worktreePath) || '',
+			),
+		),
+	);
 
 	useInput((input, key) => {
 		if (shortcutManager.matchesShortcut('cancel', input, key)) {
@@ -65,7 +71,12 @@ const CommandSelection: React.FC<CommandSelectionProps> = ({
 				</Text>
 			</Box>
 
-			<SelectInput items={options} onSelect={handleSelect} isFocused={true} />
+			<SelectInput
+				items={options}
+				onSelect={handleSelect}
+				initialIndex={initialIndex}
+				isFocused={true}
+			/>
 
 			<Box marginTop={1}>
 				<Text dimColor>
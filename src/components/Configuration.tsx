@@ -4,12 +4,26 @@ import SelectInput from 'ink-select-input';
 import ConfigureShortcuts from './ConfigureShortcuts.js';
 import ConfigureHooks from './ConfigureHooks.js';
 import ConfigureWorktree from './ConfigureWorktree.js';
+import ConfigureZellij from './ConfigureZellij.js';
+import HookHistory from './HookHistory.js';
+import {
+	CONFIG_LAYERS,
+	CONFIG_LAYER_LABELS,
+	configurationManager,
+} from '../services/configurationManager.js';
+import {ConfigurationData} from '../types/index.js';
 
 interface ConfigurationProps {
 	onComplete: () => void;
 }
 
-type ConfigView = 'menu' | 'shortcuts' | 'hooks' | 'worktree';
+type ConfigView =
+	| 'menu'
+	| 'shortcuts'
+	| 'hooks'
+	| 'hookHistory'
+	| 'worktree'
+	| 'zellij';
 
 interface MenuItem {
 	label: string;
@@ -18,20 +32,42 @@ interface MenuItem {
 
 const Configuration: React.FC<ConfigurationProps> = ({onComplete}) => {
 	const [view, setView] = useState<ConfigView>('menu');
+	const [saveLayer, setSaveLayer] = useState(
+		configurationManager.getSaveLayer(),
+	);
+
+	const validationErrors = configurationManager.getValidationErrors();
+	const notices = configurationManager.getNotices();
+
+	// Show the layer that provides each section
+	const source = (key: keyof ConfigurationData) =>
+		configurationManager.getSourceLabel(key);
 
 	const menuItems: MenuItem[] = [
 		{
-			label: '⌨  Configure Shortcuts',
+			label: `⌨  Configure Shortcuts ${source('shortcuts')}`,
 			value: 'shortcuts',
 		},
 		{
-			label: '🔧  Configure Status Hooks',
+			label: `🔧  Configure Status Hooks ${source('statusHooks')}`,
 			value: 'hooks',
 		},
 		{
-			label: '📁  Configure Worktree Settings',
+			label: '📜  Hook History',
+			value: 'hookHistory',
+		},
+		{
+			label: `📁  Configure Worktree Settings ${source('worktree')}`,
 			value: 'worktree',
 		},
+		{
+			label: `🪟  Configure Zellij Integration ${source('zellij')}`,
+			value: 'zellij',
+		},
+		{
+			label: `💾  Save Changes To: ${CONFIG_LAYER_LABELS[saveLayer]}`,
+			value: 'layer',
+		},
 		{
 			label: '← Back to Main Menu',
 			value: 'back',
@@ -45,8 +81,19 @@ const Configuration: React.FC<ConfigurationProps> = ({onComplete}) => {
 			setView('shortcuts');
 		} else if (item.value === 'hooks') {
 			setView('hooks');
+		} else if (item.value === 'hookHistory') {
+			setView('hookHistory');
 		} else if (item.value === 'worktree') {
 			setView('worktree');
+		} else if (item.value === 'zellij') {
+			setView('zellij');
+		} else if (item.value === 'layer') {
+			const next =
+				CONFIG_LAYERS[
+					(CONFIG_LAYERS.indexOf(saveLayer) + 1) % CONFIG_LAYERS.length
+				]!;
+			configurationManager.setSaveLayer(next);
+			setSaveLayer(next);
 		}
 	};
 
@@ -62,10 +109,18 @@ const Configuration: React.FC<ConfigurationProps> = ({onComplete}) => {
 		return <ConfigureHooks onComplete={handleSubMenuComplete} />;
 	}
 
+	if (view === 'hookHistory') {
+		return <HookHistory onComplete={handleSubMenuComplete} />;
+	}
+
 	if (view === 'worktree') {
 		return <ConfigureWorktree onComplete={handleSubMenuComplete} />;
 	}
 
+	if (view === 'zellij') {
+		return <ConfigureZellij onComplete={handleSubMenuComplete} />;
+	}
+
 	return (
 		<Box flexDirection="column">
 			<Box marginBottom={1}>
@@ -74,11 +129,40 @@ const Configuration: React.FC<ConfigurationProps> = ({onComplete}) => {
 				</Text>
 			</Box>
 
+			{validationErrors.length > 0 && (
+				<Box marginBottom={1} flexDirection="column">
+					<Text color="yellow">
+						⚠️ Invalid settings are ignored until they are fixed:
+					</Text>
+					{validationErrors.map((error, index) => (
+						<Text key={index} color="yellow">
+							{'  '}[{error.layer}] {error.path || '(file)'} {error.message}
+						</Text>
+					))}
+				</Box>
+			)}
+
+			{notices.length > 0 && (
+				<Box marginBottom={1} flexDirection="column">
+					{notices.map((notice, index) => (
+						<Text key={index} dimColor>
+							[{notice.layer}] {notice.message}
+						</Text>
+					))}
+				</Box>
+			)}
+
 			<Box marginBottom={1}>
 				<Text dimColor>Select a configuration option:</Text>
 			</Box>
 
 			<SelectInput items={menuItems} onSelect={handleSelect} isFocused={true} />
+
+			<Box marginTop={1}>
+				<Text dimColor>
+					Changes are saved to {configurationManager.getLayerPath(saveLayer)}
+				</Text>
+			</Box>
 		</Box>
 	);
 };
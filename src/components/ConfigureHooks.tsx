@@ -2,63 +2,202 @@ import React, {useState, useEffect} from 'react';
 import {Box, Text, useInput} from 'ink';
 import TextInput from 'ink-text-input';
 import SelectInput from 'ink-select-input';
-import {configurationManager} from '../services/configurationManager.js';
-import {StatusHookConfig, SessionState} from '../types/index.js';
+import {
+	CONFIG_LAYER_LABELS,
+	configurationManager,
+} from '../services/configurationManager.js';
+import {
+	LifecycleEvent,
+	LifecycleHookConfig,
+	StatusHook,
+	StatusHookConfig,
+	StatusHookType,
+	SessionState,
+} from '../types/index.js';
+import {
+	DEFAULT_HOOK_OUTPUT_LINES,
+	DEFAULT_HOOK_TIMEOUT_MS,
+	formatHookTransition,
+	getHookTarget,
+} from '../utils/hookUtils.js';
+import {
+	DEFAULT_WEBHOOK_DEBOUNCE_MS,
+	DEFAULT_WEBHOOK_RETRIES,
+	DEFAULT_WEBHOOK_TIMEOUT_MS,
+	createSampleStatusHookPayload,
+	renderWebhookBody,
+	sendWebhook,
+} from '../utils/webhook.js';
+import ConfigureLifecycleHooks, {
+	LIFECYCLE_EVENTS,
+	LIFECYCLE_LABELS,
+} from './ConfigureLifecycleHooks.js';
 
 interface ConfigureHooksProps {
 	onComplete: () => void;
 }
 
-type View = 'menu' | 'edit';
+type View =
+	| 'menu'
+	| 'list'
+	| 'hook'
+	| 'target'
+	| 'body'
+	| 'number'
+	| 'lifecycle';
+
+type NumberSetting = 'timeoutMs' | 'outputLines' | 'retries' | 'debounceMs';
 
 interface MenuItem {
 	label: string;
 	value: string;
 }
 
+const STATES: SessionState[] = ['idle', 'busy', 'waiting_input'];
+
 const STATUS_LABELS: Record<SessionState, string> = {
 	idle: 'Idle',
 	busy: 'Busy',
 	waiting_input: 'Waiting for Input',
 };
 
+const NUMBER_SETTINGS: Record<
+	NumberSetting,
+	{label: string; description: string; minimum: number}
+> = {
+	timeoutMs: {
+		label: 'Timeout (ms)',
+		description: 'Milliseconds before the hook is stopped',
+		minimum: 1,
+	},
+	outputLines: {
+		label: 'Output Lines',
+		description: 'Lines of terminal output in the payload',
+		minimum: 0,
+	},
+	retries: {
+		label: 'Retries',
+		description: 'Attempts after a failed request',
+		minimum: 0,
+	},
+	debounceMs: {
+		label: 'Debounce (ms)',
+		description: 'Only send the last change within this many milliseconds',
+		minimum: 0,
+	},
+};
+
+const getNumberDefault = (hook: StatusHook, setting: NumberSetting): number => {
+	switch (setting) {
+		case 'timeoutMs':
+			return hook.type === 'webhook'
+				? DEFAULT_WEBHOOK_TIMEOUT_MS
+				: DEFAULT_HOOK_TIMEOUT_MS;
+		case 'outputLines':
+			return DEFAULT_HOOK_OUTPUT_LINES;
+		case 'retries':
+			return DEFAULT_WEBHOOK_RETRIES;
+		case 'debounceMs':
+			return DEFAULT_WEBHOOK_DEBOUNCE_MS;
+	}
+};
+
 const ConfigureHooks: React.FC<ConfigureHooksProps> = ({onComplete}) => {
 	const [view, setView] = useState<View>('menu');
 	const [selectedStatus, setSelectedStatus] = useState<SessionState>('idle');
+	const [selectedEvent, setSelectedEvent] =
+		useState<LifecycleEvent>('preCreate');
 	const [hooks, setHooks] = useState<StatusHookConfig>({});
-	const [currentCommand, setCurrentCommand] = useState('');
-	const [currentEnabled, setCurrentEnabled] = useState(false);
+	const [lifecycleHooks, setLifecycleHooks] = useState<LifecycleHookConfig>({});
+	// Index of the hook being edited; equal to the list length for a new hook
+	const [hookIndex, setHookIndex] = useState(0);
+	const [newHookType, setNewHookType] = useState<StatusHookType>('command');
+	const [numberSetting, setNumberSetting] =
+		useState<NumberSetting>('timeoutMs');
+	const [inputValue, setInputValue] = useState('');
+	const [testResult, setTestResult] = useState<string | null>(null);
 	const [showSaveMessage, setShowSaveMessage] = useState(false);
 
 	useEffect(() => {
 		setHooks(configurationManager.getStatusHooks());
+		setLifecycleHooks(configurationManager.getLifecycleHooks());
 	}, []);
 
-	useInput((input, key) => {
-		if (key.escape) {
-			if (view === 'edit') {
-				setView('menu');
-			} else {
-				onComplete();
+	const groupLabel = STATUS_LABELS[selectedStatus];
+	const stateHooks: StatusHook[] = hooks[selectedStatus] || [];
+
+	const setGroupHooks = (list: StatusHook[]) => {
+		setHooks(prev => ({...prev, [selectedStatus]: list}));
+	};
+	const currentHook: StatusHook =
+		stateHooks[hookIndex] ||
+		(newHookType === 'webhook'
+			? {type: 'webhook', url: '', enabled: true}
+			: {command: '', enabled: true});
+	const isWebhook = currentHook.type === 'webhook';
+
+	useInput(
+		(input, key) => {
+			if (key.escape) {
+				if (view === 'menu') {
+					onComplete();
+				} else if (view === 'list') {
+					setView('menu');
+				} else if (view === 'hook') {
+					setView('list');
+				} else {
+					// A new hook is only added once it has a command or URL
+					setView(hookIndex < stateHooks.length ? 'hook' : 'list');
+				}
+			}
+		},
+		// The lifecycle hook editor handles its own keys
+		{isActive: view !== 'lifecycle'},
+	);
+
+	const updateHook = (changes: Partial<StatusHook>) => {
+		const updated: StatusHook = {...currentHook, ...changes};
+		// Leave out optional settings that were cleared
+		for (const key of Object.keys(updated) as (keyof StatusHook)[]) {
+			if (updated[key] === undefined) {
+				delete updated[key];
 			}
-		} else if (key.tab && view === 'edit') {
-			toggleEnabled();
 		}
-	});
+
+		const list = [...stateHooks];
+		list[hookIndex] = updated;
+		setGroupHooks(list);
+	};
+
+	const removeHook = () => {
+		setGroupHooks(stateHooks.filter((_, index) => index !== hookIndex));
+		setView('list');
+	};
+
+	const summarize = (list: {enabled: boolean}[]) => {
+		const enabled = list.filter(hook => hook.enabled).length;
+		return list.length === 0
+			? '(not set)'
+			: `${list.length} hook${list.length === 1 ? '' : 's'}, ${enabled} enabled`;
+	};
 
 	const getMenuItems = (): MenuItem[] => {
-		const items: MenuItem[] = [];
+		const items: MenuItem[] = STATES.map(status => ({
+			label: `${STATUS_LABELS[status]}: ${summarize(hooks[status] || [])} ${configurationManager.getSourceLabel(`statusHooks.${status}`)}`,
+			value: status,
+		}));
 
-		// Add status hook items
-		(['idle', 'busy', 'waiting_input'] as SessionState[]).forEach(status => {
-			const hook = hooks[status];
-			const enabled = hook?.enabled ? '✓' : '✗';
-			const command = hook?.command || '(not set)';
+		items.push({
+			label: '── Worktree Operations ──',
+			value: 'separator',
+		});
+
+		for (const event of LIFECYCLE_EVENTS) {
 			items.push({
-				label: `${STATUS_LABELS[status]}: ${enabled} ${command}`,
-				value: status,
+				label: `${LIFECYCLE_LABELS[event]}: ${summarize(lifecycleHooks[event] || [])} ${configurationManager.getSourceLabel(`lifecycleHooks.${event}`)}`,
+				value: event,
 			});
-		});
+		}
 
 		items.push({
 			label: '─────────────',
@@ -66,7 +205,7 @@ const ConfigureHooks: React.FC<ConfigureHooksProps> = ({onComplete}) => {
 		});
 
 		items.push({
-			label: '💾 Save and Return',
+			label: `💾 Save and Return (${CONFIG_LAYER_LABELS[configurationManager.getSaveLayer()]})`,
 			value: 'save',
 		});
 
@@ -78,38 +217,191 @@ const ConfigureHooks: React.FC<ConfigureHooksProps> = ({onComplete}) => {
 		return items;
 	};
 
+	const getListItems = (): MenuItem[] => [
+		...stateHooks.map((hook, index) => ({
+			label: `${hook.enabled ? '✓' : '✗'} ${formatHookTransition(hook, selectedStatus)}: ${hook.type === 'webhook' ? '🌐 ' : ''}${getHookTarget(hook)}`,
+			value: String(index),
+		})),
+		{label: '+ Add Command', value: 'add:command'},
+		{label: '+ Add Webhook', value: 'add:webhook'},
+		{label: '← Back', value: 'back'},
+	];
+
+	const numberItem = (setting: NumberSetting): MenuItem => ({
+		label: `${NUMBER_SETTINGS[setting].label}: ${currentHook[setting] ?? getNumberDefault(currentHook, setting)}`,
+		value: `number:${setting}`,
+	});
+
+	const getHookItems = (): MenuItem[] => [
+		isWebhook
+			? {label: `URL: ${currentHook.url}`, value: 'target'}
+			: {label: `Command: ${currentHook.command}`, value: 'target'},
+		...(isWebhook
+			? [{label: `Body: ${currentHook.body || '(payload)'}`, value: 'body'}]
+			: []),
+		{
+			label: `Enabled: ${currentHook.enabled ? '✓' : '✗'}`,
+			value: 'enabled',
+		},
+		...STATES.filter(state => state !== selectedStatus).map(state => ({
+			label: `Run after ${STATUS_LABELS[state]}: ${
+				!currentHook.from || currentHook.from.includes(state) ? '✓' : '✗'
+			}`,
+			value: `from:${state}`,
+		})),
+		numberItem('timeoutMs'),
+		numberItem('outputLines'),
+		...(isWebhook
+			? [
+					numberItem('retries'),
+					numberItem('debounceMs'),
+					{label: '🧪 Send Test', value: 'test'},
+				]
+			: []),
+		{label: '🗑  Delete Hook', value: 'delete'},
+		{label: '← Back', value: 'back'},
+	];
+
 	const handleMenuSelect = (item: MenuItem) => {
 		if (item.value === 'save') {
-			configurationManager.setStatusHooks(hooks);
+			// Only rewrite the sections that were edited
+			if (
+				JSON.stringify(hooks) !==
+				JSON.stringify(configurationManager.getStatusHooks())
+			) {
+				configurationManager.setStatusHooks(hooks);
+			}
+			if (
+				JSON.stringify(lifecycleHooks) !==
+				JSON.stringify(configurationManager.getLifecycleHooks())
+			) {
+				configurationManager.setLifecycleHooks(lifecycleHooks);
+			}
 			setShowSaveMessage(true);
 			setTimeout(() => {
 				onComplete();
 			}, 1000);
 		} else if (item.value === 'cancel') {
 			onComplete();
+		} else if (LIFECYCLE_EVENTS.includes(item.value as LifecycleEvent)) {
+			setSelectedEvent(item.value as LifecycleEvent);
+			setView('lifecycle');
 		} else if (item.value !== 'separator') {
-			const status = item.value as SessionState;
-			setSelectedStatus(status);
-			const hook = hooks[status];
-			setCurrentCommand(hook?.command || '');
-			setCurrentEnabled(hook?.enabled ?? true); // Default to true if not set
-			setView('edit');
+			setSelectedStatus(item.value as SessionState);
+			setView('list');
 		}
 	};
 
-	const handleCommandSubmit = (value: string) => {
-		setHooks(prev => ({
-			...prev,
-			[selectedStatus]: {
-				command: value,
-				enabled: currentEnabled,
-			},
-		}));
-		setView('menu');
+	const handleListSelect = (item: MenuItem) => {
+		setTestResult(null);
+		if (item.value === 'back') {
+			setView('menu');
+		} else if (item.value.startsWith('add:')) {
+			setNewHookType(item.value.slice('add:'.length) as StatusHookType);
+			setHookIndex(stateHooks.length);
+			setInputValue('');
+			setView('target');
+		} else {
+			setHookIndex(Number(item.value));
+			setView('hook');
+		}
 	};
 
-	const toggleEnabled = () => {
-		setCurrentEnabled(prev => !prev);
+	const toggleFrom = (state: SessionState) => {
+		const others = STATES.filter(other => other !== selectedStatus);
+		const from = currentHook.from || others;
+		const toggled = from.includes(state)
+			? from.filter(other => other !== state)
+			: [...from, state];
+		if (toggled.length === 0) {
+			// A hook that never runs should be disabled instead
+			return;
+		}
+		// Running after every other state needs no filter
+		updateHook({
+			from: others.every(other => toggled.includes(other))
+				? undefined
+				: others.filter(other => toggled.includes(other)),
+		});
+	};
+
+	const sendTest = () => {
+		setTestResult('Sending...');
+		const payload = createSampleStatusHookPayload(selectedStatus);
+		sendWebhook({
+			url: currentHook.url || '',
+			body: renderWebhookBody(currentHook.body, payload),
+			headers: currentHook.headers,
+			timeoutMs: currentHook.timeoutMs,
+			// Report the first failure right away
+			retries: 0,
+		}).then(result => {
+			setTestResult(
+				result.success
+					? `✓ Test sent (HTTP ${result.status})`
+					: `✗ Test failed: ${result.error}`,
+			);
+		});
+	};
+
+	const handleHookSelect = (item: MenuItem) => {
+		if (item.value === 'target') {
+			setInputValue(getHookTarget(currentHook));
+			setView('target');
+		} else if (item.value === 'body') {
+			setInputValue(currentHook.body || '');
+			setView('body');
+		} else if (item.value === 'enabled') {
+			updateHook({enabled: !currentHook.enabled});
+		} else if (item.value.startsWith('from:')) {
+			toggleFrom(item.value.slice('from:'.length) as SessionState);
+		} else if (item.value.startsWith('number:')) {
+			const setting = item.value.slice('number:'.length) as NumberSetting;
+			setNumberSetting(setting);
+			setInputValue(String(currentHook[setting] ?? ''));
+			setView('number');
+		} else if (item.value === 'test') {
+			sendTest();
+		} else if (item.value === 'delete') {
+			removeHook();
+		} else if (item.value === 'back') {
+			setView('list');
+		}
+	};
+
+	const handleTargetSubmit = (value: string) => {
+		if (!value.trim()) {
+			// An empty command or URL removes the hook
+			if (hookIndex < stateHooks.length) {
+				removeHook();
+			} else {
+				setView('list');
+			}
+			return;
+		}
+		updateHook(isWebhook ? {url: value.trim()} : {command: value.trim()});
+		setView('hook');
+	};
+
+	const handleBodySubmit = (value: string) => {
+		updateHook({body: value.trim() || undefined});
+		setView('hook');
+	};
+
+	const handleNumberSubmit = (value: string) => {
+		const number = Number(value.trim());
+		if (value.trim() === '') {
+			// Use the default
+			updateHook({[numberSetting]: undefined});
+		} else if (
+			Number.isInteger(number) &&
+			number >= NUMBER_SETTINGS[numberSetting].minimum
+		) {
+			updateHook({[numberSetting]: number});
+		} else {
+			return;
+		}
+		setView('hook');
 	};
 
 	if (showSaveMessage) {
@@ -120,37 +412,73 @@ const ConfigureHooks: React.FC<ConfigureHooksProps> = ({onComplete}) => {
 		);
 	}
 
-	if (view === 'edit') {
+	if (view === 'lifecycle') {
+		return (
+			<ConfigureLifecycleHooks
+				event={selectedEvent}
+				hooks={lifecycleHooks[selectedEvent] || []}
+				onChange={list =>
+					setLifecycleHooks(prev => ({...prev, [selectedEvent]: list}))
+				}
+				onBack={() => setView('menu')}
+			/>
+		);
+	}
+
+	if (view === 'target' && isWebhook) {
 		return (
 			<Box flexDirection="column">
 				<Box marginBottom={1}>
 					<Text bold color="green">
-						Configure {STATUS_LABELS[selectedStatus]} Hook
+						Configure {groupLabel} Webhook
 					</Text>
 				</Box>
 
 				<Box marginBottom={1}>
-					<Text>
-						Command to execute when status changes to{' '}
-						{STATUS_LABELS[selectedStatus]}:
-					</Text>
+					<Text>URL to POST to when status changes to {groupLabel}:</Text>
 				</Box>
 
 				<Box marginBottom={1}>
 					<TextInput
-						value={currentCommand}
-						onChange={setCurrentCommand}
-						onSubmit={handleCommandSubmit}
-						placeholder="Enter command (e.g., notify-send 'Claude is idle')"
+						value={inputValue}
+						onChange={setInputValue}
+						onSubmit={handleTargetSubmit}
+						placeholder="https://hooks.slack.com/services/..."
 					/>
 				</Box>
 
+				<Box marginTop={1}>
+					<Text dimColor>
+						Press Enter to save, Esc to cancel (an empty URL removes the
+						webhook)
+					</Text>
+				</Box>
+			</Box>
+		);
+	}
+
+	if (view === 'target') {
+		return (
+			<Box flexDirection="column">
 				<Box marginBottom={1}>
-					<Text>
-						Enabled: {currentEnabled ? '✓' : '✗'} (Press Tab to toggle)
+					<Text bold color="green">
+						Configure {groupLabel} Hook
 					</Text>
 				</Box>
 
+				<Box marginBottom={1}>
+					<Text>Command to execute when status changes to {groupLabel}:</Text>
+				</Box>
+
+				<Box marginBottom={1}>
+					<TextInput
+						value={inputValue}
+						onChange={setInputValue}
+						onSubmit={handleTargetSubmit}
+						placeholder="Enter command (e.g., notify-send 'Claude is idle')"
+					/>
+				</Box>
+
 				<Box marginTop={1}>
 					<Text dimColor>
 						Environment variables available: CCMANAGER_OLD_STATE,
@@ -159,19 +487,173 @@ const ConfigureHooks: React.FC<ConfigureHooksProps> = ({onComplete}) => {
 				</Box>
 				<Box>
 					<Text dimColor>
-						CCMANAGER_WORKTREE, CCMANAGER_WORKTREE_BRANCH, CCMANAGER_SESSION_ID
+						CCMANAGER_WORKTREE, CCMANAGER_WORKTREE_BRANCH, CCMANAGER_SESSION_ID,
+						CCMANAGER_COMMAND_TYPE
+					</Text>
+				</Box>
+				<Box>
+					<Text dimColor>
+						A JSON payload with the session details and recent output is written
+						to stdin.
 					</Text>
 				</Box>
 
 				<Box marginTop={1}>
 					<Text dimColor>
-						Press Enter to save, Tab to toggle enabled, Esc to cancel
+						Press Enter to save, Esc to cancel (an empty command removes the
+						hook)
 					</Text>
 				</Box>
 			</Box>
 		);
 	}
 
+	if (view === 'body') {
+		return (
+			<Box flexDirection="column">
+				<Box marginBottom={1}>
+					<Text bold color="green">
+						Webhook Body Template
+					</Text>
+				</Box>
+
+				<Box marginBottom={1}>
+					<Text>JSON to send (leave empty to send the payload as is):</Text>
+				</Box>
+
+				<Box>
+					<Text color="cyan">{'> '}</Text>
+					<TextInput
+						value={inputValue}
+						onChange={setInputValue}
+						onSubmit={handleBodySubmit}
+						placeholder='{"text": "{branch} is now {new_state}"}'
+					/>
+				</Box>
+
+				<Box marginTop={1}>
+					<Text dimColor>
+						Placeholders: {'{session_id} {command_type} {branch} {worktree}'}
+					</Text>
+				</Box>
+				<Box>
+					<Text dimColor>
+						{
+							'{old_state} {new_state} {duration_ms} {output} {timestamp} {payload}'
+						}
+					</Text>
+				</Box>
+
+				<Box marginTop={1}>
+					<Text dimColor>Press Enter to save, Esc to cancel</Text>
+				</Box>
+			</Box>
+		);
+	}
+
+	if (view === 'number') {
+		const setting = NUMBER_SETTINGS[numberSetting];
+		return (
+			<Box flexDirection="column">
+				<Box marginBottom={1}>
+					<Text bold color="green">
+						{setting.label}
+					</Text>
+				</Box>
+
+				<Box marginBottom={1}>
+					<Text>
+						{setting.description} (default{' '}
+						{getNumberDefault(currentHook, numberSetting)}):
+					</Text>
+				</Box>
+
+				<Box>
+					<Text color="cyan">{'> '}</Text>
+					<TextInput
+						value={inputValue}
+						onChange={setInputValue}
+						onSubmit={handleNumberSubmit}
+						placeholder="default"
+					/>
+				</Box>
+
+				<Box marginTop={1}>
+					<Text dimColor>
+						Press Enter to save, leave empty for the default, Esc to cancel
+					</Text>
+				</Box>
+			</Box>
+		);
+	}
+
+	if (view === 'hook') {
+		return (
+			<Box flexDirection="column">
+				<Box marginBottom={1}>
+					<Text bold color="green">
+						{groupLabel} {isWebhook ? 'Webhook' : 'Hook'}:{' '}
+						{formatHookTransition(currentHook, selectedStatus)}
+					</Text>
+				</Box>
+
+				<SelectInput
+					items={getHookItems()}
+					onSelect={handleHookSelect}
+					isFocused={true}
+				/>
+
+				{testResult && (
+					<Box marginTop={1}>
+						<Text
+							color={
+								testResult.startsWith('✓')
+									? 'green'
+									: testResult.startsWith('✗')
+										? 'red'
+										: undefined
+							}
+						>
+							{testResult}
+						</Text>
+					</Box>
+				)}
+
+				<Box marginTop={1}>
+					<Text dimColor>Press Esc to go back</Text>
+				</Box>
+			</Box>
+		);
+	}
+
+	if (view === 'list') {
+		return (
+			<Box flexDirection="column">
+				<Box marginBottom={1}>
+					<Text bold color="green">
+						{groupLabel} Hooks
+					</Text>
+				</Box>
+
+				<Box marginBottom={1}>
+					<Text dimColor>
+						Hooks run in order when a session becomes {groupLabel}:
+					</Text>
+				</Box>
+
+				<SelectInput
+					items={getListItems()}
+					onSelect={handleListSelect}
+					isFocused={true}
+				/>
+
+				<Box marginTop={1}>
+					<Text dimColor>Press Esc to go back</Text>
+				</Box>
+			</Box>
+		);
+	}
+
 	return (
 		<Box flexDirection="column">
 			<Box marginBottom={1}>
@@ -182,7 +664,8 @@ const ConfigureHooks: React.FC<ConfigureHooksProps> = ({onComplete}) => {
 
 			<Box marginBottom={1}>
 				<Text dimColor>
-					Set commands to run when Claude Code session status changes:
+					Set commands or webhooks to run when Claude Code session status
+					changes, and commands to run around worktree operations:
 				</Text>
 			</Box>
 
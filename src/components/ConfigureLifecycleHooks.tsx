@@ -0,0 +1,312 @@
+import React, {useState} from 'react';
+import {Box, Text, useInput} from 'ink';
+import TextInput from 'ink-text-input';
+import SelectInput from 'ink-select-input';
+import {LifecycleEvent, LifecycleHook} from '../types/index.js';
+import {DEFAULT_LIFECYCLE_HOOK_TIMEOUT_MS} from '../utils/hookUtils.js';
+
+interface ConfigureLifecycleHooksProps {
+	event: LifecycleEvent;
+	hooks: LifecycleHook[];
+	onChange: (hooks: LifecycleHook[]) => void;
+	onBack: () => void;
+}
+
+type View = 'list' | 'hook' | 'command' | 'timeout';
+
+interface MenuItem {
+	label: string;
+	value: string;
+}
+
+export const LIFECYCLE_EVENTS: LifecycleEvent[] = [
+	'preCreate',
+	'postCreate',
+	'preDelete',
+	'postDelete',
+	'preMerge',
+	'postMerge',
+];
+
+export const LIFECYCLE_LABELS: Record<LifecycleEvent, string> = {
+	preCreate: 'Before Create',
+	postCreate: 'After Create',
+	preDelete: 'Before Delete',
+	postDelete: 'After Delete',
+	preMerge: 'Before Merge',
+	postMerge: 'After Merge',
+};
+
+/**
+ * Edit the hooks run around one worktree operation. They are commands only,
+ * so a failing pre hook can abort the operation.
+ */
+const ConfigureLifecycleHooks: React.FC<ConfigureLifecycleHooksProps> = ({
+	event,
+	hooks,
+	onChange,
+	onBack,
+}) => {
+	const [view, setView] = useState<View>('list');
+	// Index of the hook being edited; equal to the list length for a new hook
+	const [hookIndex, setHookIndex] = useState(0);
+	const [inputValue, setInputValue] = useState('');
+
+	const label = LIFECYCLE_LABELS[event];
+	const currentHook: LifecycleHook = hooks[hookIndex] || {
+		command: '',
+		enabled: true,
+	};
+
+	useInput((_input, key) => {
+		if (key.escape) {
+			if (view === 'list') {
+				onBack();
+			} else if (view === 'hook') {
+				setView('list');
+			} else {
+				// A new hook is only added once it has a command
+				setView(hookIndex < hooks.length ? 'hook' : 'list');
+			}
+		}
+	});
+
+	const updateHook = (changes: Partial<LifecycleHook>) => {
+		const updated: LifecycleHook = {...currentHook, ...changes};
+		// Leave out the timeout when it was cleared
+		if (updated.timeoutMs === undefined) {
+			delete updated.timeoutMs;
+		}
+
+		const list = [...hooks];
+		list[hookIndex] = updated;
+		onChange(list);
+	};
+
+	const removeHook = () => {
+		onChange(hooks.filter((_, index) => index !== hookIndex));
+		setView('list');
+	};
+
+	const handleListSelect = (item: MenuItem) => {
+		if (item.value === 'back') {
+			onBack();
+		} else if (item.value === 'add') {
+			setHookIndex(hooks.length);
+			setInputValue('');
+			setView('command');
+		} else {
+			setHookIndex(Number(item.value));
+			setView('hook');
+		}
+	};
+
+	const handleHookSelect = (item: MenuItem) => {
+		if (item.value === 'command') {
+			setInputValue(currentHook.command);
+			setView('command');
+		} else if (item.value === 'enabled') {
+			updateHook({enabled: !currentHook.enabled});
+		} else if (item.value === 'timeout') {
+			setInputValue(String(currentHook.timeoutMs ?? ''));
+			setView('timeout');
+		} else if (item.value === 'delete') {
+			removeHook();
+		} else if (item.value === 'back') {
+			setView('list');
+		}
+	};
+
+	const handleCommandSubmit = (value: string) => {
+		if (!value.trim()) {
+			// An empty command removes the hook
+			if (hookIndex < hooks.length) {
+				removeHook();
+			} else {
+				setView('list');
+			}
+			return;
+		}
+		updateHook({command: value.trim()});
+		setView('hook');
+	};
+
+	const handleTimeoutSubmit = (value: string) => {
+		const timeoutMs = Number(value.trim());
+		if (value.trim() === '') {
+			// Use the default
+			updateHook({timeoutMs: undefined});
+		} else if (Number.isInteger(timeoutMs) && timeoutMs >= 1) {
+			updateHook({timeoutMs});
+		} else {
+			return;
+		}
+		setView('hook');
+	};
+
+	if (view === 'command') {
+		return (
+			<Box flexDirection="column">
+				<Box marginBottom={1}>
+					<Text bold color="green">
+						Configure {label} Hook
+					</Text>
+				</Box>
+
+				<Box marginBottom={1}>
+					<Text>
+						Command to run {label.toLowerCase()} a worktree
+						{event.startsWith('pre')
+							? ' (a non-zero exit aborts the operation)'
+							: ''}
+						:
+					</Text>
+				</Box>
+
+				<Box marginBottom={1}>
+					<TextInput
+						value={inputValue}
+						onChange={setInputValue}
+						onSubmit={handleCommandSubmit}
+						placeholder={
+							event === 'postCreate'
+								? 'npm install && cp "$CCMANAGER_ROOT_PATH/.env" .'
+								: event === 'preMerge'
+									? 'npm test'
+									: 'Enter command'
+						}
+					/>
+				</Box>
+
+				<Box marginTop={1}>
+					<Text dimColor>
+						Environment variables available: CCMANAGER_HOOK_EVENT,
+						CCMANAGER_OPERATION, CCMANAGER_WORKTREE,
+					</Text>
+				</Box>
+				<Box>
+					<Text dimColor>
+						CCMANAGER_WORKTREE_BRANCH, CCMANAGER_ROOT_PATH and for merges
+						CCMANAGER_SOURCE_BRANCH,
+					</Text>
+				</Box>
+				<Box>
+					<Text dimColor>
+						CCMANAGER_TARGET_BRANCH, CCMANAGER_MERGE_STRATEGY
+					</Text>
+				</Box>
+
+				<Box marginTop={1}>
+					<Text dimColor>
+						Press Enter to save, Esc to cancel (an empty command removes the
+						hook)
+					</Text>
+				</Box>
+			</Box>
+		);
+	}
+
+	if (view === 'timeout') {
+		return (
+			<Box flexDirection="column">
+				<Box marginBottom={1}>
+					<Text bold color="green">
+						Timeout (ms)
+					</Text>
+				</Box>
+
+				<Box marginBottom={1}>
+					<Text>
+						Milliseconds before the hook is stopped (default{' '}
+						{DEFAULT_LIFECYCLE_HOOK_TIMEOUT_MS}):
+					</Text>
+				</Box>
+
+				<Box>
+					<Text color="cyan">{'> '}</Text>
+					<TextInput
+						value={inputValue}
+						onChange={setInputValue}
+						onSubmit={handleTimeoutSubmit}
+						placeholder="default"
+					/>
+				</Box>
+
+				<Box marginTop={1}>
+					<Text dimColor>
+						Press Enter to save, leave empty for the default, Esc to cancel
+					</Text>
+				</Box>
+			</Box>
+		);
+	}
+
+	if (view === 'hook') {
+		return (
+			<Box flexDirection="column">
+				<Box marginBottom={1}>
+					<Text bold color="green">
+						{label} Hook
+					</Text>
+				</Box>
+
+				<SelectInput
+					items={[
+						{label: `Command: ${currentHook.command}`, value: 'command'},
+						{
+							label: `Enabled: ${currentHook.enabled ? '✓' : '✗'}`,
+							value: 'enabled',
+						},
+						{
+							label: `Timeout (ms): ${currentHook.timeoutMs ?? DEFAULT_LIFECYCLE_HOOK_TIMEOUT_MS}`,
+							value: 'timeout',
+						},
+						{label: '🗑  Delete Hook', value: 'delete'},
+						{label: '← Back', value: 'back'},
+					]}
+					onSelect={handleHookSelect}
+					isFocused={true}
+				/>
+
+				<Box marginTop={1}>
+					<Text dimColor>Press Esc to go back</Text>
+				</Box>
+			</Box>
+		);
+	}
+
+	return (
+		<Box flexDirection="column">
+			<Box marginBottom={1}>
+				<Text bold color="green">
+					{label} Hooks
+				</Text>
+			</Box>
+
+			<Box marginBottom={1}>
+				<Text dimColor>
+					Hooks run in order {label.toLowerCase()} a worktree:
+				</Text>
+			</Box>
+
+			<SelectInput
+				items={[
+					...hooks.map((hook, index) => ({
+						label: `${hook.enabled ? '✓' : '✗'} ${hook.command}`,
+						value: String(index),
+					})),
+					{label: '+ Add Command', value: 'add'},
+					{label: '← Back', value: 'back'},
+				]}
+				onSelect={handleListSelect}
+				isFocused={true}
+			/>
+
+			<Box marginTop={1}>
+				<Text dimColor>Press Esc to go back</Text>
+			</Box>
+		</Box>
+	);
+};
+
+export default ConfigureLifecycleHooks;
@@ -2,13 +2,23 @@ import React, {useState} from 'react';
 import {Box, Text, useInput} from 'ink';
 import SelectInput from 'ink-select-input';
 import {shortcutManager} from '../services/shortcutManager.js';
-import {ShortcutConfig, ShortcutKey} from '../types/index.js';
+import {
+	CONFIG_LAYER_LABELS,
+	configurationManager,
+} from '../services/configurationManager.js';
+import {
+	KeyCombo,
+	ShortcutAction,
+	ShortcutConfig,
+	ShortcutKey,
+} from '../types/index.js';
+import {SHORTCUT_ACTIONS} from '../constants/shortcutActions.js';
 
 interface ConfigureShortcutsProps {
 	onComplete: () => void;
 }
 
-type ConfigStep = 'menu' | 'editing' | 'capturing';
+type ConfigStep = 'menu' | 'editing' | 'capturing' | 'capturingChord';
 
 interface MenuItem {
 	label: string;
@@ -22,40 +32,29 @@ const ConfigureShortcuts: React.FC<ConfigureShortcutsProps> = ({
 	const [shortcuts, setShortcuts] = useState<ShortcutConfig>(
 		shortcutManager.getShortcuts(),
 	);
-	const [editingShortcut, setEditingShortcut] = useState<
-		keyof ShortcutConfig | null
-	>(null);
+	const [editingShortcut, setEditingShortcut] = useState<ShortcutAction | null>(
+		null,
+	);
+	const [leaderKey, setLeaderKey] = useState<KeyCombo | null>(null);
 	const [error, setError] = useState<string | null>(null);
 
-	const getShortcutDisplayFromState = (key: keyof ShortcutConfig): string => {
-		const shortcut = shortcuts[key];
-		if (!shortcut) return 'Not set';
-
-		const parts: string[] = [];
-		if (shortcut.ctrl) parts.push('Ctrl');
-		if (shortcut.alt) parts.push('Alt');
-		if (shortcut.shift) parts.push('Shift');
-
-		if (shortcut.key === 'escape') {
-			parts.push('Esc');
-		} else if (shortcut.key) {
-			parts.push(shortcut.key.toUpperCase());
-		}
-
-		return parts.join('+');
-	};
+	const getActionLabel = (action: ShortcutAction) =>
+		SHORTCUT_ACTIONS.find(info => info.action === action)?.label || action;
 
 	const shortcutItems: MenuItem[] = [
-		{
-			label: `Return to Menu: ${getShortcutDisplayFromState('returnToMenu')}`,
-			value: 'returnToMenu',
-		},
+		...SHORTCUT_ACTIONS.map(({action, label}) => {
+			const conflict = shortcutManager.findConflict(shortcuts, action);
+			return {
+				label: `${label}: ${shortcutManager.formatShortcut(shortcuts[action])} ${configurationManager.getSourceLabel(`shortcuts.${action}`)}${conflict ? ` ⚠ also bound to ${getActionLabel(conflict)}` : ''}`,
+				value: action,
+			};
+		}),
 		{
 			label: '---',
 			value: 'separator',
 		},
 		{
-			label: 'Save and Exit',
+			label: `Save and Exit (${CONFIG_LAYER_LABELS[configurationManager.getSaveLayer()]})`,
 			value: 'save',
 		},
 		{
@@ -64,46 +63,59 @@ const ConfigureShortcuts: React.FC<ConfigureShortcutsProps> = ({
 		},
 	];
 
+	const applyShortcut = (
+		action: ShortcutAction,
+		newShortcut: ShortcutKey,
+	): void => {
+		setStep('menu');
+		const invalidReason = shortcutManager.getShortcutError(action, newShortcut);
+		if (invalidReason) {
+			setError(invalidReason);
+			return;
+		}
+
+		const updated = {...shortcuts, [action]: newShortcut};
+		const conflict = shortcutManager.findConflict(updated, action);
+		if (conflict) {
+			setError(
+				`${shortcutManager.formatShortcut(newShortcut)} is already used by ${getActionLabel(conflict)}`,
+			);
+			return;
+		}
+
+		setShortcuts(updated);
+		setError(null);
+	};
+
 	useInput((input, key) => {
 		if (step === 'capturing' && editingShortcut) {
 			// Capture the key combination
-			const newShortcut: ShortcutKey = {
-				key: key.escape ? 'escape' : input || '',
-				ctrl: key.ctrl || false,
-				alt: false, // Ink doesn't support alt
-				shift: false, // Ink doesn't support shift
-			};
-
-			// Check for reserved keys
-			if (key.ctrl && input === 'c') {
-				setError('Ctrl+C is reserved and cannot be used');
-				setStep('menu');
-				return;
-			}
-			if (key.ctrl && input === 'd') {
-				setError('Ctrl+D is reserved and cannot be used');
-				setStep('menu');
-				return;
-			}
-			if (key.ctrl && input === '[') {
-				setError('Ctrl+[ is reserved and cannot be used');
+			const pressed = shortcutManager.getKeypress(input, key);
+			if (!pressed) {
+				setError('This key cannot be used as a shortcut');
 				setStep('menu');
 				return;
 			}
 
-			// Validate that a modifier is used (except for escape)
-			if (!key.escape && !key.ctrl) {
-				setError('Shortcuts must use a modifier key (Ctrl)');
-				setStep('menu');
+			const {ctrl, alt, shift} = pressed;
+			setLeaderKey({key: pressed.key, ctrl, alt, shift});
+			setStep('capturingChord');
+		} else if (step === 'capturingChord' && editingShortcut && leaderKey) {
+			// Enter keeps the single key, any other key completes a chord
+			const pressed = shortcutManager.getKeypress(input, key);
+			if (!pressed || key.return) {
+				applyShortcut(editingShortcut, leaderKey);
 				return;
 			}
 
-			setShortcuts({
-				...shortcuts,
-				[editingShortcut]: newShortcut,
+			const {ctrl, alt, shift} = pressed;
+			applyShortcut(editingShortcut, {
+				key: pressed.key,
+				ctrl,
+				alt,
+				shift,
+				leader: leaderKey,
 			});
-			setError(null);
-			setStep('menu');
 		} else if (step === 'menu') {
 			if (key.escape) {
 				onComplete();
@@ -120,7 +132,7 @@ const ConfigureShortcuts: React.FC<ConfigureShortcutsProps> = ({
 			if (success) {
 				onComplete();
 			} else {
-				setError('Failed to save shortcuts');
+				setError('Two actions share a key, change one of them before saving');
 			}
 			return;
 		}
@@ -130,22 +142,33 @@ const ConfigureShortcuts: React.FC<ConfigureShortcutsProps> = ({
 		}
 
 		// Start editing a shortcut
-		setEditingShortcut(item.value as keyof ShortcutConfig);
+		setEditingShortcut(item.value as ShortcutAction);
 		setStep('capturing');
 		setError(null);
 	};
 
-	if (step === 'capturing') {
+	if (step === 'capturing' || step === 'capturingChord') {
 		return (
 			<Box flexDirection="column">
 				<Text bold color="green">
-					Configure Shortcut: {editingShortcut}
+					Configure Shortcut:{' '}
+					{editingShortcut && getActionLabel(editingShortcut)}
 				</Text>
 				<Box marginTop={1}>
-					<Text>Press the key combination you want to use</Text>
+					{step === 'capturing' ? (
+						<Text>Press the key combination you want to use</Text>
+					) : (
+						<Text>
+							{leaderKey && shortcutManager.formatShortcut(leaderKey)}: press a
+							second key to make a chord, or Enter to use this key alone
+						</Text>
+					)}
 				</Box>
 				<Box marginTop={1}>
-					<Text dimColor>Note: Shortcuts must use Ctrl as a modifier key</Text>
+					<Text dimColor>
+						Note: Menu actions can use a single key; shortcuts used in a session
+						or in dialogs must start with Ctrl, Alt or a function key
+					</Text>
 				</Box>
 				<Box marginTop={1}>
 					<Text dimColor>Reserved: Ctrl+C, Ctrl+D, Ctrl+[ (Esc)</Text>
@@ -2,14 +2,25 @@ import React, {useState} from 'react';
 import {Box, Text, useInput} from 'ink';
 import SelectInput from 'ink-select-input';
 import TextInput from 'ink-text-input';
-import {configurationManager} from '../services/configurationManager.js';
+import {
+	CONFIG_LAYER_LABELS,
+	configurationManager,
+} from '../services/configurationManager.js';
 import {shortcutManager} from '../services/shortcutManager.js';
+import {SetupFileRule} from '../types/index.js';
 
 interface ConfigureWorktreeProps {
 	onComplete: () => void;
 }
 
-type EditMode = 'menu' | 'pattern';
+type EditMode =
+	| 'menu'
+	| 'pattern'
+	| 'setupFiles'
+	| 'setupFile'
+	| 'setupFilePattern'
+	| 'branchTemplates'
+	| 'branchTemplate';
 
 interface MenuItem {
 	label: string;
@@ -24,29 +35,66 @@ const ConfigureWorktree: React.FC<ConfigureWorktreeProps> = ({onComplete}) => {
 	const [pattern, setPattern] = useState(
 		worktreeConfig.autoDirectoryPattern || '../{branch}',
 	);
+	const [setupFiles, setSetupFiles] = useState<SetupFileRule[]>(
+		worktreeConfig.setupFiles || [],
+	);
+	const [branchTemplates, setBranchTemplates] = useState<string[]>(
+		worktreeConfig.branchTemplates || [],
+	);
 	const [editMode, setEditMode] = useState<EditMode>('menu');
 	const [tempPattern, setTempPattern] = useState(pattern);
+	const [ruleIndex, setRuleIndex] = useState(0);
+	const [templateIndex, setTemplateIndex] = useState(0);
 
 	useInput((input, key) => {
-		if (
-			editMode === 'menu' &&
-			shortcutManager.matchesShortcut('cancel', input, key)
-		) {
+		if (!shortcutManager.matchesShortcut('cancel', input, key)) {
+			return;
+		}
+		if (editMode === 'menu') {
 			onComplete();
+		} else if (editMode === 'setupFiles') {
+			setEditMode('menu');
+		} else if (editMode === 'setupFile') {
+			setEditMode('setupFiles');
+		} else if (editMode === 'setupFilePattern') {
+			setEditMode(ruleIndex < setupFiles.length ? 'setupFile' : 'setupFiles');
+		} else if (editMode === 'branchTemplates') {
+			setEditMode('menu');
+		} else if (editMode === 'branchTemplate') {
+			setEditMode('branchTemplates');
 		}
 	});
 
+	const currentRule: SetupFileRule = setupFiles[ruleIndex] || {
+		pattern: '',
+		mode: 'copy',
+	};
+
+	const updateRule = (rule: SetupFileRule) => {
+		const list = [...setupFiles];
+		list[ruleIndex] = rule;
+		setSetupFiles(list);
+	};
+
 	const menuItems: MenuItem[] = [
 		{
-			label: `Auto Directory: ${autoDirectory ? '✅ Enabled' : '❌ Disabled'}`,
+			label: `Auto Directory: ${autoDirectory ? '✅ Enabled' : '❌ Disabled'} ${configurationManager.getSourceLabel('worktree.autoDirectory')}`,
 			value: 'toggle',
 		},
 		{
-			label: `Pattern: ${pattern}`,
+			label: `Pattern: ${pattern} ${configurationManager.getSourceLabel('worktree.autoDirectoryPattern')}`,
 			value: 'pattern',
 		},
 		{
-			label: '💾 Save Changes',
+			label: `Setup Files: ${setupFiles.length === 0 ? '(none)' : setupFiles.map(rule => rule.pattern).join(', ')} ${configurationManager.getSourceLabel('worktree.setupFiles')}`,
+			value: 'setupFiles',
+		},
+		{
+			label: `Branch Templates: ${branchTemplates.length === 0 ? '(none)' : branchTemplates.join(', ')} ${configurationManager.getSourceLabel('worktree.branchTemplates')}`,
+			value: 'branchTemplates',
+		},
+		{
+			label: `💾 Save Changes (${CONFIG_LAYER_LABELS[configurationManager.getSaveLayer()]})`,
 			value: 'save',
 		},
 		{
@@ -64,11 +112,19 @@ const ConfigureWorktree: React.FC<ConfigureWorktreeProps> = ({onComplete}) => {
 				setTempPattern(pattern);
 				setEditMode('pattern');
 				break;
+			case 'setupFiles':
+				setEditMode('setupFiles');
+				break;
+			case 'branchTemplates':
+				setEditMode('branchTemplates');
+				break;
 			case 'save':
 				// Save the configuration
 				configurationManager.setWorktreeConfig({
 					autoDirectory,
 					autoDirectoryPattern: pattern,
+					...(setupFiles.length > 0 ? {setupFiles} : {}),
+					...(branchTemplates.length > 0 ? {branchTemplates} : {}),
 				});
 				onComplete();
 				break;
@@ -85,6 +141,256 @@ const ConfigureWorktree: React.FC<ConfigureWorktreeProps> = ({onComplete}) => {
 		setEditMode('menu');
 	};
 
+	const handleSetupFilesSelect = (item: MenuItem) => {
+		if (item.value === 'back') {
+			setEditMode('menu');
+		} else if (item.value === 'add') {
+			setRuleIndex(setupFiles.length);
+			setTempPattern('');
+			setEditMode('setupFilePattern');
+		} else {
+			setRuleIndex(Number(item.value));
+			setEditMode('setupFile');
+		}
+	};
+
+	const handleSetupFileSelect = (item: MenuItem) => {
+		switch (item.value) {
+			case 'pattern':
+				setTempPattern(currentRule.pattern);
+				setEditMode('setupFilePattern');
+				break;
+			case 'mode':
+				updateRule({
+					...currentRule,
+					mode: currentRule.mode === 'copy' ? 'symlink' : 'copy',
+				});
+				break;
+			case 'delete':
+				setSetupFiles(setupFiles.filter((_, index) => index !== ruleIndex));
+				setEditMode('setupFiles');
+				break;
+			case 'back':
+				setEditMode('setupFiles');
+				break;
+		}
+	};
+
+	const handleSetupFilePatternSubmit = (value: string) => {
+		if (value.trim()) {
+			updateRule({...currentRule, pattern: value.trim()});
+			setEditMode('setupFile');
+		} else {
+			setEditMode(ruleIndex < setupFiles.length ? 'setupFile' : 'setupFiles');
+		}
+	};
+
+	const handleBranchTemplatesSelect = (item: MenuItem) => {
+		if (item.value === 'back') {
+			setEditMode('menu');
+			return;
+		}
+
+		const index =
+			item.value === 'add' ? branchTemplates.length : Number(item.value);
+		setTemplateIndex(index);
+		setTempPattern(branchTemplates[index] || '');
+		setEditMode('branchTemplate');
+	};
+
+	const handleBranchTemplateSubmit = (value: string) => {
+		const list = [...branchTemplates];
+		if (value.trim()) {
+			list[templateIndex] = value.trim();
+		} else {
+			list.splice(templateIndex, 1);
+		}
+		setBranchTemplates(list);
+		setEditMode('branchTemplates');
+	};
+
+	if (editMode === 'branchTemplate') {
+		return (
+			<Box flexDirection="column">
+				<Box marginBottom={1}>
+					<Text bold color="green">
+						Configure Branch Template
+					</Text>
+				</Box>
+
+				<Box marginBottom={1}>
+					<Text>Enter a template for new branch names:</Text>
+				</Box>
+
+				<Box marginBottom={1}>
+					<Text dimColor>
+						{'{user}'} - login name, {'{date}'} - today (YYYY-MM-DD); other
+						variables such as {'{ticket}'} and {'{slug}'} are asked for
+					</Text>
+				</Box>
+
+				<Box>
+					<Text color="cyan">{'> '}</Text>
+					<TextInput
+						value={tempPattern}
+						onChange={setTempPattern}
+						onSubmit={handleBranchTemplateSubmit}
+						placeholder="{user}/{ticket}-{slug}"
+					/>
+				</Box>
+
+				<Box marginTop={1}>
+					<Text dimColor>
+						Press Enter to save (an empty template removes it) or Escape to
+						cancel
+					</Text>
+				</Box>
+			</Box>
+		);
+	}
+
+	if (editMode === 'branchTemplates') {
+		const items: MenuItem[] = [
+			...branchTemplates.map((item, index) => ({
+				label: item,
+				value: String(index),
+			})),
+			{label: '+ Add Template', value: 'add'},
+			{label: '← Back', value: 'back'},
+		];
+
+		return (
+			<Box flexDirection="column">
+				<Box marginBottom={1}>
+					<Text bold color="green">
+						Branch Templates
+					</Text>
+				</Box>
+
+				<Box marginBottom={1}>
+					<Text dimColor>
+						Templates offered when creating a worktree, e.g.
+						{' {user}/{ticket}-{slug}'}:
+					</Text>
+				</Box>
+
+				<SelectInput
+					items={items}
+					onSelect={handleBranchTemplatesSelect}
+					isFocused={true}
+				/>
+			</Box>
+		);
+	}
+
+	if (editMode === 'setupFilePattern') {
+		return (
+			<Box flexDirection="column">
+				<Box marginBottom={1}>
+					<Text bold color="green">
+						Configure Setup File Pattern
+					</Text>
+				</Box>
+
+				<Box marginBottom={1}>
+					<Text>
+						Glob of files in the main worktree to bring into new worktrees:
+					</Text>
+				</Box>
+
+				<Box marginBottom={1}>
+					<Text dimColor>
+						* matches within a directory, ** across directories (except .git and
+						node_modules)
+					</Text>
+				</Box>
+
+				<Box>
+					<Text color="cyan">{'> '}</Text>
+					<TextInput
+						value={tempPattern}
+						onChange={setTempPattern}
+						onSubmit={handleSetupFilePatternSubmit}
+						placeholder=".env*"
+					/>
+				</Box>
+
+				<Box marginTop={1}>
+					<Text dimColor>Press Enter to save or Escape to cancel</Text>
+				</Box>
+			</Box>
+		);
+	}
+
+	if (editMode === 'setupFile') {
+		const items: MenuItem[] = [
+			{label: `Pattern: ${currentRule.pattern}`, value: 'pattern'},
+			{
+				label: `Mode: ${currentRule.mode === 'copy' ? 'Copy' : 'Symlink'}`,
+				value: 'mode',
+			},
+			{label: '🗑  Delete Pattern', value: 'delete'},
+			{label: '← Back', value: 'back'},
+		];
+
+		return (
+			<Box flexDirection="column">
+				<Box marginBottom={1}>
+					<Text bold color="green">
+						Setup File: {currentRule.pattern}
+					</Text>
+				</Box>
+
+				<Box marginBottom={1}>
+					<Text dimColor>
+						Copies can be changed per worktree; symlinks share the file of the
+						main worktree
+					</Text>
+				</Box>
+
+				<SelectInput
+					items={items}
+					onSelect={handleSetupFileSelect}
+					isFocused={true}
+				/>
+			</Box>
+		);
+	}
+
+	if (editMode === 'setupFiles') {
+		const items: MenuItem[] = [
+			...setupFiles.map((rule, index) => ({
+				label: `${rule.pattern} (${rule.mode})`,
+				value: String(index),
+			})),
+			{label: '+ Add Pattern', value: 'add'},
+			{label: '← Back', value: 'back'},
+		];
+
+		return (
+			<Box flexDirection="column">
+				<Box marginBottom={1}>
+					<Text bold color="green">
+						Setup Files
+					</Text>
+				</Box>
+
+				<Box marginBottom={1}>
+					<Text dimColor>
+						Untracked files such as .env or local certificates copied or
+						symlinked from the main worktree into each new worktree:
+					</Text>
+				</Box>
+
+				<SelectInput
+					items={items}
+					onSelect={handleSetupFilesSelect}
+					isFocused={true}
+				/>
+			</Box>
+		);
+	}
+
 	if (editMode === 'pattern') {
 		return (
 			<Box flexDirection="column">
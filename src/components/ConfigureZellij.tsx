@@ -0,0 +1,195 @@
+import React, {useState} from 'react';
+import {Box, Text, useInput} from 'ink';
+import SelectInput from 'ink-select-input';
+import TextInput from 'ink-text-input';
+import {
+	CONFIG_LAYER_LABELS,
+	configurationManager,
+} from '../services/configurationManager.js';
+import {shortcutManager} from '../services/shortcutManager.js';
+import {ZellijExtraPane, ZellijSessionMode} from '../types/index.js';
+
+interface ConfigureZellijProps {
+	onComplete: () => void;
+}
+
+type EditMode = 'menu' | 'watcher';
+
+interface MenuItem {
+	label: string;
+	value: string;
+}
+
+const SHELL_PANE = 'shell';
+const WATCHER_PANE = 'tests';
+
+const ConfigureZellij: React.FC<ConfigureZellijProps> = ({onComplete}) => {
+	const zellijConfig = configurationManager.getZellijConfig();
+	const [mode, setMode] = useState<ZellijSessionMode>(zellijConfig.mode);
+	const [extraPanes, setExtraPanes] = useState<ZellijExtraPane[]>(
+		zellijConfig.extraPanes || [],
+	);
+	const [editMode, setEditMode] = useState<EditMode>('menu');
+	const [tempWatcher, setTempWatcher] = useState('');
+
+	const shellPane = extraPanes.find(pane => pane.name === SHELL_PANE);
+	const watcherPane = extraPanes.find(pane => pane.name === WATCHER_PANE);
+	const otherPanes = extraPanes.filter(
+		pane => pane.name !== SHELL_PANE && pane.name !== WATCHER_PANE,
+	);
+
+	useInput((input, key) => {
+		if (
+			editMode === 'menu' &&
+			shortcutManager.matchesShortcut('cancel', input, key)
+		) {
+			onComplete();
+		}
+	});
+
+	const menuItems: MenuItem[] = [
+		{
+			label: `Session Mode: ${mode === 'tab' ? '🗂  Tab per worktree' : '▦  Pane in current tab'} ${configurationManager.getSourceLabel('zellij.mode')}`,
+			value: 'mode',
+		},
+		{
+			label: `Shell Pane: ${shellPane ? '✅ Enabled' : '❌ Disabled'} ${configurationManager.getSourceLabel('zellij.extraPanes')}`,
+			value: 'shell',
+		},
+		{
+			label: `Test Watcher: ${watcherPane?.command || '(not set)'} ${configurationManager.getSourceLabel('zellij.extraPanes')}`,
+			value: 'watcher',
+		},
+		{
+			label: `💾 Save Changes (${CONFIG_LAYER_LABELS[configurationManager.getSaveLayer()]})`,
+			value: 'save',
+		},
+		{
+			label: '← Cancel',
+			value: 'cancel',
+		},
+	];
+
+	// Keep the shell pane before the test watcher and other configured panes
+	const buildExtraPanes = (
+		shell: ZellijExtraPane | undefined,
+		watcher: ZellijExtraPane | undefined,
+	): ZellijExtraPane[] => [
+		...(shell ? [shell] : []),
+		...(watcher ? [watcher] : []),
+		...otherPanes,
+	];
+
+	const handleMenuSelect = (item: MenuItem) => {
+		switch (item.value) {
+			case 'mode':
+				setMode(mode === 'tab' ? 'pane' : 'tab');
+				break;
+			case 'shell':
+				setExtraPanes(
+					buildExtraPanes(
+						shellPane ? undefined : {name: SHELL_PANE},
+						watcherPane,
+					),
+				);
+				break;
+			case 'watcher':
+				setTempWatcher(watcherPane?.command || '');
+				setEditMode('watcher');
+				break;
+			case 'save':
+				configurationManager.setZellijConfig({
+					mode,
+					extraPanes,
+				});
+				onComplete();
+				break;
+			case 'cancel':
+				onComplete();
+				break;
+		}
+	};
+
+	const handleWatcherSubmit = (value: string) => {
+		setExtraPanes(
+			buildExtraPanes(
+				shellPane,
+				value.trim() ? {name: WATCHER_PANE, command: value.trim()} : undefined,
+			),
+		);
+		setEditMode('menu');
+	};
+
+	if (editMode === 'watcher') {
+		return (
+			<Box flexDirection="column">
+				<Box marginBottom={1}>
+					<Text bold color="green">
+						Configure Test Watcher Pane
+					</Text>
+				</Box>
+
+				<Box marginBottom={1}>
+					<Text>
+						Enter the command to run next to the agent (leave empty to disable):
+					</Text>
+				</Box>
+
+				<Box>
+					<Text color="cyan">{'> '}</Text>
+					<TextInput
+						value={tempWatcher}
+						onChange={setTempWatcher}
+						onSubmit={handleWatcherSubmit}
+						placeholder="npm run test -- --watch"
+					/>
+				</Box>
+
+				<Box marginTop={1}>
+					<Text dimColor>Press Enter to save</Text>
+				</Box>
+			</Box>
+		);
+	}
+
+	return (
+		<Box flexDirection="column">
+			<Box marginBottom={1}>
+				<Text bold color="green">
+					Configure Zellij Integration
+				</Text>
+			</Box>
+
+			<Box marginBottom={1}>
+				<Text dimColor>
+					Choose how new sessions open inside Zellij. Extra panes are only used
+					in tab mode.
+				</Text>
+			</Box>
+
+			{otherPanes.length > 0 && (
+				<Box marginBottom={1}>
+					<Text dimColor>
+						Other panes from config.json:{' '}
+						{otherPanes.map(pane => pane.name).join(', ')}
+					</Text>
+				</Box>
+			)}
+
+			<SelectInput
+				items={menuItems}
+				onSelect={handleMenuSelect}
+				isFocused={true}
+			/>
+
+			<Box marginTop={1}>
+				<Text dimColor>
+					Press {shortcutManager.getShortcutDisplay('cancel')} to cancel without
+					saving
+				</Text>
+			</Box>
+		</Box>
+	);
+};
+
+export default ConfigureZellij;
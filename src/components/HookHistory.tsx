@@ -0,0 +1,153 @@
+import React, {useState, useEffect} from 'react';
+import {Box, Text, useInput} from 'ink';
+import SelectInput from 'ink-select-input';
+import {hookLogger} from '../services/hookLogger.js';
+import {shortcutManager} from '../services/shortcutManager.js';
+import {HookLogEntry} from '../types/index.js';
+
+interface HookHistoryProps {
+	onComplete: () => void;
+}
+
+interface MenuItem {
+	label: string;
+	value: string;
+}
+
+// Entries listed at once, newest first
+const MAX_LISTED_ENTRIES = 50;
+
+const formatTime = (timestamp: string) =>
+	new Date(timestamp).toLocaleString(undefined, {
+		month: 'short',
+		day: 'numeric',
+		hour: '2-digit',
+		minute: '2-digit',
+		second: '2-digit',
+	});
+
+const formatResult = (entry: HookLogEntry) => {
+	if (entry.type === 'webhook') {
+		return entry.status !== undefined ? `HTTP ${entry.status}` : 'no response';
+	}
+	return entry.exitCode !== undefined && entry.exitCode !== null
+		? `exit ${entry.exitCode}`
+		: 'stopped';
+};
+
+const HookHistory: React.FC<HookHistoryProps> = ({onComplete}) => {
+	const [entries, setEntries] = useState<HookLogEntry[]>([]);
+	const [selected, setSelected] = useState<HookLogEntry | null>(null);
+
+	useEffect(() => {
+		const updateEntries = () => {
+			setEntries(
+				[...hookLogger.getEntries()].reverse().slice(0, MAX_LISTED_ENTRIES),
+			);
+		};
+
+		updateEntries();
+
+		hookLogger.on('entryAdded', updateEntries);
+		return () => {
+			hookLogger.off('entryAdded', updateEntries);
+		};
+	}, []);
+
+	useInput((input, key) => {
+		if (shortcutManager.matchesShortcut('cancel', input, key)) {
+			if (selected) {
+				setSelected(null);
+			} else {
+				onComplete();
+			}
+		}
+	});
+
+	if (selected) {
+		return (
+			<Box flexDirection="column">
+				<Box marginBottom={1}>
+					<Text bold color={selected.success ? 'green' : 'red'}>
+						{selected.success ? '✓' : '✗'} {selected.branch} {selected.event}
+					</Text>
+				</Box>
+
+				<Text>Time: {formatTime(selected.timestamp)}</Text>
+				<Text>
+					{selected.type === 'webhook' ? 'URL' : 'Command'}: {selected.target}
+				</Text>
+				<Text>
+					Result: {formatResult(selected)} after {selected.durationMs}ms
+				</Text>
+				{selected.error && <Text color="red">Error: {selected.error}</Text>}
+
+				{selected.stdout && (
+					<Box marginTop={1} flexDirection="column">
+						<Text bold>stdout:</Text>
+						<Text dimColor>{selected.stdout}</Text>
+					</Box>
+				)}
+				{selected.stderr && (
+					<Box marginTop={1} flexDirection="column">
+						<Text bold>stderr:</Text>
+						<Text dimColor>{selected.stderr}</Text>
+					</Box>
+				)}
+
+				<Box marginTop={1}>
+					<Text dimColor>
+						Press {shortcutManager.getShortcutDisplay('cancel')} to go back
+					</Text>
+				</Box>
+			</Box>
+		);
+	}
+
+	const items: MenuItem[] = [
+		...entries.map((entry, index) => ({
+			label: `${entry.success ? '✓' : '✗'} ${formatTime(entry.timestamp)} ${entry.branch} ${entry.event} ${entry.type === 'webhook' ? '🌐 ' : ''}${entry.target} (${formatResult(entry)}, ${entry.durationMs}ms)`,
+			value: String(index),
+		})),
+		{label: '← Back', value: 'back'},
+	];
+
+	const handleSelect = (item: MenuItem) => {
+		if (item.value === 'back') {
+			onComplete();
+		} else {
+			setSelected(entries[Number(item.value)] || null);
+		}
+	};
+
+	return (
+		<Box flexDirection="column">
+			<Box marginBottom={1}>
+				<Text bold color="green">
+					Hook History
+				</Text>
+			</Box>
+
+			<Box marginBottom={1}>
+				<Text dimColor>
+					{entries.length === 0
+						? 'No hooks have run yet.'
+						: 'Recent hook runs, newest first. Select one for its output:'}
+				</Text>
+			</Box>
+
+			<SelectInput
+				items={items}
+				onSelect={handleSelect}
+				isFocused={true}
+				limit={15}
+			/>
+
+			<Box marginTop={1}>
+				<Text dimColor>Full log: {hookLogger.getLogPath()}</Text>
+			</Box>
+		</Box>
+	);
+};
+
+export default HookHistory;
@@ -1,21 +1,74 @@
 import React, {useState, useEffect, useMemo} from 'react';
-import {Box, Text} from 'ink';
+import {Box, Text, useInput} from 'ink';
 import SelectInput from 'ink-select-input';
-import {Worktree, Session} from '../types/index.js';
+import TextInput from 'ink-text-input';
+import {
+	Worktree,
+	Session,
+	WorktreeStatus,
+	MenuFilter,
+	MenuWorktreeAction,
+	SessionState,
+} from '../types/index.js';
 import {WorktreeService} from '../services/worktreeService.js';
 import {SessionManager} from '../services/sessionManager.js';
 import {ZellijService} from '../services/zellijService.js';
+import {agentRegistry} from '../services/agentRegistry.js';
+import {configurationManager} from '../services/configurationManager.js';
+import {hookLogger} from '../services/hookLogger.js';
+import {shortcutManager} from '../services/shortcutManager.js';
 import {
 	STATUS_ICONS,
 	STATUS_LABELS,
 	MENU_ICONS,
 	getStatusDisplay,
 } from '../constants/statusIcons.js';
+import {formatElapsed} from '../utils/timeUtils.js';
+import {fuzzyScore} from '../utils/fuzzyMatch.js';
+import {getWorktreeDisplayPath} from '../utils/worktreeUtils.js';
+import {
+	MENU_SORT_LABELS,
+	MENU_SORT_MODES,
+	groupMenuEntries,
+	sortMenuEntries,
+} from '../utils/menuSort.js';
+
+// Interval of the git status refresh, which also updates the shown times
+const STATUS_REFRESH_MS = 5000;
+
+// Order in which the state filter cycles, starting from no filter
+const STATE_FILTERS: (SessionState | 'none' | undefined)[] = [
+	undefined,
+	'waiting_input',
+	'busy',
+	'idle',
+	'none',
+];
+
+const STATE_FILTER_LABELS: Record<SessionState | 'none', string> = {
+	waiting_input: `${STATUS_ICONS.WAITING} ${STATUS_LABELS.WAITING}`,
+	busy: `${STATUS_ICONS.BUSY} ${STATUS_LABELS.BUSY}`,
+	idle: `${STATUS_ICONS.IDLE} ${STATUS_LABELS.IDLE}`,
+	none: 'No session',
+};
+
+const WORKTREE_ACTIONS: MenuWorktreeAction[] = [
+	'killSession',
+	'restartSession',
+	'openShell',
+];
 
 interface MenuProps {
 	sessionManager: SessionManager;
 	onSelectWorktree: (worktree: Worktree) => void;
 	showTitle?: boolean; // Optional prop to control title display
+	// Kept by the parent so it survives menu refreshes
+	filter: MenuFilter;
+	onFilterChange: (filter: MenuFilter) => void;
+	collapsedGroups: string[]; // Branch prefixes whose section is collapsed
+	onToggleGroup: (prefix: string) => void;
+	// Runs a session action on the highlighted worktree
+	onWorktreeAction: (action: MenuWorktreeAction, worktree: Worktree) => void;
 }
 
 interface MenuItem {
@@ -28,12 +81,107 @@ const Menu: React.FC<MenuProps> = React.memo(function Menu({
 	sessionManager,
 	onSelectWorktree,
 	showTitle = true,
+	filter,
+	onFilterChange,
+	collapsedGroups,
+	onToggleGroup,
+	onWorktreeAction,
 }) {
 	const [worktrees, setWorktrees] = useState<Worktree[]>([]);
 	const [sessions, setSessions] = useState<Session[]>([]);
 	// Remove items state - will use useMemo instead
 	const [isZellijAvailable, setIsZellijAvailable] = useState(false);
 	const [isInsideZellij, setIsInsideZellij] = useState(false);
+	// Worktrees whose most recent hook failed
+	const [failedHookPaths, setFailedHookPaths] = useState<Set<string>>(
+		new Set(),
+	);
+	const [worktreeStatuses, setWorktreeStatuses] = useState<
+		Map<string, WorktreeStatus>
+	>(new Map());
+	const [now, setNow] = useState(Date.now());
+	const [isSearching, setIsSearching] = useState(false);
+	// Highlighted item, kept when the items change
+	const [selectedValue, setSelectedValue] = useState<string>();
+	const menuConfig = configurationManager.getMenuConfig();
+	const sortBy = menuConfig.sortBy || 'default';
+
+	const isFiltered = !!(filter.query || filter.state || filter.commandType);
+
+	useInput((input, key) => {
+		if (shortcutManager.matchesShortcut('nextWaiting', input, key)) {
+			const next = sessionManager.getNextWaitingSession();
+			const worktree = worktrees.find(wt => wt.path === next?.worktreePath);
+			if (worktree) {
+				onSelectWorktree(worktree);
+			}
+			return;
+		}
+
+		if (isSearching) {
+			// Typing goes to the search input; Enter keeps the query
+			if (key.return) {
+				setIsSearching(false);
+			} else if (shortcutManager.matchesShortcut('cancel', input, key)) {
+				setIsSearching(false);
+				onFilterChange({...filter, query: ''});
+			}
+			return;
+		}
+
+		const worktreeAction = WORKTREE_ACTIONS.find(action =>
+			shortcutManager.matchesShortcut(action, input, key),
+		);
+		if (/^[1-9]$/.test(input)) {
+			// Quick select by the number shown next to the worktree
+			const worktree = items.filter(item => item.worktree)[Number(input) - 1]
+				?.worktree;
+			if (worktree) {
+				onSelectWorktree(worktree);
+			}
+		} else if (shortcutManager.matchesShortcut('newWorktree', input, key)) {
+			handleSelect({label: '', value: 'new-worktree'});
+		} else if (shortcutManager.matchesShortcut('deleteWorktree', input, key)) {
+			handleSelect({label: '', value: 'delete-worktree'});
+		} else if (shortcutManager.matchesShortcut('mergeWorktree', input, key)) {
+			handleSelect({label: '', value: 'merge-worktree'});
+		} else if (shortcutManager.matchesShortcut('refresh', input, key)) {
+			setWorktrees(new WorktreeService().getWorktrees());
+			setSessions(sessionManager.getAllSessions());
+		} else if (worktreeAction) {
+			const selected = items[selectedIndex]?.worktree;
+			if (selected) {
+				onWorktreeAction(worktreeAction, selected);
+			}
+		} else if (shortcutManager.matchesShortcut('search', input, key)) {
+			setIsSearching(true);
+		} else if (shortcutManager.matchesShortcut('filterState', input, key)) {
+			const next =
+				(STATE_FILTERS.indexOf(filter.state) + 1) % STATE_FILTERS.length;
+			onFilterChange({...filter, state: STATE_FILTERS[next]});
+		} else if (shortcutManager.matchesShortcut('filterCommand', input, key)) {
+			const commandTypes = [
+				undefined,
+				...agentRegistry.getAgents().map(agent => agent.id),
+			];
+			const next =
+				(commandTypes.indexOf(filter.commandType) + 1) % commandTypes.length;
+			onFilterChange({...filter, commandType: commandTypes[next]});
+		} else if (shortcutManager.matchesShortcut('sort', input, key)) {
+			const next =
+				(MENU_SORT_MODES.indexOf(sortBy) + 1) % MENU_SORT_MODES.length;
+			configurationManager.setMenuConfig({sortBy: MENU_SORT_MODES[next]});
+		} else if (shortcutManager.matchesShortcut('group', input, key)) {
+			configurationManager.setMenuConfig({
+				groupByPrefix: !menuConfig.groupByPrefix,
+			});
+		} else if (
+			isFiltered &&
+			shortcutManager.matchesShortcut('cancel', input, key)
+		) {
+			onFilterChange({query: ''});
+		}
+	});
 
 	// Initialize Zellij status on mount
 	useEffect(() => {
@@ -70,11 +218,137 @@ const Menu: React.FC<MenuProps> = React.memo(function Menu({
 		};
 	}, [sessionManager]);
 
+	// Update hook failure badges and listen for finished hooks
+	useEffect(() => {
+		const updateFailedHooks = () => {
+			setFailedHookPaths(
+				new Set(
+					worktrees
+						.filter(wt => hookLogger.getLastEntry(wt.path)?.success === false)
+						.map(wt => wt.path),
+				),
+			);
+		};
+
+		updateFailedHooks();
+
+		hookLogger.on('entryAdded', updateFailedHooks);
+		return () => {
+			hookLogger.off('entryAdded', updateFailedHooks);
+		};
+	}, [worktrees]);
+
+	// Refresh the git status of the worktrees in the background
+	useEffect(() => {
+		if (worktrees.length === 0) {
+			return;
+		}
+
+		const worktreeService = new WorktreeService();
+		let isCancelled = false;
+		let isRefreshing = false;
+
+		const refreshStatuses = async () => {
+			// Skip a round while git is still busy with the previous one
+			if (isRefreshing) {
+				return;
+			}
+			isRefreshing = true;
+
+			const statuses = new Map<string, WorktreeStatus>();
+			for (const wt of worktrees) {
+				const status = await worktreeService.getWorktreeStatus(wt.path);
+				if (status) {
+					statuses.set(wt.path, status);
+				}
+			}
+
+			isRefreshing = false;
+			if (!isCancelled) {
+				setWorktreeStatuses(statuses);
+				setNow(Date.now());
+			}
+		};
+
+		refreshStatuses();
+		const timer = setInterval(refreshStatuses, STATUS_REFRESH_MS);
+		return () => {
+			isCancelled = true;
+			clearInterval(timer);
+		};
+	}, [worktrees]);
+
 	// Memoize menu items to prevent unnecessary recalculations
 	const items = useMemo(() => {
-		// Build menu items
-		const menuItems: MenuItem[] = worktrees.map(wt => {
-			const session = sessions.find(s => s.worktreePath === wt.path);
+		const formatDetails = (wt: Worktree, session?: Session) => {
+			const details: string[] = [];
+			const status = worktreeStatuses.get(wt.path);
+			if (status) {
+				details.push(
+					status.dirtyFiles > 0 ? `${status.dirtyFiles} changed` : 'clean',
+				);
+				if (status.ahead || status.behind) {
+					details.push(`↑${status.ahead} ↓${status.behind}`);
+				}
+				if (status.lastCommitAt) {
+					details.push(
+						`commit ${formatElapsed(now - status.lastCommitAt.getTime())} ago`,
+					);
+				}
+			}
+			if (session) {
+				details.push(
+					`up ${formatElapsed(now - session.createdAt.getTime())}`,
+					`active ${formatElapsed(now - session.lastActivity.getTime())} ago`,
+				);
+			}
+			return details.join(' · ');
+		};
+
+		const matchesFilter = (session?: Session) => {
+			if (filter.state === 'none') {
+				return !session;
+			}
+			if (filter.state && session?.state !== filter.state) {
+				return false;
+			}
+			return !filter.commandType || session?.commandType === filter.commandType;
+		};
+
+		// Best fuzzy match of the query on the branch or the path. Directories
+		// above the repository would match almost any query, so they are left out.
+		const mainWorktreePath = worktrees.find(wt => wt.isMainWorktree)?.path;
+		const getSearchScore = (wt: Worktree) => {
+			const scores = [
+				fuzzyScore(filter.query, wt.branch.replace('refs/heads/', '')),
+				fuzzyScore(
+					filter.query,
+					getWorktreeDisplayPath(wt.path, mainWorktreePath),
+				),
+			].filter((score): score is number => score !== null);
+			return scores.length > 0 ? Math.max(...scores) : null;
+		};
+
+		const entries = sortMenuEntries(
+			worktrees
+				.map(wt => ({
+					worktree: wt,
+					session: sessions.find(s => s.worktreePath === wt.path),
+					status: worktreeStatuses.get(wt.path),
+					score: getSearchScore(wt),
+				}))
+				.filter(({session, score}) => score !== null && matchesFilter(session)),
+			sortBy,
+		);
+		if (filter.query) {
+			// Stable sort keeps the chosen order among equal matches
+			entries.sort((a, b) => b.score! - a.score!);
+		}
+
+		const buildWorktreeItem = (
+			{worktree: wt, session}: (typeof entries)[number],
+			indent: string,
+		) => {
 			let status = '';
 			let commandPrefix = '';
 
@@ -84,23 +358,68 @@ const Menu: React.FC<MenuProps> = React.memo(function Menu({
 					: getStatusDisplay(session.state);
 				status = ` [${statusDisplay}]`;
 				// Add command type prefix
-				commandPrefix = session.commandType === 'codex' ? '[X] ' : '[C] ';
-				if (session.isZellijSession) {
-					// Use different icons for Claude vs Codex in Zellij
-					const zellijIcon = session.commandType === 'codex' ? '🧠' : '🐦';
-					commandPrefix += `${zellijIcon} `;
-				}
+				commandPrefix = `${agentRegistry.getPrefix(session.commandType)} `;
 			}
 
 			const branchName = wt.branch.replace('refs/heads/', '');
 			const isMain = wt.isMainWorktree ? ' (main)' : '';
+			const hookFailed = failedHookPaths.has(wt.path) ? ' ⚠ hook failed' : '';
 
 			return {
-				label: `${commandPrefix}${branchName}${isMain}${status}`,
+				label: `${indent}${commandPrefix}${branchName}${isMain}${status}${hookFailed}`,
+				details: formatDetails(wt, session),
 				value: wt.path,
 				worktree: wt,
 			};
-		});
+		};
+
+		// Build menu items, in collapsible sections when grouping by prefix
+		const groups = menuConfig.groupByPrefix
+			? groupMenuEntries(entries)
+			: [{prefix: undefined, entries}];
+		const worktreeItems: (MenuItem & {details?: string})[] = [];
+		for (const group of groups) {
+			if (group.prefix === undefined) {
+				worktreeItems.push(
+					...group.entries.map(entry => buildWorktreeItem(entry, '')),
+				);
+				continue;
+			}
+
+			const isCollapsed = collapsedGroups.includes(group.prefix);
+			worktreeItems.push({
+				label: `${isCollapsed ? '▸' : '▾'} ${group.prefix}/ (${group.entries.length})`,
+				value: `group:${group.prefix}`,
+			});
+			if (!isCollapsed) {
+				worktreeItems.push(
+					...group.entries.map(entry => buildWorktreeItem(entry, '  ')),
+				);
+			}
+		}
+
+		// Line up the details of all worktrees in one column
+		const labelWidth = Math.max(
+			0,
+			...worktreeItems
+				.filter(item => item.worktree)
+				.map(item => item.label.length),
+		);
+		// Number the first nine worktrees for quick select
+		let worktreeNumber = 0;
+		const menuItems: MenuItem[] = worktreeItems.map(
+			({label, details, value, worktree}) => {
+				const number =
+					worktree && worktreeNumber < 9 ? `${++worktreeNumber} ` : '  ';
+				return {
+					label: details
+						? `${number}${label.padEnd(labelWidth)}  ${details}`
+						: `${number}${label}`,
+					value,
+					worktree,
+				};
+			},
+		);
 
 		// Add menu options
 		menuItems.push({
@@ -129,11 +448,51 @@ const Menu: React.FC<MenuProps> = React.memo(function Menu({
 		});
 
 		return menuItems;
-	}, [worktrees, sessions]);
+	}, [
+		worktrees,
+		sessions,
+		failedHookPaths,
+		worktreeStatuses,
+		now,
+		filter,
+		sortBy,
+		menuConfig.groupByPrefix,
+		collapsedGroups,
+	]);
+
+	const filterDescription = [
+		filter.query && `"${filter.query}"`,
+		filter.state && `state: ${STATE_FILTER_LABELS[filter.state]}`,
+		filter.commandType &&
+			`command: ${agentRegistry.getLabel(filter.commandType)}`,
+	]
+		.filter(Boolean)
+		.join(' · ');
+	const selectedIndex = Math.max(
+		0,
+		items.findIndex(item => item.value === selectedValue),
+	);
+	const waitingCount = sessions.filter(
+		session => session.state === 'waiting_input',
+	).length;
+	const hasMatches = items.some(
+		item => item.worktree || item.value.startsWith('group:'),
+	);
+
+	const commandLegend = useMemo(
+		() =>
+			agentRegistry
+				.getAgents()
+				.map(agent => `${agentRegistry.getPrefix(agent.id)} ${agent.label}`)
+				.join(', '),
+		[],
+	);
 
 	const handleSelect = (item: MenuItem) => {
 		if (item.value === 'separator') {
 			// Do nothing for separator
+		} else if (item.value.startsWith('group:')) {
+			onToggleGroup(item.value.slice('group:'.length));
 		} else if (item.value === 'new-worktree') {
 			// Handle in parent component
 			onSelectWorktree({
@@ -195,9 +554,20 @@ const Menu: React.FC<MenuProps> = React.memo(function Menu({
 				</Text>
 				{isZellijAvailable && isInsideZellij && (
 					<Text dimColor color="green">
-						🏁 Zellij Mode: New sessions will open in separate tabs
+						🏁 Zellij Mode: New sessions will open in{' '}
+						{configurationManager.getZellijConfig().mode === 'tab'
+							? 'separate tabs'
+							: 'new panes'}
 					</Text>
 				)}
+				{isZellijAvailable &&
+					isInsideZellij &&
+					!ZellijService.isScreenCaptureAvailable() && (
+						<Text color="yellow">
+							⚠️ `script` not found: session states of Zellij panes cannot be
+							detected
+						</Text>
+					)}
 				{isZellijAvailable && !isInsideZellij && (
 					<Text dimColor color="yellow">
 						⚠️ Zellij detected but not running inside session
@@ -206,9 +576,60 @@ const Menu: React.FC<MenuProps> = React.memo(function Menu({
 				{!isZellijAvailable && (
 					<Text dimColor>💡 Install Zellij for separate window sessions</Text>
 				)}
+				{configurationManager.getValidationErrors().length > 0 && (
+					<Text color="yellow">
+						⚠️ Configuration has{' '}
+						{configurationManager.getValidationErrors().length} invalid
+						setting(s), see Configuration
+					</Text>
+				)}
+				{waitingCount > 0 && (
+					<Text color="yellow">
+						{STATUS_ICONS.WAITING} {waitingCount} session
+						{waitingCount === 1 ? '' : 's'} waiting for input, press{' '}
+						{shortcutManager.getShortcutDisplay('nextWaiting')} to jump
+					</Text>
+				)}
+				{failedHookPaths.size > 0 && (
+					<Text color="yellow">
+						⚠️ A hook failed, see Configuration → Hook History
+					</Text>
+				)}
 			</Box>
 
-			<SelectInput items={items} onSelect={handleSelect} isFocused={true} />
+			{(isSearching || isFiltered) && (
+				<Box marginBottom={1} flexDirection="column">
+					{isSearching ? (
+						<Box>
+							<Text color="cyan">/</Text>
+							<TextInput
+								value={filter.query}
+								onChange={query => onFilterChange({...filter, query})}
+								placeholder="Search branches and paths"
+							/>
+						</Box>
+					) : (
+						<Text color="cyan">
+							Filter: {filterDescription} (
+							{shortcutManager.getShortcutDisplay('cancel')} to clear)
+						</Text>
+					)}
+					{!hasMatches && worktrees.length > 0 && (
+						<Text color="yellow">No worktrees match</Text>
+					)}
+				</Box>
+			)}
+
+			{/* SelectInput moves back to the top when its items change, so it
+			    is remounted instead to keep the highlighted item selected */}
+			<SelectInput
+				key={items.map(item => item.value).join('\n')}
+				items={items}
+				initialIndex={selectedIndex}
+				onSelect={handleSelect}
+				onHighlight={item => setSelectedValue(item.value)}
+				isFocused={!isSearching}
+			/>
 
 			<Box marginTop={1} flexDirection="column">
 				<Text dimColor>
@@ -216,8 +637,15 @@ const Menu: React.FC<MenuProps> = React.memo(function Menu({
 					{STATUS_ICONS.WAITING} {STATUS_LABELS.WAITING} {STATUS_ICONS.IDLE}{' '}
 					{STATUS_LABELS.IDLE}
 				</Text>
-				<Text dimColor>Commands: [C] Claude Code, [X] Codex</Text>
-				<Text dimColor>Controls: ↑↓ Navigate Enter Select</Text>
+				<Text dimColor>Commands: {commandLegend}</Text>
+				<Text dimColor>
+					Controls: ↑↓ Navigate Enter Select 1-9 Quick Select{' '}
+					{shortcutManager.getFooterHints('menu')}
+				</Text>
+				<Text dimColor>
+					Sorted by {MENU_SORT_LABELS[sortBy]}
+					{menuConfig.groupByPrefix ? ', grouped by branch prefix' : ''}
+				</Text>
 			</Box>
 		</Box>
 	);
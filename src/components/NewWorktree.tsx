@@ -1,56 +1,388 @@
-import React, {useState, useEffect} from 'react';
+import React, {useState, useEffect, useMemo} from 'react';
 import {Box, Text, useInput} from 'ink';
 import TextInput from 'ink-text-input';
+import SelectInput from 'ink-select-input';
+import {existsSync, readdirSync, statSync} from 'fs';
+import {resolve} from 'path';
 import {shortcutManager} from '../services/shortcutManager.js';
 import {configurationManager} from '../services/configurationManager.js';
-import {generateWorktreeDirectory} from '../utils/worktreeUtils.js';
+import {WorktreeService} from '../services/worktreeService.js';
+import {
+	generateWorktreeDirectory,
+	getTemplateVariables,
+	renderBranchTemplate,
+	validateBranchName,
+} from '../utils/worktreeUtils.js';
+import {findSetupFiles, SetupFileMatch} from '../utils/setupFiles.js';
+import {isPromptFileReference, loadPromptFile} from '../utils/initialPrompt.js';
+import {BaseRef} from '../types/index.js';
 
 interface NewWorktreeProps {
-	onComplete: (path: string, branch: string) => void;
+	onComplete: (
+		path: string,
+		branch: string,
+		baseRef?: string,
+		initialPrompt?: string,
+	) => void;
 	onCancel: () => void;
 }
 
-type Step = 'path' | 'branch';
+type Step = 'path' | 'template' | 'variables' | 'branch' | 'base' | 'prompt';
+
+interface BaseItem {
+	key: string;
+	label: string;
+	ref?: string; // Undefined starts from HEAD
+	fetch?: boolean;
+}
+
+// Setup files listed in the preview
+const MAX_PREVIEW_FILES = 8;
+// Base refs listed at once
+const MAX_VISIBLE_REFS = 10;
+// Pause in typing before git is asked about the typed branch or commit
+const GIT_LOOKUP_DELAY_MS = 300;
+
+const BASE_TYPE_LABELS: Record<BaseRef['type'], string> = {
+	branch: 'branch',
+	remote: 'remote',
+	tag: 'tag',
+};
+
+const COMMIT_PATTERN = /^[0-9a-f]{4,40}$/i;
+
+// git worktree add only accepts a missing or empty directory
+const isUsablePath = (targetPath: string) => {
+	try {
+		return (
+			!existsSync(targetPath) ||
+			(statSync(targetPath).isDirectory() &&
+				readdirSync(targetPath).length === 0)
+		);
+	} catch {
+		return false;
+	}
+};
 
 const NewWorktree: React.FC<NewWorktreeProps> = ({onComplete, onCancel}) => {
 	const worktreeConfig = configurationManager.getWorktreeConfig();
 	const isAutoDirectory = worktreeConfig.autoDirectory;
+	const templates = worktreeConfig.branchTemplates || [];
+	// With templates configured, the branch name starts from one of them
+	const branchStep: Step = templates.length > 0 ? 'template' : 'branch';
 
 	// Adjust initial step based on auto directory mode
-	const [step, setStep] = useState<Step>(isAutoDirectory ? 'branch' : 'path');
+	const [step, setStep] = useState<Step>(isAutoDirectory ? branchStep : 'path');
 	const [path, setPath] = useState('');
 	const [branch, setBranch] = useState('');
 	const [generatedPath, setGeneratedPath] = useState('');
+	const [template, setTemplate] = useState('');
+	const [variableValues, setVariableValues] = useState<Record<string, string>>(
+		{},
+	);
+	const [variableIndex, setVariableIndex] = useState(0);
+	const [variableInput, setVariableInput] = useState('');
+	// Last branch name found to exist, looked up after typing pauses
+	const [existingBranch, setExistingBranch] = useState<string>();
+	const [worktreeService] = useState(() => new WorktreeService());
+	const [worktrees] = useState(() => worktreeService.getWorktrees());
+	const [setupFiles] = useState<SetupFileMatch[]>(() => {
+		const rules = worktreeConfig.setupFiles || [];
+		if (rules.length === 0) {
+			return [];
+		}
+		const rootPath =
+			worktreeService.getWorktrees().find(wt => wt.isMainWorktree)?.path ||
+			process.cwd();
+		return findSetupFiles(rootPath, rules);
+	});
+	const [baseRefs, setBaseRefs] = useState<BaseRef[]>([]);
+	const [baseFilter, setBaseFilter] = useState('');
+	// Commit the base filter was resolved to, once typing paused
+	const [resolvedCommit, setResolvedCommit] = useState<{
+		filter: string;
+		sha: string | null;
+	}>();
+	const [highlighted, setHighlighted] = useState(0);
+	const [isFetching, setIsFetching] = useState(false);
+	const [fetchError, setFetchError] = useState<string | null>(null);
+	const [baseRef, setBaseRef] = useState<string | undefined>(undefined);
+	const [promptLines, setPromptLines] = useState<string[]>([]);
+	const [promptInput, setPromptInput] = useState('');
+	const [promptError, setPromptError] = useState<string | null>(null);
+
+	const baseItems = useMemo((): BaseItem[] => {
+		if (step !== 'base') {
+			return [];
+		}
+
+		const filter = baseFilter.trim().toLowerCase();
+		const items: BaseItem[] = [];
+		if (!filter) {
+			items.push({key: 'HEAD', label: 'HEAD (current commit)'});
+		}
+
+		const sha = resolvedCommit?.filter === filter && resolvedCommit.sha;
+		if (sha) {
+			items.push({key: sha, label: `Commit ${sha.slice(0, 12)}`, ref: sha});
+		}
+
+		// Remote branches of the same name come first, so a branch created
+		// from one tracks it
+		const matches = baseRefs.filter(ref =>
+			ref.name.toLowerCase().includes(filter),
+		);
+		const isRemoteOfBranch = (ref: BaseRef) =>
+			ref.type === 'remote' && ref.name.endsWith(`/${branch}`);
+		for (const ref of [
+			...matches.filter(isRemoteOfBranch),
+			...matches.filter(ref => !isRemoteOfBranch(ref)),
+		]) {
+			items.push({
+				key: ref.ref,
+				label: `${ref.name} (${BASE_TYPE_LABELS[ref.type]})`,
+				ref: ref.ref,
+			});
+		}
+
+		items.push({
+			key: 'fetch',
+			label: isFetching ? '⟳ Fetching...' : '⟳ Fetch from remotes',
+			fetch: true,
+		});
+		return items;
+	}, [step, baseFilter, baseRefs, branch, isFetching, resolvedCommit]);
+
+	// Like the branch lookup, only resolve a typed commit once typing pauses
+	useEffect(() => {
+		const filter = baseFilter.trim().toLowerCase();
+		if (step !== 'base' || !COMMIT_PATTERN.test(filter)) {
+			return;
+		}
+
+		const timer = setTimeout(() => {
+			setResolvedCommit({filter, sha: worktreeService.resolveCommit(filter)});
+		}, GIT_LOOKUP_DELAY_MS);
+		return () => clearTimeout(timer);
+	}, [step, baseFilter, worktreeService]);
+
+	useEffect(() => {
+		setHighlighted(0);
+	}, [baseFilter]);
 
 	useInput((input, key) => {
 		if (shortcutManager.matchesShortcut('cancel', input, key)) {
 			onCancel();
+			return;
+		}
+
+		if (step === 'base') {
+			if (key.upArrow) {
+				setHighlighted(prev => Math.max(0, prev - 1));
+			} else if (key.downArrow) {
+				setHighlighted(prev => Math.min(baseItems.length - 1, prev + 1));
+			}
 		}
 	});
 
+	const getTargetPath = (branchName: string) =>
+		isAutoDirectory
+			? generateWorktreeDirectory(
+					branchName,
+					worktreeConfig.autoDirectoryPattern,
+				)
+			: path;
+
+	const fetchRemotes = async () => {
+		setIsFetching(true);
+		setFetchError(null);
+		const result = await worktreeService.fetchRemotes();
+		setIsFetching(false);
+		if (result.success) {
+			setBaseRefs(worktreeService.getBaseRefs());
+		} else {
+			setFetchError(result.error || 'Failed to fetch remotes');
+		}
+	};
+
+	// Scroll the list so the highlighted ref stays visible
+	const firstVisibleRef = Math.max(0, highlighted - MAX_VISIBLE_REFS + 1);
+
+	const handleBaseSubmit = () => {
+		const item = baseItems[highlighted];
+		if (!item || isFetching) {
+			return;
+		}
+		if (item.fetch) {
+			fetchRemotes();
+			return;
+		}
+		setBaseRef(item.ref);
+		setStep('prompt');
+	};
+
+	const getPathError = (targetPath: string): string | undefined => {
+		const resolvedPath = resolve(targetPath);
+		const worktree = worktrees.find(wt => resolve(wt.path) === resolvedPath);
+		if (worktree) {
+			return `A worktree already exists at ${worktree.path}`;
+		}
+		if (!isUsablePath(resolvedPath)) {
+			return `${targetPath} already exists and is not empty`;
+		}
+		return undefined;
+	};
+
+	const pathError = path.trim() ? getPathError(path.trim()) : undefined;
+
+	const getBranchValidation = (
+		branchName: string,
+	): {error?: string; note?: string} => {
+		const formatError = validateBranchName(branchName);
+		if (formatError) {
+			return {error: formatError};
+		}
+
+		const checkedOut = worktrees.find(
+			wt => wt.branch?.replace('refs/heads/', '') === branchName,
+		);
+		if (checkedOut) {
+			return {error: `Branch is already checked out at ${checkedOut.path}`};
+		}
+
+		if (isAutoDirectory) {
+			const pathError = getPathError(
+				generateWorktreeDirectory(
+					branchName,
+					worktreeConfig.autoDirectoryPattern,
+				),
+			);
+			if (pathError) {
+				return {error: pathError};
+			}
+		}
+
+		return existingBranch === branchName
+			? {note: 'The existing branch will be checked out'}
+			: {};
+	};
+
+	// Checked on every keystroke so problems show before anything is created
+	const branchValidation =
+		step === 'branch' && branch.trim()
+			? getBranchValidation(branch.trim())
+			: {};
+
+	// Running git blocks input, so only look the branch up once typing pauses
+	useEffect(() => {
+		const branchName = branch.trim();
+		if (step !== 'branch' || !branchName) {
+			return;
+		}
+
+		const timer = setTimeout(() => {
+			setExistingBranch(
+				worktreeService.branchExists(branchName) ? branchName : undefined,
+			);
+		}, GIT_LOOKUP_DELAY_MS);
+		return () => clearTimeout(timer);
+	}, [step, branch, worktreeService]);
+
 	const handlePathSubmit = (value: string) => {
-		if (value.trim()) {
+		if (value.trim() && !getPathError(value.trim())) {
 			setPath(value.trim());
+			setStep(branchStep);
+		}
+	};
+
+	const handleTemplateSelect = (item: {label: string; value: string}) => {
+		if (!item.value) {
+			setStep('branch');
+			return;
+		}
+
+		setTemplate(item.value);
+		if (getTemplateVariables(item.value).length === 0) {
+			setBranch(renderBranchTemplate(item.value, {}));
+			setStep('branch');
+		} else {
+			setVariableValues({});
+			setVariableIndex(0);
+			setVariableInput('');
+			setStep('variables');
+		}
+	};
+
+	const templateVariables = getTemplateVariables(template);
+	const currentVariable = templateVariables[variableIndex] || '';
+
+	const handleVariableSubmit = (value: string) => {
+		if (!value.trim()) {
+			return;
+		}
+
+		const values = {...variableValues, [currentVariable]: value};
+		if (variableIndex + 1 < templateVariables.length) {
+			setVariableValues(values);
+			setVariableIndex(variableIndex + 1);
+			setVariableInput('');
+		} else {
+			// The rendered name can still be edited in the branch step
+			setBranch(renderBranchTemplate(template, values));
 			setStep('branch');
 		}
 	};
 
 	const handleBranchSubmit = (value: string) => {
-		if (value.trim()) {
-			setBranch(value.trim());
-			if (isAutoDirectory) {
-				// Generate path from branch name
-				const autoPath = generateWorktreeDirectory(
-					value.trim(),
-					worktreeConfig.autoDirectoryPattern,
-				);
-				onComplete(autoPath, value.trim());
+		const branchName = value.trim();
+		if (branchName && !branchValidation.error) {
+			setBranch(branchName);
+			if (worktreeService.branchExists(branchName)) {
+				// Existing branches are checked out as they are
+				setStep('prompt');
 			} else {
-				onComplete(path, value.trim());
+				setBaseRefs(worktreeService.getBaseRefs());
+				setBaseFilter('');
+				setStep('base');
 			}
 		}
 	};
 
+	const handlePromptSubmit = (value: string) => {
+		const complete = (initialPrompt?: string) =>
+			onComplete(getTargetPath(branch), branch, baseRef, initialPrompt);
+
+		if (!value.trim()) {
+			// An empty line finishes the prompt, or skips it if nothing was typed
+			complete(promptLines.length > 0 ? promptLines.join('\n') : undefined);
+			return;
+		}
+
+		if (promptLines.length === 0 && isPromptFileReference(value)) {
+			const result = loadPromptFile(value.trim());
+			if (result.success) {
+				complete(result.prompt);
+			} else {
+				setPromptError(result.error || 'Failed to read the prompt file');
+			}
+			return;
+		}
+
+		setPromptLines([...promptLines, value]);
+		setPromptInput('');
+		setPromptError(null);
+	};
+
+	const branchFeedback = branchValidation.error ? (
+		<Box marginTop={1}>
+			<Text color="red">✗ {branchValidation.error}</Text>
+		</Box>
+	) : branchValidation.note ? (
+		<Box marginTop={1}>
+			<Text dimColor>{branchValidation.note}</Text>
+		</Box>
+	) : null;
+
 	// Update generated path preview when branch changes in auto mode
 	useEffect(() => {
 		if (isAutoDirectory && branch) {
@@ -70,7 +402,141 @@ const NewWorktree: React.FC<NewWorktreeProps> = ({onComplete, onCancel}) => {
 				</Text>
 			</Box>
 
-			{step === 'path' && !isAutoDirectory ? (
+			{step === 'template' ? (
+				<Box flexDirection="column">
+					<Box marginBottom={1}>
+						<Text>Choose a branch name template:</Text>
+					</Box>
+					<SelectInput
+						items={[
+							...templates.map(item => ({label: item, value: item})),
+							{label: '✎ Enter a branch name', value: ''},
+						]}
+						onSelect={handleTemplateSelect}
+						isFocused={true}
+					/>
+				</Box>
+			) : step === 'variables' ? (
+				<Box flexDirection="column">
+					<Box marginBottom={1}>
+						<Text>
+							Template <Text color="cyan">{template}</Text> ({variableIndex + 1}
+							/{templateVariables.length})
+						</Text>
+					</Box>
+					<Box>
+						<Text color="cyan">{`${currentVariable}: `}</Text>
+						<TextInput
+							value={variableInput}
+							onChange={setVariableInput}
+							onSubmit={handleVariableSubmit}
+						/>
+					</Box>
+					<Box marginTop={1}>
+						<Text dimColor>
+							Branch name:{' '}
+							<Text color="green">
+								{renderBranchTemplate(template, {
+									...variableValues,
+									...(variableInput.trim()
+										? {[currentVariable]: variableInput}
+										: {}),
+								})}
+							</Text>
+						</Text>
+					</Box>
+				</Box>
+			) : step === 'prompt' ? (
+				<Box flexDirection="column">
+					<Box marginBottom={1}>
+						<Text>
+							Task for the agent in <Text color="cyan">{branch}</Text>{' '}
+							(optional, sent once it is ready):
+						</Text>
+					</Box>
+					{promptLines.map((line, index) => (
+						<Text key={index} dimColor>
+							{'  '}
+							{line}
+						</Text>
+					))}
+					<Box>
+						<Text color="cyan">{'> '}</Text>
+						<TextInput
+							value={promptInput}
+							onChange={setPromptInput}
+							onSubmit={handlePromptSubmit}
+							placeholder={
+								promptLines.length === 0
+									? 'Describe the task, or @path/to/task.md'
+									: ''
+							}
+						/>
+					</Box>
+					{promptError && (
+						<Box marginTop={1}>
+							<Text color="red">✗ {promptError}</Text>
+						</Box>
+					)}
+					<Box marginTop={1}>
+						<Text dimColor>
+							{promptLines.length === 0
+								? 'Enter on an empty line creates the worktree without a task'
+								: 'Enter adds a line, Enter on an empty line creates the worktree'}
+						</Text>
+					</Box>
+				</Box>
+			) : step === 'base' ? (
+				<Box flexDirection="column">
+					<Box marginBottom={1}>
+						<Text>
+							Start new branch <Text color="cyan">{branch}</Text> from:
+						</Text>
+					</Box>
+					<Box marginBottom={1}>
+						<Text color="cyan">{'Filter: '}</Text>
+						<TextInput
+							value={baseFilter}
+							onChange={setBaseFilter}
+							onSubmit={handleBaseSubmit}
+							placeholder="branch, tag or commit SHA"
+						/>
+					</Box>
+					{baseItems
+						.slice(firstVisibleRef, firstVisibleRef + MAX_VISIBLE_REFS)
+						.map(item => {
+							const isHighlighted = item === baseItems[highlighted];
+							return (
+								<Text
+									key={item.key}
+									color={isHighlighted ? 'blue' : undefined}
+									dimColor={item.fetch && !isHighlighted}
+								>
+									{isHighlighted ? '❯ ' : '  '}
+									{item.label}
+								</Text>
+							);
+						})}
+					{baseItems[highlighted]?.ref?.startsWith('refs/remotes/') && (
+						<Box marginTop={1}>
+							<Text dimColor>
+								{branch} will track{' '}
+								{baseItems[highlighted]!.ref!.slice('refs/remotes/'.length)}
+							</Text>
+						</Box>
+					)}
+					{fetchError && (
+						<Box marginTop={1}>
+							<Text color="red">Fetch failed: {fetchError}</Text>
+						</Box>
+					)}
+					<Box marginTop={1}>
+						<Text dimColor>
+							Type to filter, ↑↓ to choose, Enter to create the worktree
+						</Text>
+					</Box>
+				</Box>
+			) : step === 'path' && !isAutoDirectory ? (
 				<Box flexDirection="column">
 					<Box marginBottom={1}>
 						<Text>Enter worktree path (relative to repository root):</Text>
@@ -84,6 +550,11 @@ const NewWorktree: React.FC<NewWorktreeProps> = ({onComplete, onCancel}) => {
 							placeholder="e.g., ../myproject-feature"
 						/>
 					</Box>
+					{pathError && (
+						<Box marginTop={1}>
+							<Text color="red">✗ {pathError}</Text>
+						</Box>
+					)}
 				</Box>
 			) : step === 'branch' && !isAutoDirectory ? (
 				<Box flexDirection="column">
@@ -102,6 +573,7 @@ const NewWorktree: React.FC<NewWorktreeProps> = ({onComplete, onCancel}) => {
 							placeholder="e.g., feature/new-feature"
 						/>
 					</Box>
+					{branchFeedback}
 				</Box>
 			) : (
 				<Box flexDirection="column">
@@ -117,6 +589,7 @@ const NewWorktree: React.FC<NewWorktreeProps> = ({onComplete, onCancel}) => {
 							placeholder="e.g., feature/new-feature"
 						/>
 					</Box>
+					{branchFeedback}
 					{generatedPath && (
 						<Box marginTop={1}>
 							<Text dimColor>
@@ -128,6 +601,28 @@ const NewWorktree: React.FC<NewWorktreeProps> = ({onComplete, onCancel}) => {
 				</Box>
 			)}
 
+			{(worktreeConfig.setupFiles || []).length > 0 && (
+				<Box marginTop={1} flexDirection="column">
+					<Text dimColor>
+						{setupFiles.length === 0
+							? 'No files in the main worktree match the setup file patterns'
+							: 'Setup files brought over from the main worktree:'}
+					</Text>
+					{setupFiles.slice(0, MAX_PREVIEW_FILES).map(file => (
+						<Text key={file.path} dimColor>
+							{'  '}
+							{file.mode === 'symlink' ? '↪' : '+'} {file.path}
+							{file.isDirectory ? '/' : ''} ({file.mode})
+						</Text>
+					))}
+					{setupFiles.length > MAX_PREVIEW_FILES && (
+						<Text dimColor>
+							{'  '}... and {setupFiles.length - MAX_PREVIEW_FILES} more
+						</Text>
+					)}
+				</Box>
+			)}
+
 			<Box marginTop={1}>
 				<Text dimColor>
 					Press {shortcutManager.getShortcutDisplay('cancel')} to cancel
@@ -8,12 +8,14 @@ interface SessionProps {
 	session: SessionType;
 	sessionManager: SessionManager;
 	onReturnToMenu: () => void;
+	onNextWaitingSession: () => void;
 }
 
 const Session: React.FC<SessionProps> = ({
 	session,
 	sessionManager,
 	onReturnToMenu,
+	onNextWaitingSession,
 }) => {
 	const {stdout} = useStdout();
 	const [isExiting, setIsExiting] = useState(false);
@@ -112,12 +114,11 @@ const Session: React.FC<SessionProps> = ({
 		const handleStdinData = (data: string) => {
 			if (isExiting) return;
 
-			// Check for return to menu shortcut
-			const returnToMenuShortcut = shortcutManager.getShortcuts().returnToMenu;
-			const shortcutCode =
-				shortcutManager.getShortcutCode(returnToMenuShortcut);
+			// Check for shortcuts; a chord's leader is held back until its
+			// second key arrives
+			const {action, passthrough} = shortcutManager.matchSessionInput(data);
 
-			if (shortcutCode && data === shortcutCode) {
+			if (action === 'returnToMenu') {
 				// Disable focus reporting mode before returning to menu
 				if (stdout) {
 					stdout.write('\x1b[?1004l');
@@ -130,8 +131,16 @@ const Session: React.FC<SessionProps> = ({
 				return;
 			}
 
+			// Switching sessions remounts this component, which restores stdin
+			if (action === 'nextWaiting') {
+				onNextWaitingSession();
+				return;
+			}
+
 			// Pass all other input directly to the PTY
-			session.process?.write(data);
+			if (passthrough) {
+				session.process?.write(passthrough);
+			}
 		};
 
 		stdin.on('data', handleStdinData);
@@ -164,7 +173,14 @@ const Session: React.FC<SessionProps> = ({
 			sessionManager.off('sessionExit', handleSessionExit);
 			stdout.off('resize', handleResize);
 		};
-	}, [session, sessionManager, stdout, onReturnToMenu, isExiting]);
+	}, [
+		session,
+		sessionManager,
+		stdout,
+		onReturnToMenu,
+		onNextWaitingSession,
+		isExiting,
+	]);
 
 	// Return null to render nothing (PTY output goes directly to stdout)
 	return null;
@@ -0,0 +1,32 @@
+import {CommandType, DetectionProfile} from '../types/index.js';
+
+export const CLAUDE_DETECTION_PROFILE: DetectionProfile = {
+	waiting: [{pattern: '│ Do you want'}, {pattern: '│ Would you like'}],
+	busy: [{pattern: 'esc to interrupt'}],
+	// The input box is drawn once Claude Code has finished starting
+	ready: [{promptBox: 'line', minQuietMs: 300}],
+};
+
+export const CODEX_DETECTION_PROFILE: DetectionProfile = {
+	waiting: [
+		{pattern: 'Allow command\\?'},
+		{pattern: 'Would you like to (run|make|apply) the following'},
+		{pattern: '▌?\\s*Yes \\(y\\)'},
+	],
+	busy: [
+		{pattern: 'esc to interrupt', lines: 5},
+		// Codex redraws its spinner continuously while working
+		{pattern: '(Working|Thinking)', lines: 5, maxQuietMs: 1000},
+	],
+};
+
+// Used for agents without a built-in or configured profile: any tool that is
+// still printing is considered busy
+export const GENERIC_DETECTION_PROFILE: DetectionProfile = {
+	busy: [{maxQuietMs: 1500}],
+};
+
+export const DETECTION_PROFILES: Record<CommandType, DetectionProfile> = {
+	claude: CLAUDE_DETECTION_PROFILE,
+	codex: CODEX_DETECTION_PROFILE,
+};
@@ -0,0 +1,116 @@
+import {ShortcutAction, ShortcutContext} from '../types/index.js';
+
+export interface ShortcutActionInfo {
+	action: ShortcutAction;
+	label: string; // Shown in the shortcut configuration
+	hint?: string; // Short label for the controls footer, if listed there
+	contexts: ShortcutContext[];
+}
+
+// Every bindable action, in the order they are listed and shown in footers
+export const SHORTCUT_ACTIONS: ShortcutActionInfo[] = [
+	{
+		action: 'returnToMenu',
+		label: 'Return to Menu',
+		hint: 'Menu',
+		contexts: ['session'],
+	},
+	{
+		action: 'nextWaiting',
+		label: 'Next Waiting Session',
+		hint: 'Next Waiting',
+		contexts: ['menu', 'session'],
+	},
+	{
+		action: 'newWorktree',
+		label: 'New Worktree',
+		hint: 'New',
+		contexts: ['menu'],
+	},
+	{
+		action: 'deleteWorktree',
+		label: 'Delete Worktree',
+		hint: 'Delete',
+		contexts: ['menu'],
+	},
+	{
+		action: 'mergeWorktree',
+		label: 'Merge Worktree',
+		hint: 'Merge',
+		contexts: ['menu'],
+	},
+	{
+		action: 'refresh',
+		label: 'Refresh Worktrees',
+		hint: 'Refresh',
+		contexts: ['menu'],
+	},
+	{
+		action: 'killSession',
+		label: 'Kill Session',
+		hint: 'Kill',
+		contexts: ['menu'],
+	},
+	{
+		action: 'restartSession',
+		label: 'Restart Session',
+		hint: 'Restart',
+		contexts: ['menu'],
+	},
+	{
+		action: 'openShell',
+		label: 'Open Shell in Worktree',
+		hint: 'Shell',
+		contexts: ['menu'],
+	},
+	{
+		action: 'search',
+		label: 'Search Worktrees',
+		hint: 'Search',
+		contexts: ['menu'],
+	},
+	{
+		action: 'filterState',
+		label: 'Filter by State',
+		hint: 'State',
+		contexts: ['menu'],
+	},
+	{
+		action: 'filterCommand',
+		label: 'Filter by Command',
+		hint: 'Command',
+		contexts: ['menu'],
+	},
+	{
+		action: 'sort',
+		label: 'Change Sort Order',
+		hint: 'Sort',
+		contexts: ['menu'],
+	},
+	{
+		action: 'group',
+		label: 'Group by Branch Prefix',
+		hint: 'Group',
+		contexts: ['menu'],
+	},
+	{
+		action: 'cancel',
+		label: 'Cancel / Go Back',
+		contexts: ['menu', 'dialog'],
+	},
+];
+
+// Keys the menu list itself uses for navigation and quick select
+export const RESERVED_MENU_KEYS = [
+	'j',
+	'k',
+	'1',
+	'2',
+	'3',
+	'4',
+	'5',
+	'6',
+	'7',
+	'8',
+	'9',
+];
@@ -0,0 +1,186 @@
+import {describe, it, expect, beforeEach, afterEach, vi} from 'vitest';
+import {AgentRegistry} from './agentRegistry.js';
+import {configurationManager} from './configurationManager.js';
+import {
+	CLAUDE_DETECTION_PROFILE,
+	GENERIC_DETECTION_PROFILE,
+} from '../constants/detectionProfiles.js';
+
+vi.mock('./configurationManager.js', () => ({
+	configurationManager: {
+		getAgents: vi.fn(() => []),
+		getDefaultCommand: vi.fn(() => undefined),
+		getSessionSettings: vi.fn(() => ({})),
+	},
+}));
+
+describe('AgentRegistry', () => {
+	let registry: AgentRegistry;
+
+	beforeEach(() => {
+		registry = new AgentRegistry();
+		vi.mocked(configurationManager.getAgents).mockReturnValue([]);
+		vi.mocked(configurationManager.getDefaultCommand).mockReturnValue(
+			undefined,
+		);
+		vi.mocked(configurationManager.getSessionSettings).mockReturnValue({});
+	});
+
+	afterEach(() => {
+		delete process.env['CCMANAGER_CLAUDE_ARGS'];
+	});
+
+	it('should provide the built-in agents by default', () => {
+		expect(registry.getAgents().map(agent => agent.id)).toEqual([
+			'claude',
+			'codex',
+		]);
+		expect(registry.getPrefix('claude')).toBe('[C]');
+		expect(registry.getPrefix('codex')).toBe('[X]');
+	});
+
+	it('should append agents declared in config.json', () => {
+		vi.mocked(configurationManager.getAgents).mockReturnValue([
+			{id: 'aider', label: 'Aider', command: 'aider', icon: 'A'},
+		]);
+
+		expect(registry.getAgents().map(agent => agent.id)).toEqual([
+			'claude',
+			'codex',
+			'aider',
+		]);
+		expect(registry.getPrefix('aider')).toBe('[A]');
+		expect(registry.getLabel('aider')).toBe('Aider');
+	});
+
+	it('should let config.json override a built-in agent', () => {
+		vi.mocked(configurationManager.getAgents).mockReturnValue([
+			{id: 'claude', label: 'Wrapped Claude', command: '/opt/bin/claude-wrap'},
+		]);
+
+		const claude = registry.getAgent('claude');
+		expect(claude?.label).toBe('Wrapped Claude');
+		expect(claude?.command).toBe('/opt/bin/claude-wrap');
+		// Fields that are not overridden are kept
+		expect(claude?.icon).toBe('C');
+	});
+
+	it('should ignore agents without id or command', () => {
+		vi.mocked(configurationManager.getAgents).mockReturnValue([
+			{id: '', label: 'Broken', command: 'broken'},
+			{id: 'nocmd', label: 'No command', command: ''},
+		]);
+
+		expect(registry.getAgents()).toHaveLength(2);
+	});
+
+	it('should combine default args with args from the environment', () => {
+		vi.mocked(configurationManager.getAgents).mockReturnValue([
+			{
+				id: 'claude',
+				label: 'Claude Code',
+				command: 'claude',
+				args: ['--verbose'],
+			},
+		]);
+		process.env['CCMANAGER_CLAUDE_ARGS'] = '--resume';
+
+		expect(registry.getLaunchCommand('claude')).toEqual({
+			command: 'claude',
+			args: ['--verbose', '--resume'],
+			env: {},
+		});
+	});
+
+	it('should parse quoted args from the environment', () => {
+		process.env['CCMANAGER_CLAUDE_ARGS'] =
+			`--add-dir "/work/my repo" --append-system-prompt 'use $PATH'`;
+
+		expect(registry.getLaunchCommand('claude')).toEqual({
+			command: 'claude',
+			args: [
+				'--add-dir',
+				'/work/my repo',
+				'--append-system-prompt',
+				'use $PATH',
+			],
+			env: {},
+		});
+	});
+
+	it('should apply the overrides of the worktree after the agent settings', () => {
+		vi.mocked(configurationManager.getAgents).mockReturnValue([
+			{
+				id: 'claude',
+				label: 'Claude Code',
+				command: 'claude',
+				args: ['--verbose'],
+				env: {CLAUDE_LOG: 'info', SHARED: 'global'},
+			},
+		]);
+		vi.mocked(configurationManager.getSessionSettings).mockReturnValue({
+			agentOverrides: {
+				claude: {args: ['--model', 'opus'], env: {SHARED: 'project'}},
+			},
+		});
+		process.env['CCMANAGER_CLAUDE_ARGS'] = '--resume';
+
+		expect(registry.getLaunchCommand('claude', '/repo/feature')).toEqual({
+			command: 'claude',
+			args: ['--verbose', '--resume', '--model', 'opus'],
+			env: {CLAUDE_LOG: 'info', SHARED: 'project'},
+		});
+		expect(configurationManager.getSessionSettings).toHaveBeenCalledWith(
+			'/repo/feature',
+		);
+	});
+
+	it('should resolve the default command of a worktree', () => {
+		vi.mocked(configurationManager.getDefaultCommand).mockReturnValue('claude');
+		vi.mocked(configurationManager.getSessionSettings).mockReturnValue({
+			defaultCommand: 'codex',
+		});
+
+		expect(registry.getDefaultCommand('/repo/feature')).toBe('codex');
+		expect(configurationManager.getSessionSettings).toHaveBeenCalledWith(
+			'/repo/feature',
+		);
+		expect(registry.getDefaultCommand()).toBe('claude');
+	});
+
+	it('should fall back to the id for unknown agents', () => {
+		expect(registry.getLaunchCommand('unknown')).toEqual({
+			command: 'unknown',
+			args: [],
+			env: {},
+		});
+		expect(registry.getPrefix('unknown')).toBe('[U]');
+	});
+
+	it('should find agents by binary name or path', () => {
+		vi.mocked(configurationManager.getAgents).mockReturnValue([
+			{id: 'gemini', label: 'Gemini CLI', command: '/usr/local/bin/gemini'},
+		]);
+
+		expect(registry.findAgentByCommand('codex')?.id).toBe('codex');
+		expect(registry.findAgentByCommand('gemini --yolo')?.id).toBe('gemini');
+		expect(registry.findAgentByCommand('/usr/bin/claude')?.id).toBe('claude');
+		expect(registry.findAgentByCommand('npm run dev')).toBeUndefined();
+	});
+
+	it('should resolve detection profiles from config, built-ins or the generic profile', () => {
+		const custom = {busy: [{pattern: 'thinking'}]};
+		vi.mocked(configurationManager.getAgents).mockReturnValue([
+			{id: 'aider', label: 'Aider', command: 'aider', detection: custom},
+			{id: 'gemini', label: 'Gemini CLI', command: 'gemini'},
+		]);
+
+		expect(registry.getDetectionProfile('claude')).toBe(
+			CLAUDE_DETECTION_PROFILE,
+		);
+		expect(registry.getDetectionProfile('aider')).toBe(custom);
+		expect(registry.getDetectionProfile('gemini')).toBe(
+			GENERIC_DETECTION_PROFILE,
+		);
+	});
+});
@@ -0,0 +1,120 @@
+import {basename} from 'path';
+import {
+	AgentConfig,
+	CommandType,
+	DEFAULT_AGENTS,
+	DetectionProfile,
+} from '../types/index.js';
+import {
+	DETECTION_PROFILES,
+	GENERIC_DETECTION_PROFILE,
+} from '../constants/detectionProfiles.js';
+import {configurationManager} from './configurationManager.js';
+import {parseShellArgs} from '../utils/shellArgs.js';
+
+export class AgentRegistry {
+	/**
+	 * Get all registered agents. Agents from config.json override the
+	 * built-in agents with the same id; new ids are appended in order.
+	 */
+	getAgents(): AgentConfig[] {
+		const agents = DEFAULT_AGENTS.map(agent => ({...agent}));
+
+		for (const configured of configurationManager.getAgents()) {
+			if (!configured || !configured.id || !configured.command) {
+				continue;
+			}
+
+			const index = agents.findIndex(agent => agent.id === configured.id);
+			if (index >= 0) {
+				agents[index] = {...agents[index]!, ...configured};
+			} else {
+				agents.push({...configured, label: configured.label || configured.id});
+			}
+		}
+
+		return agents;
+	}
+
+	getAgent(id: CommandType): AgentConfig | undefined {
+		return this.getAgents().find(agent => agent.id === id);
+	}
+
+	/**
+	 * Find the agent launched by the given binary (name or path)
+	 */
+	findAgentByCommand(command: string): AgentConfig | undefined {
+		const binary = basename(command.trim().split(/\s+/)[0] || '');
+		return this.getAgents().find(
+			agent => agent.command === command || basename(agent.command) === binary,
+		);
+	}
+
+	/**
+	 * Resolve the binary, arguments and extra environment used to launch an
+	 * agent. Arguments from the agent's environment variable are parsed with
+	 * shell quoting. When a worktree is given, the `agentOverrides` of the
+	 * configuration and of its branch are applied last.
+	 */
+	getLaunchCommand(
+		id: CommandType,
+		worktreePath?: string,
+	): {command: string; args: string[]; env: Record<string, string>} {
+		const agent = this.getAgent(id);
+		const override = worktreePath
+			? configurationManager.getSessionSettings(worktreePath).agentOverrides?.[
+					id
+				]
+			: undefined;
+
+		const args = [...(agent?.args || [])];
+		const envArgs = agent?.argsEnv ? process.env[agent.argsEnv] : undefined;
+		if (envArgs) {
+			args.push(...parseShellArgs(envArgs));
+		}
+		args.push(...(override?.args || []));
+
+		return {
+			command: agent?.command || id,
+			args,
+			env: {...agent?.env, ...override?.env},
+		};
+	}
+
+	/**
+	 * Get the agent preselected for new sessions in a worktree, taking the
+	 * settings of its branch into account
+	 */
+	getDefaultCommand(worktreePath?: string): CommandType | undefined {
+		return worktreePath
+			? configurationManager.getSessionSettings(worktreePath).defaultCommand
+			: configurationManager.getDefaultCommand();
+	}
+
+	/**
+	 * Get the menu prefix for an agent, e.g. "[C]"
+	 */
+	getPrefix(id: CommandType): string {
+		const agent = this.getAgent(id);
+		const icon = agent?.icon || id.charAt(0).toUpperCase();
+		return `[${icon}]`;
+	}
+
+	getLabel(id: CommandType): string {
+		return this.getAgent(id)?.label || id;
+	}
+
+	/**
+	 * Get the state-detection profile for an agent: the one declared in
+	 * config.json, else the built-in profile, else the generic one
+	 */
+	getDetectionProfile(id: CommandType): DetectionProfile {
+		return (
+			this.getAgent(id)?.detection ||
+			DETECTION_PROFILES[id] ||
+			GENERIC_DETECTION_PROFILE
+		);
+	}
+}
+
+export const agentRegistry = new AgentRegistry();
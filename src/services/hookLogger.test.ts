@@ -0,0 +1,94 @@
+import {describe, it, expect, beforeEach, afterEach, vi} from 'vitest';
+import {existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync} from 'fs';
+import {tmpdir} from 'os';
+import {join} from 'path';
+import {HookLogger, tailOutput} from './hookLogger.js';
+import {HookLogEntry} from '../types/index.js';
+
+vi.mock('./configurationManager.js', () => ({
+	configurationManager: {
+		getLayerPath: vi.fn(() => join(tmpdir(), 'ccmanager', 'config.json')),
+	},
+}));
+
+describe('HookLogger', () => {
+	let logDir: string;
+
+	const entry = (overrides: Partial<HookLogEntry> = {}): HookLogEntry => ({
+		timestamp: '2024-01-01T00:00:00.000Z',
+		worktreePath: '/repo/feature',
+		branch: 'feature',
+		event: 'busy → idle',
+		type: 'command',
+		target: 'notify idle',
+		success: true,
+		exitCode: 0,
+		durationMs: 12,
+		...overrides,
+	});
+
+	beforeEach(() => {
+		logDir = mkdtempSync(join(tmpdir(), 'ccmanager-hooks-'));
+	});
+
+	afterEach(() => {
+		rmSync(logDir, {recursive: true, force: true});
+	});
+
+	it('should keep entries across restarts', () => {
+		const logger = new HookLogger(logDir);
+		const listener = vi.fn();
+		logger.on('entryAdded', listener);
+
+		logger.record(entry());
+		logger.record(entry({success: false, exitCode: 1, stderr: 'boom'}));
+
+		expect(listener).toHaveBeenCalledTimes(2);
+		expect(new HookLogger(logDir).getEntries()).toEqual([
+			entry(),
+			entry({success: false, exitCode: 1, stderr: 'boom'}),
+		]);
+	});
+
+	it('should find the most recent entry of a worktree', () => {
+		const logger = new HookLogger(logDir);
+		logger.record(entry({success: false}));
+		logger.record(entry({worktreePath: '/repo/other'}));
+
+		expect(logger.getLastEntry('/repo/feature')?.success).toBe(false);
+		expect(logger.getLastEntry('/repo/other')?.success).toBe(true);
+		expect(logger.getLastEntry('/repo/none')).toBeUndefined();
+	});
+
+	it('should rotate a log that grew too large', () => {
+		const logPath = join(logDir, 'hooks.log');
+		writeFileSync(logPath, 'x'.repeat(1024 * 1024 + 1));
+
+		new HookLogger(logDir).record(entry());
+
+		expect(existsSync(`${logPath}.1`)).toBe(true);
+		expect(readFileSync(logPath, 'utf-8')).toBe(`${JSON.stringify(entry())}\n`);
+	});
+
+	it('should skip unreadable lines', () => {
+		writeFileSync(
+			join(logDir, 'hooks.log'),
+			`${JSON.stringify(entry())}\n{"timestamp": "2024-`,
+		);
+
+		expect(new HookLogger(logDir).getEntries()).toEqual([entry()]);
+	});
+});
+
+describe('tailOutput', () => {
+	it('should keep the last lines of the output', () => {
+		const output = Array.from({length: 30}, (_, i) => `line ${i + 1}`).join(
+			'\n',
+		);
+
+		const tail = tailOutput(`${output}\n`).split('\n');
+		expect(tail).toHaveLength(20);
+		expect(tail[0]).toBe('line 11');
+		expect(tail[19]).toBe('line 30');
+	});
+});
@@ -0,0 +1,124 @@
+import {EventEmitter} from 'events';
+import {dirname, join} from 'path';
+import {
+	appendFileSync,
+	existsSync,
+	mkdirSync,
+	readFileSync,
+	renameSync,
+	statSync,
+} from 'fs';
+import {HookLogEntry} from '../types/index.js';
+import {configurationManager} from './configurationManager.js';
+
+// The log is rotated to hooks.log.1 once it grows past this size
+const MAX_LOG_SIZE = 1024 * 1024;
+// Entries kept in memory for the history view and the menu
+const MAX_ENTRIES = 200;
+// Output kept per entry
+const MAX_OUTPUT_LINES = 20;
+const MAX_OUTPUT_LENGTH = 2000;
+
+/**
+ * Keep the end of a command's output, which usually holds the error
+ */
+export function tailOutput(output: string): string {
+	const lines = output.trimEnd().split('\n').slice(-MAX_OUTPUT_LINES);
+	return lines.join('\n').slice(-MAX_OUTPUT_LENGTH);
+}
+
+export class HookLogger extends EventEmitter {
+	private logPath: string;
+	private entries: HookLogEntry[] | null = null;
+
+	/**
+	 * @param logDir Directory of hooks.log, defaults to the directory of the
+	 * global configuration
+	 */
+	constructor(logDir?: string) {
+		super();
+		this.logPath = join(
+			logDir || dirname(configurationManager.getLayerPath('global')),
+			'hooks.log',
+		);
+	}
+
+	getLogPath(): string {
+		return this.logPath;
+	}
+
+	/**
+	 * Record a hook invocation in memory and in the rotating log file
+	 */
+	record(entry: HookLogEntry): void {
+		const entries = this.getEntries();
+		entries.push(entry);
+		if (entries.length > MAX_ENTRIES) {
+			entries.splice(0, entries.length - MAX_ENTRIES);
+		}
+
+		try {
+			mkdirSync(dirname(this.logPath), {recursive: true});
+			if (
+				existsSync(this.logPath) &&
+				statSync(this.logPath).size > MAX_LOG_SIZE
+			) {
+				renameSync(this.logPath, `${this.logPath}.1`);
+			}
+			appendFileSync(this.logPath, `${JSON.stringify(entry)}\n`);
+		} catch {
+			// The entry is still shown in the history view
+		}
+
+		this.emit('entryAdded', entry);
+	}
+
+	/**
+	 * Get the recorded entries, oldest first. Entries of previous runs are
+	 * read from the log file.
+	 */
+	getEntries(): HookLogEntry[] {
+		if (!this.entries) {
+			this.entries = this.readLog();
+		}
+		return this.entries;
+	}
+
+	/**
+	 * Get the most recent entry of a worktree, e.g. to flag a failed hook
+	 */
+	getLastEntry(worktreePath: string): HookLogEntry | undefined {
+		const entries = this.getEntries();
+		for (let i = entries.length - 1; i >= 0; i--) {
+			if (entries[i]!.worktreePath === worktreePath) {
+				return entries[i];
+			}
+		}
+		return undefined;
+	}
+
+	private readLog(): HookLogEntry[] {
+		if (!existsSync(this.logPath)) {
+			return [];
+		}
+
+		try {
+			return readFileSync(this.logPath, 'utf-8')
+				.split('\n')
+				.slice(-MAX_ENTRIES - 1)
+				.flatMap(line => {
+					try {
+						return line.trim() ? [JSON.parse(line) as HookLogEntry] : [];
+					} catch {
+						// Skip lines cut off by a crash
+						return [];
+					}
+				})
+				.slice(-MAX_ENTRIES);
+		} catch {
+			return [];
+		}
+	}
+}
+
+export const hookLogger = new HookLogger();
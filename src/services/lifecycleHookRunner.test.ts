@@ -0,0 +1,147 @@
+import {describe, it, expect, beforeEach, vi} from 'vitest';
+import {LifecycleHookRunner} from './lifecycleHookRunner.js';
+import {configurationManager} from './configurationManager.js';
+import {hookLogger} from './hookLogger.js';
+import {runHookCommand} from '../utils/hookUtils.js';
+
+vi.mock('./configurationManager.js', () => ({
+	configurationManager: {
+		getLifecycleHooks: vi.fn(),
+	},
+}));
+
+vi.mock('./hookLogger.js', () => ({
+	hookLogger: {
+		record: vi.fn(),
+	},
+	tailOutput: (output: string) => output.trim(),
+}));
+
+vi.mock('./worktreeService.js', () => ({
+	WorktreeService: vi.fn(() => ({
+		getWorktrees: () => [
+			{path: '/repo', branch: 'main', isMainWorktree: true},
+			{path: '/repo-feature', branch: 'feature', isMainWorktree: false},
+		],
+	})),
+}));
+
+vi.mock('../utils/hookUtils.js', () => ({
+	DEFAULT_LIFECYCLE_HOOK_TIMEOUT_MS: 600000,
+	runHookCommand: vi.fn(),
+}));
+
+describe('LifecycleHookRunner', () => {
+	const runner = new LifecycleHookRunner();
+	const context = {
+		cwd: '/repo',
+		worktreePath: '/repo-feature',
+		branch: 'feature',
+	};
+
+	const result = (success: boolean, stderr = '') => ({
+		success,
+		exitCode: success ? 0 : 1,
+		timedOut: false,
+		stdout: '',
+		stderr,
+		durationMs: 5,
+	});
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+	});
+
+	it('should succeed without configured hooks', async () => {
+		vi.mocked(configurationManager.getLifecycleHooks).mockReturnValue({});
+
+		expect(await runner.run('preCreate', context)).toEqual({success: true});
+		expect(runHookCommand).not.toHaveBeenCalled();
+	});
+
+	it('should run enabled hooks in order with the operation environment', async () => {
+		vi.mocked(configurationManager.getLifecycleHooks).mockReturnValue({
+			postCreate: [
+				{command: 'npm install', enabled: true},
+				{command: 'skipped', enabled: false},
+				{command: 'cp ../repo/.env .env', enabled: true, timeoutMs: 1000},
+			],
+		});
+		vi.mocked(runHookCommand).mockResolvedValue(result(true));
+
+		const outcome = await runner.run('postCreate', {
+			...context,
+			cwd: '/repo-feature',
+		});
+
+		expect(outcome).toEqual({success: true});
+		expect(vi.mocked(runHookCommand).mock.calls).toEqual([
+			[
+				'npm install',
+				{
+					cwd: '/repo-feature',
+					env: {
+						CCMANAGER_HOOK_EVENT: 'post-create',
+						CCMANAGER_OPERATION: 'create',
+						CCMANAGER_WORKTREE: '/repo-feature',
+						CCMANAGER_WORKTREE_BRANCH: 'feature',
+						CCMANAGER_ROOT_PATH: '/repo',
+					},
+					timeoutMs: 600000,
+				},
+			],
+			[
+				'cp ../repo/.env .env',
+				expect.objectContaining({cwd: '/repo-feature', timeoutMs: 1000}),
+			],
+		]);
+		expect(hookLogger.record).toHaveBeenCalledTimes(2);
+	});
+
+	it('should stop pre hooks at the first failure', async () => {
+		vi.mocked(configurationManager.getLifecycleHooks).mockReturnValue({
+			preMerge: [
+				{command: 'npm test', enabled: true},
+				{command: 'npm run lint', enabled: true},
+			],
+		});
+		vi.mocked(runHookCommand).mockResolvedValue(result(false, 'tests failed'));
+
+		const outcome = await runner.run('preMerge', {
+			...context,
+			env: {CCMANAGER_TARGET_BRANCH: 'main'},
+		});
+
+		expect(outcome).toEqual({
+			success: false,
+			error: 'pre-merge hook "npm test" failed: tests failed',
+		});
+		expect(runHookCommand).toHaveBeenCalledTimes(1);
+		expect(vi.mocked(runHookCommand).mock.calls[0]![1].env).toMatchObject({
+			CCMANAGER_TARGET_BRANCH: 'main',
+		});
+		expect(hookLogger.record).toHaveBeenCalledWith(
+			expect.objectContaining({event: 'pre-merge', success: false}),
+		);
+	});
+
+	it('should run every post hook and report the first failure', async () => {
+		vi.mocked(configurationManager.getLifecycleHooks).mockReturnValue({
+			postDelete: [
+				{command: 'first', enabled: true},
+				{command: 'second', enabled: true},
+			],
+		});
+		vi.mocked(runHookCommand)
+			.mockResolvedValueOnce(result(false, 'boom'))
+			.mockResolvedValueOnce(result(true));
+
+		const outcome = await runner.run('postDelete', context);
+
+		expect(outcome).toEqual({
+			success: false,
+			error: 'post-delete hook "first" failed: boom',
+		});
+		expect(runHookCommand).toHaveBeenCalledTimes(2);
+	});
+});
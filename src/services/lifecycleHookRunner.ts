@@ -0,0 +1,102 @@
+import path from 'path';
+import {LifecycleEvent} from '../types/index.js';
+import {configurationManager} from './configurationManager.js';
+import {hookLogger, tailOutput} from './hookLogger.js';
+import {WorktreeService} from './worktreeService.js';
+import {
+	DEFAULT_LIFECYCLE_HOOK_TIMEOUT_MS,
+	runHookCommand,
+} from '../utils/hookUtils.js';
+
+export type WorktreeOperation = 'create' | 'delete' | 'merge';
+
+export interface LifecycleHookContext {
+	cwd: string; // Directory the hooks run in
+	worktreePath: string; // Worktree the operation applies to
+	branch: string;
+	env?: Record<string, string>; // Variables specific to the operation
+}
+
+const EVENT_DETAILS: Record<
+	LifecycleEvent,
+	{phase: 'pre' | 'post'; operation: WorktreeOperation}
+> = {
+	preCreate: {phase: 'pre', operation: 'create'},
+	postCreate: {phase: 'post', operation: 'create'},
+	preDelete: {phase: 'pre', operation: 'delete'},
+	postDelete: {phase: 'post', operation: 'delete'},
+	preMerge: {phase: 'pre', operation: 'merge'},
+	postMerge: {phase: 'post', operation: 'merge'},
+};
+
+export class LifecycleHookRunner {
+	/**
+	 * Run the enabled hooks of a worktree operation in order. Pre hooks stop
+	 * at the first failure so the caller can abort the operation; post hooks
+	 * all run and the first failure is reported.
+	 */
+	async run(
+		event: LifecycleEvent,
+		context: LifecycleHookContext,
+	): Promise<{success: boolean; error?: string}> {
+		const hooks = (
+			configurationManager.getLifecycleHooks()[event] || []
+		).filter(hook => hook.enabled && hook.command.trim() !== '');
+		if (hooks.length === 0) {
+			return {success: true};
+		}
+
+		const {phase, operation} = EVENT_DETAILS[event];
+		const label = `${phase}-${operation}`;
+		const rootPath =
+			new WorktreeService()
+				.getWorktrees()
+				.find(worktree => worktree.isMainWorktree)?.path || process.cwd();
+		const env = {
+			CCMANAGER_HOOK_EVENT: label,
+			CCMANAGER_OPERATION: operation,
+			CCMANAGER_WORKTREE: path.resolve(context.worktreePath),
+			CCMANAGER_WORKTREE_BRANCH: context.branch,
+			CCMANAGER_ROOT_PATH: rootPath,
+			...context.env,
+		};
+
+		let firstError: string | undefined;
+		for (const hook of hooks) {
+			const result = await runHookCommand(hook.command, {
+				cwd: context.cwd,
+				env,
+				timeoutMs: hook.timeoutMs ?? DEFAULT_LIFECYCLE_HOOK_TIMEOUT_MS,
+			});
+
+			hookLogger.record({
+				timestamp: new Date().toISOString(),
+				worktreePath: context.worktreePath,
+				branch: context.branch,
+				event: label,
+				type: 'command',
+				target: hook.command,
+				success: result.success,
+				exitCode: result.exitCode,
+				durationMs: result.durationMs,
+				stdout: tailOutput(result.stdout),
+				stderr: tailOutput(result.stderr),
+				error: result.error,
+			});
+
+			if (!result.success) {
+				if (!firstError) {
+					const detail = tailOutput(result.stderr) || result.error;
+					firstError = `${label} hook "${hook.command}" failed: ${detail}`;
+				}
+				if (phase === 'pre') {
+					break;
+				}
+			}
+		}
+
+		return firstError ? {success: false, error: firstError} : {success: true};
+	}
+}
+
+export const lifecycleHookRunner = new LifecycleHookRunner();
@@ -1,5 +1,26 @@
-import {describe, it, expect, beforeEach, vi} from 'vitest';
-import {SessionManager} from './sessionManager.js';
+import {describe, it, expect, beforeEach, afterEach, vi} from 'vitest';
+import {spawn, IPty} from 'node-pty';
+import {mkdtempSync, rmSync, statSync, writeFileSync} from 'fs';
+import {tmpdir} from 'os';
+import {join} from 'path';
+import {MAX_CAPTURE_FILE_SIZE, SessionManager} from './sessionManager.js';
+import {hookLogger} from './hookLogger.js';
+import {Session, StatusHook, StatusHookPayload} from '../types/index.js';
+import {
+	PROMPT_SUBMIT_DELAY_MS,
+	toBracketedPaste,
+} from '../utils/initialPrompt.js';
+import {DEFAULT_READY_QUIET_MS} from '../utils/stateDetector.js';
+import {sendWebhook} from '../utils/webhook.js';
+
+vi.mock('node-pty', () => ({
+	spawn: vi.fn(),
+}));
+
+vi.mock('../utils/webhook.js', async importOriginal => ({
+	...(await importOriginal<typeof import('../utils/webhook.js')>()),
+	sendWebhook: vi.fn(),
+}));
 
 describe('SessionManager', () => {
 	let sessionManager: SessionManager;
@@ -14,6 +35,276 @@ describe('SessionManager', () => {
 		expect(sessionManager).toBeDefined();
 		expect(sessionManager.sessions).toBeDefined();
 	});
+
+	it('should cycle through waiting sessions, longest waiting first', () => {
+		const addSession = (
+			worktreePath: string,
+			state: Session['state'],
+			stateChangedAt: number,
+		) =>
+			sessionManager.sessions.set(worktreePath, {
+				worktreePath,
+				state,
+				stateChangedAt: new Date(stateChangedAt),
+			} as Session);
+		addSession('/repo/recent', 'waiting_input', 300);
+		addSession('/repo/busy', 'busy', 100);
+		addSession('/repo/oldest', 'waiting_input', 200);
+
+		const next = (current?: string) =>
+			sessionManager.getNextWaitingSession(current)?.worktreePath;
+		expect(next()).toBe('/repo/oldest');
+		expect(next('/repo/busy')).toBe('/repo/oldest');
+		expect(next('/repo/oldest')).toBe('/repo/recent');
+		expect(next('/repo/recent')).toBe('/repo/oldest');
+
+		sessionManager.sessions.clear();
+		expect(next()).toBeUndefined();
+	});
+});
+
+describe('SessionManager webhooks', () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		vi.clearAllMocks();
+		vi.mocked(sendWebhook).mockResolvedValue({success: true, attempts: 1});
+		vi.spyOn(hookLogger, 'record').mockImplementation(() => {});
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+		vi.useRealTimers();
+	});
+
+	it('should debounce each webhook separately even when they share a URL', async () => {
+		const sessionManager = new SessionManager();
+		const session = {id: 'session-1', state: 'idle'} as Session;
+		const payload: StatusHookPayload = {
+			sessionId: 'session-1',
+			commandType: 'claude',
+			branch: 'feature',
+			worktreePath: '/repo/feature',
+			oldState: 'busy',
+			newState: 'idle',
+			previousStateDurationMs: 500,
+			output: [],
+			timestamp: '2025-01-01T00:00:00.000Z',
+		};
+		const scheduleWebhook = (hook: StatusHook, index: number) =>
+			(
+				sessionManager as unknown as {
+					scheduleWebhook(
+						hook: StatusHook,
+						index: number,
+						payload: StatusHookPayload,
+						session: Session,
+					): void;
+				}
+			).scheduleWebhook(hook, index, payload, session);
+		const url = 'https://example.com/hook';
+		const hooks: StatusHook[] = [
+			{type: 'webhook', url, body: 'first', enabled: true, debounceMs: 100},
+			{type: 'webhook', url, body: 'second', enabled: true, debounceMs: 100},
+		];
+
+		try {
+			scheduleWebhook(hooks[0]!, 0);
+			scheduleWebhook(hooks[1]!, 1);
+			// A repeated transition restarts only that hook's window
+			scheduleWebhook(hooks[0]!, 0);
+			await vi.advanceTimersByTimeAsync(100);
+
+			expect(sendWebhook).toHaveBeenCalledTimes(2);
+			expect(
+				vi.mocked(sendWebhook).mock.calls.map(([req]) => req.body),
+			).toEqual(['second', 'first']);
+		} finally {
+			sessionManager.destroy();
+		}
+	});
+});
+
+describe('SessionManager initial prompt', () => {
+	let sessionManager: SessionManager;
+	let emitData: (data: string) => void;
+	const ptyProcess = {
+		write: vi.fn(),
+		onData: vi.fn((handler: (data: string) => void) => {
+			emitData = handler;
+		}),
+		onExit: vi.fn(),
+		kill: vi.fn(),
+	};
+
+	beforeEach(() => {
+		vi.useFakeTimers();
+		vi.clearAllMocks();
+		vi.mocked(spawn).mockReturnValue(ptyProcess as unknown as IPty);
+		sessionManager = new SessionManager();
+	});
+
+	afterEach(() => {
+		sessionManager.destroy();
+		vi.useRealTimers();
+	});
+
+	it('should paste the prompt once the started agent is ready for input', () => {
+		const detect = vi
+			.spyOn(sessionManager, 'detectTerminalState')
+			.mockReturnValue('idle');
+		sessionManager.setInitialPrompt(
+			'/repo/feature',
+			'Fix the bug\nand test it',
+		);
+		const session = sessionManager.createSession('/repo/feature', 'claude');
+		expect(session.initialPrompt).toBe('Fix the bug\nand test it');
+
+		// Nothing is sent to an agent that has not drawn anything yet
+		vi.advanceTimersByTime(300);
+		expect(ptyProcess.write).not.toHaveBeenCalled();
+
+		// The banner looks idle, but the agent is still starting
+		emitData('Welcome to Claude Code\r\n');
+		vi.advanceTimersByTime(2000);
+		expect(ptyProcess.write).not.toHaveBeenCalled();
+
+		// The input box shows up later; the prompt waits until it stays put
+		emitData('╭──────╮\r\n│ >    │\r\n╰──────╯');
+		vi.advanceTimersByTime(100);
+		expect(ptyProcess.write).not.toHaveBeenCalled();
+		vi.advanceTimersByTime(300);
+		expect(ptyProcess.write).toHaveBeenCalledWith(
+			toBracketedPaste('Fix the bug\nand test it'),
+		);
+
+		vi.advanceTimersByTime(PROMPT_SUBMIT_DELAY_MS);
+		expect(ptyProcess.write).toHaveBeenLastCalledWith('\r');
+
+		// Later idle states do not send it again
+		detect.mockReturnValue('busy');
+		vi.advanceTimersByTime(100);
+		detect.mockReturnValue('idle');
+		vi.advanceTimersByTime(1000);
+		expect(ptyProcess.write).toHaveBeenCalledTimes(2);
+	});
+
+	it('should wait for a quiet period when the agent has no ready matchers', () => {
+		vi.spyOn(sessionManager, 'detectTerminalState').mockReturnValue('idle');
+		sessionManager.setInitialPrompt('/repo/feature', 'Task');
+		sessionManager.createSession('/repo/feature', 'aider');
+
+		emitData('Aider v0.50\r\n');
+		vi.advanceTimersByTime(DEFAULT_READY_QUIET_MS - 100);
+		expect(ptyProcess.write).not.toHaveBeenCalled();
+
+		// Output keeps pushing readiness back
+		emitData('Loading repository map\r\n');
+		vi.advanceTimersByTime(DEFAULT_READY_QUIET_MS - 100);
+		expect(ptyProcess.write).not.toHaveBeenCalled();
+
+		vi.advanceTimersByTime(200);
+		expect(ptyProcess.write).toHaveBeenCalledWith(toBracketedPaste('Task'));
+	});
+
+	it('should only give the prompt to the next session of the worktree', () => {
+		sessionManager.setInitialPrompt('/repo/feature', 'Task');
+
+		expect(sessionManager.createSession('/repo/other').initialPrompt).toBe(
+			undefined,
+		);
+		expect(sessionManager.createSession('/repo/feature').initialPrompt).toBe(
+			'Task',
+		);
+		sessionManager.destroySession('/repo/feature');
+		expect(sessionManager.createSession('/repo/feature').initialPrompt).toBe(
+			undefined,
+		);
+	});
+});
+
+describe('SessionManager Zellij capture', () => {
+	let captureDir: string;
+
+	beforeEach(() => {
+		captureDir = mkdtempSync(join(tmpdir(), 'ccmanager-capture-'));
+	});
+
+	afterEach(() => {
+		rmSync(captureDir, {recursive: true, force: true});
+	});
+
+	it('should empty the capture file once it grows past the limit', async () => {
+		const sessionManager = new SessionManager();
+		const capturePath = join(captureDir, 'feature.log');
+		const written: number[] = [];
+		const session = {
+			worktreePath: '/repo/feature',
+			isZellijSession: true,
+			screenCapturePath: capturePath,
+			terminal: {
+				write: (data: Buffer, callback: () => void) => {
+					written.push(data.length);
+					callback();
+				},
+			},
+		} as unknown as Session;
+		const readCapture = () =>
+			(
+				sessionManager as unknown as {
+					readZellijScreenCapture(session: Session): Promise<boolean>;
+				}
+			).readZellijScreenCapture(session);
+
+		writeFileSync(capturePath, 'x'.repeat(1000));
+		expect(await readCapture()).toBe(true);
+		expect(statSync(capturePath).size).toBe(1000);
+
+		writeFileSync(capturePath, 'x'.repeat(MAX_CAPTURE_FILE_SIZE + 1));
+		expect(await readCapture()).toBe(true);
+		expect(statSync(capturePath).size).toBe(0);
+
+		// Output appended after emptying the file is read from the start
+		writeFileSync(capturePath, 'ready');
+		expect(await readCapture()).toBe(true);
+		expect(written.at(-1)).toBe(5);
+	});
+
+	it('should not start a round while the previous one is reading', async () => {
+		vi.useFakeTimers();
+		vi.stubEnv('ZELLIJ', '0');
+		const sessionManager = new SessionManager();
+		sessionManager.sessions.set('/repo/feature', {
+			worktreePath: '/repo/feature',
+			isZellijSession: true,
+		} as Session);
+
+		let finishRead = () => {};
+		const readCapture = vi.fn(
+			() =>
+				new Promise<boolean>(resolve => {
+					finishRead = () => resolve(false);
+				}),
+		);
+		(
+			sessionManager as unknown as {readZellijScreenCapture: typeof readCapture}
+		).readZellijScreenCapture = readCapture;
+
+		try {
+			// The first round ran in the constructor, before the session was added
+			await vi.advanceTimersByTimeAsync(1000);
+			expect(readCapture).toHaveBeenCalledTimes(1);
+			await vi.advanceTimersByTimeAsync(3000);
+			expect(readCapture).toHaveBeenCalledTimes(1);
+
+			finishRead();
+			await vi.advanceTimersByTimeAsync(1000);
+			expect(readCapture).toHaveBeenCalledTimes(2);
+		} finally {
+			sessionManager.destroy();
+			vi.unstubAllEnvs();
+			vi.useRealTimers();
+		}
+	});
 });
 
 /*
@@ -4,21 +4,55 @@ import {
 	SessionManager as ISessionManager,
 	SessionState,
 	CommandType,
+	StatusHook,
+	StatusHookPayload,
 } from '../types/index.js';
 import {EventEmitter} from 'events';
+import path from 'path';
 import pkg from '@xterm/headless';
-import {exec} from 'child_process';
+import {open, stat, truncate, FileHandle} from 'fs/promises';
 import {configurationManager} from './configurationManager.js';
 import {WorktreeService} from './worktreeService.js';
 import {ZellijService} from './zellijService.js';
+import {agentRegistry} from './agentRegistry.js';
+import {hookLogger, tailOutput} from './hookLogger.js';
+import {
+	captureTerminalSnapshot,
+	detectStateFromSnapshot,
+	isReadyForInput,
+	readTerminalLines,
+} from '../utils/stateDetector.js';
+import {
+	DEFAULT_HOOK_OUTPUT_LINES,
+	getStatusHooksForTransition,
+	runHookCommand,
+} from '../utils/hookUtils.js';
+import {
+	DEFAULT_WEBHOOK_DEBOUNCE_MS,
+	renderWebhookBody,
+	sendWebhook,
+} from '../utils/webhook.js';
+import {
+	PROMPT_SUBMIT_DELAY_MS,
+	toBracketedPaste,
+} from '../utils/initialPrompt.js';
 const {Terminal} = pkg;
 type TerminalType = InstanceType<typeof Terminal>;
 
+// Maximum bytes of Zellij pane capture replayed per check
+const MAX_CAPTURE_READ_SIZE = 256 * 1024;
+// The capture is emptied once it has been read past this size; `script`
+// appends, so it continues at the start of the file
+export const MAX_CAPTURE_FILE_SIZE = 1024 * 1024;
+
 export class SessionManager extends EventEmitter implements ISessionManager {
 	sessions: Map<string, Session>;
 	private waitingWithBottomBorder: Map<string, boolean> = new Map();
 	private busyTimers: Map<string, NodeJS.Timeout> = new Map();
+	private webhookTimers: Map<string, NodeJS.Timeout> = new Map();
 	private zellijStatusTimer?: NodeJS.Timeout;
+	private captureOffsets: Map<string, number> = new Map();
+	private initialPrompts: Map<string, string> = new Map();
 
 	private stripAnsi(str: string): string {
 		// Remove all ANSI escape sequences including cursor movement, color codes, etc.
@@ -35,42 +69,16 @@ export class SessionManager extends EventEmitter implements ISessionManager {
 			.replace(/[0-9]+;[0-9]+;[0-9;]+m/g, ''); // Orphaned 24-bit color codes
 	}
 
-	detectTerminalState(terminal: InstanceType<typeof Terminal>): SessionState {
-		// Get the last 30 lines from the terminal buffer
-		const buffer = terminal.buffer.active;
-		const lines: string[] = [];
-
-		// Start from the bottom and work our way up
-		for (let i = buffer.length - 1; i >= 0 && lines.length < 30; i--) {
-			const line = buffer.getLine(i);
-			if (line) {
-				const text = line.translateToString(true);
-				// Skip empty lines at the bottom
-				if (lines.length > 0 || text.trim() !== '') {
-					lines.unshift(text);
-				}
-			}
-		}
-
-		// Join lines and check for patterns
-		const content = lines.join('\n');
-		const lowerContent = content.toLowerCase();
-
-		// Check for waiting prompts with box character
-		if (
-			content.includes('│ Do you want') ||
-			content.includes('│ Would you like')
-		) {
-			return 'waiting_input';
-		}
-
-		// Check for busy state
-		if (lowerContent.includes('esc to interrupt')) {
-			return 'busy';
-		}
-
-		// Otherwise idle
-		return 'idle';
+	detectTerminalState(
+		terminal: InstanceType<typeof Terminal>,
+		commandType: CommandType = 'claude',
+		lastOutputAt?: Date,
+	): SessionState {
+		const snapshot = captureTerminalSnapshot(terminal, lastOutputAt);
+		return detectStateFromSnapshot(
+			snapshot,
+			agentRegistry.getDetectionProfile(commandType),
+		);
 	}
 
 	constructor() {
@@ -98,37 +106,37 @@ export class SessionManager extends EventEmitter implements ISessionManager {
 			.toString(36)
 			.substr(2, 9)}`;
 
-		// Determine command and arguments based on commandType
-		let command: string;
-		let args: string[];
-
-		if (commandType === 'codex') {
-			command = 'codex';
-			args = process.env['CCMANAGER_CODEX_ARGS']
-				? process.env['CCMANAGER_CODEX_ARGS'].split(' ')
-				: [];
-		} else {
-			command = 'claude';
-			args = process.env['CCMANAGER_CLAUDE_ARGS']
-				? process.env['CCMANAGER_CLAUDE_ARGS'].split(' ')
-				: [];
-		}
+		// A prompt queued for this worktree goes to this session only
+		const initialPrompt = this.initialPrompts.get(path.resolve(worktreePath));
+		this.initialPrompts.delete(path.resolve(worktreePath));
 
 		let ptyProcess: IPty | null;
 		let terminal: TerminalType | null;
 
 		if (isZellijSession) {
-			// For Zellij sessions, no actual PTY process needed
+			// For Zellij sessions, no actual PTY process needed. The virtual
+			// terminal is fed from the pane's screen capture instead.
 			ptyProcess = null;
-			terminal = null;
+			terminal = new Terminal({
+				cols: process.stdout.columns || 80,
+				rows: process.stdout.rows || 24,
+				allowProposedApi: true,
+			});
 		} else {
+			// Determine command, arguments and environment from the agent
+			// registry, including the worktree's repository and branch overrides
+			const {command, args, env} = agentRegistry.getLaunchCommand(
+				commandType,
+				worktreePath,
+			);
+
 			// Normal session with actual PTY process
 			ptyProcess = spawn(command, args, {
 				name: 'xterm-color',
 				cols: process.stdout.columns || 80,
 				rows: process.stdout.rows || 24,
 				cwd: worktreePath,
-				env: process.env,
+				env: {...process.env, ...env},
 			});
 
 			// Create virtual terminal for state detection
@@ -147,10 +155,16 @@ export class SessionManager extends EventEmitter implements ISessionManager {
 			output: [],
 			outputHistory: [],
 			lastActivity: new Date(),
+			createdAt: new Date(),
+			stateChangedAt: new Date(),
 			isActive: false,
 			terminal,
 			commandType,
 			isZellijSession,
+			screenCapturePath: isZellijSession
+				? ZellijService.getScreenCapturePath(worktreePath)
+				: undefined,
+			initialPrompt,
 		};
 
 		// Set up persistent background data handler for state detection
@@ -201,16 +215,18 @@ export class SessionManager extends EventEmitter implements ISessionManager {
 
 		// Set up interval-based state detection
 		session.stateCheckInterval = setInterval(() => {
-			const oldState = session.state;
 			const newState = session.terminal
-				? this.detectTerminalState(session.terminal)
+				? this.detectTerminalState(
+						session.terminal,
+						session.commandType,
+						session.lastActivity,
+					)
 				: 'idle';
 
-			if (newState !== oldState) {
-				session.state = newState;
-				this.executeStatusHook(oldState, newState, session);
-				this.emit('sessionStateChanged', session);
+			if (newState !== session.state) {
+				this.updateSessionState(session, newState);
 			}
+			this.sendInitialPromptWhenReady(session, newState);
 		}, 100); // Check every 100ms
 
 		session.process?.onExit(() => {
@@ -226,6 +242,72 @@ export class SessionManager extends EventEmitter implements ISessionManager {
 		});
 	}
 
+	/**
+	 * Queue a prompt for the next session created in a worktree. It is sent
+	 * once the agent has started and is ready for input.
+	 */
+	setInitialPrompt(worktreePath: string, prompt: string): void {
+		this.initialPrompts.set(path.resolve(worktreePath), prompt);
+	}
+
+	private sendInitialPromptWhenReady(
+		session: Session,
+		state: SessionState,
+	): void {
+		// An empty screen is not a started agent, so wait for its first output
+		const hasOutput = session.isZellijSession
+			? (this.captureOffsets.get(session.worktreePath) ?? 0) > 0
+			: session.outputHistory.length > 0;
+		if (
+			!session.initialPrompt ||
+			state !== 'idle' ||
+			!hasOutput ||
+			!session.terminal
+		) {
+			return;
+		}
+
+		// Idle is reported as soon as the startup banner is drawn, before the
+		// agent accepts input
+		const snapshot = captureTerminalSnapshot(
+			session.terminal,
+			session.lastActivity,
+		);
+		if (
+			!isReadyForInput(
+				snapshot,
+				agentRegistry.getDetectionProfile(session.commandType),
+			)
+		) {
+			return;
+		}
+
+		const prompt = session.initialPrompt;
+		session.initialPrompt = undefined;
+
+		if (session.isZellijSession) {
+			ZellijService.sendPromptToWorktree(session.worktreePath, prompt).then(
+				result => {
+					if (!result.success) {
+						console.error(
+							`Failed to send the initial prompt to ${session.worktreePath}:`,
+							result.error,
+						);
+					}
+				},
+			);
+			return;
+		}
+
+		session.process?.write(toBracketedPaste(prompt));
+		setTimeout(() => {
+			// The agent may have exited in the meantime
+			if (this.sessions.get(session.worktreePath) === session) {
+				session.process?.write('\r');
+			}
+		}, PROMPT_SUBMIT_DELAY_MS);
+	}
+
 	getSession(worktreePath: string): Session | undefined {
 		return this.sessions.get(worktreePath);
 	}
@@ -260,7 +342,15 @@ export class SessionManager extends EventEmitter implements ISessionManager {
 				clearTimeout(timer);
 				this.busyTimers.delete(worktreePath);
 			}
+			// Drop webhooks still waiting for their debounce window
+			for (const [key, webhookTimer] of this.webhookTimers) {
+				if (key.startsWith(`${session.id}:`)) {
+					clearTimeout(webhookTimer);
+					this.webhookTimers.delete(key);
+				}
+			}
 			this.sessions.delete(worktreePath);
+			this.captureOffsets.delete(worktreePath);
 			this.waitingWithBottomBorder.delete(session.id);
 			this.emit('sessionDestroyed', session);
 		}
@@ -270,46 +360,225 @@ export class SessionManager extends EventEmitter implements ISessionManager {
 		return Array.from(this.sessions.values());
 	}
 
-	private executeStatusHook(
+	/**
+	 * Get the session to jump to next among those waiting for input, in order
+	 * of how long they have been waiting. From a waiting session this moves to
+	 * the one after it, wrapping around, so repeated jumps cycle through all.
+	 */
+	getNextWaitingSession(currentWorktreePath?: string): Session | undefined {
+		const waiting = this.getAllSessions()
+			.filter(session => session.state === 'waiting_input')
+			.sort((a, b) => a.stateChangedAt.getTime() - b.stateChangedAt.getTime());
+		const currentIndex = waiting.findIndex(
+			session => session.worktreePath === currentWorktreePath,
+		);
+		return waiting[(currentIndex + 1) % waiting.length];
+	}
+
+	private updateSessionState(session: Session, newState: SessionState): void {
+		const oldState = session.state;
+		const previousStateDurationMs =
+			Date.now() - session.stateChangedAt.getTime();
+
+		session.state = newState;
+		session.stateChangedAt = new Date();
+
+		// Execute status hooks
+		this.executeStatusHooks(
+			oldState,
+			newState,
+			session,
+			previousStateDurationMs,
+		);
+
+		// Emit state change event
+		this.emit('sessionStateChanged', session);
+	}
+
+	private executeStatusHooks(
 		oldState: SessionState,
 		newState: SessionState,
 		session: Session,
+		previousStateDurationMs: number,
 	): void {
 		const statusHooks = configurationManager.getStatusHooks();
-		const hook = statusHooks[newState];
+		const hooks = getStatusHooksForTransition(statusHooks, oldState, newState);
+		if (hooks.length === 0) {
+			return;
+		}
+
+		// Get branch information
+		const worktreeService = new WorktreeService();
+		const worktrees = worktreeService.getWorktrees();
+		const worktree = worktrees.find(wt => wt.path === session.worktreePath);
+		const branch = worktree?.branch || 'unknown';
+
+		// Read the screen once for the hook that wants the most lines
+		const maxOutputLines = Math.max(
+			...hooks.map(hook => hook.outputLines ?? DEFAULT_HOOK_OUTPUT_LINES),
+		);
+		const output = session.terminal
+			? readTerminalLines(session.terminal, maxOutputLines)
+			: [];
+
+		const env = {
+			CCMANAGER_OLD_STATE: oldState,
+			CCMANAGER_NEW_STATE: newState,
+			CCMANAGER_WORKTREE: session.worktreePath,
+			CCMANAGER_WORKTREE_BRANCH: branch,
+			CCMANAGER_SESSION_ID: session.id,
+			CCMANAGER_COMMAND_TYPE: session.commandType,
+		};
 
-		if (hook && hook.enabled && hook.command) {
-			// Get branch information
-			const worktreeService = new WorktreeService();
-			const worktrees = worktreeService.getWorktrees();
-			const worktree = worktrees.find(wt => wt.path === session.worktreePath);
-			const branch = worktree?.branch || 'unknown';
+		for (const hook of hooks) {
+			const outputLines = hook.outputLines ?? DEFAULT_HOOK_OUTPUT_LINES;
+			const payload: StatusHookPayload = {
+				sessionId: session.id,
+				commandType: session.commandType,
+				branch,
+				worktreePath: session.worktreePath,
+				oldState,
+				newState,
+				previousStateDurationMs,
+				output: outputLines > 0 ? output.slice(-outputLines) : [],
+				timestamp: new Date().toISOString(),
+			};
+
+			if (hook.type === 'webhook') {
+				const index = (statusHooks[newState] || []).indexOf(hook);
+				this.scheduleWebhook(hook, index, payload, session);
+				continue;
+			}
 
 			// Execute the hook command in the session's worktree directory
-			exec(
-				hook.command,
-				{
-					cwd: session.worktreePath,
-					env: {
-						...process.env,
-						CCMANAGER_OLD_STATE: oldState,
-						CCMANAGER_NEW_STATE: newState,
-						CCMANAGER_WORKTREE: session.worktreePath,
-						CCMANAGER_WORKTREE_BRANCH: branch,
-						CCMANAGER_SESSION_ID: session.id,
-					},
-				},
-				(error, _stdout, stderr) => {
-					if (error) {
-						console.error(
-							`Failed to execute ${newState} hook: ${error.message}`,
-						);
-					}
-					if (stderr) {
-						console.error(`Hook stderr: ${stderr}`);
-					}
-				},
-			);
+			const command = hook.command || '';
+			runHookCommand(command, {
+				cwd: session.worktreePath,
+				env,
+				input: JSON.stringify(payload),
+				timeoutMs: hook.timeoutMs,
+			}).then(result => {
+				// Ink paints over the console, so failures are shown from the log
+				hookLogger.record({
+					timestamp: new Date().toISOString(),
+					worktreePath: session.worktreePath,
+					branch,
+					event: `${oldState} → ${newState}`,
+					type: 'command',
+					target: command,
+					success: result.success,
+					exitCode: result.exitCode,
+					durationMs: result.durationMs,
+					stdout: tailOutput(result.stdout),
+					stderr: tailOutput(result.stderr),
+					error: result.error,
+				});
+			});
+		}
+	}
+
+	/**
+	 * Send a webhook once the session stays in the new state for the hook's
+	 * debounce window, so a flapping state does not flood the endpoint.
+	 * Hooks are told apart by their index in the state's hook list, so two
+	 * hooks posting to the same URL are both sent.
+	 */
+	private scheduleWebhook(
+		hook: StatusHook,
+		index: number,
+		payload: StatusHookPayload,
+		session: Session,
+	): void {
+		const key = `${session.id}:${payload.newState}:${index}`;
+		const pending = this.webhookTimers.get(key);
+		if (pending) {
+			clearTimeout(pending);
+		}
+
+		const timer = setTimeout(() => {
+			this.webhookTimers.delete(key);
+			if (session.state !== payload.newState) {
+				// The session already left the state
+				return;
+			}
+
+			const url = hook.url || '';
+			const startedAt = Date.now();
+			sendWebhook({
+				url,
+				body: renderWebhookBody(hook.body, payload),
+				headers: hook.headers,
+				timeoutMs: hook.timeoutMs,
+				retries: hook.retries,
+			}).then(result => {
+				hookLogger.record({
+					timestamp: new Date().toISOString(),
+					worktreePath: session.worktreePath,
+					branch: payload.branch,
+					event: `${payload.oldState} → ${payload.newState}`,
+					type: 'webhook',
+					target: url,
+					success: result.success,
+					status: result.status,
+					durationMs: Date.now() - startedAt,
+					error:
+						result.error &&
+						`${result.error} (${result.attempts} attempt${result.attempts === 1 ? '' : 's'})`,
+				});
+			});
+		}, hook.debounceMs ?? DEFAULT_WEBHOOK_DEBOUNCE_MS);
+		this.webhookTimers.set(key, timer);
+	}
+
+	/**
+	 * Feed new output from a Zellij pane's screen capture into the session's
+	 * virtual terminal. Returns false if the pane has no capture.
+	 */
+	private async readZellijScreenCapture(session: Session): Promise<boolean> {
+		if (!session.screenCapturePath || !session.terminal) {
+			return false;
+		}
+
+		let handle: FileHandle | undefined;
+		try {
+			const {size} = await stat(session.screenCapturePath);
+			let offset = this.captureOffsets.get(session.worktreePath) ?? 0;
+
+			// Capture was restarted by a new agent process
+			if (size < offset) {
+				offset = 0;
+			}
+			// Only replay the most recent output after a long gap
+			if (size - offset > MAX_CAPTURE_READ_SIZE) {
+				offset = size - MAX_CAPTURE_READ_SIZE;
+			}
+
+			if (size > offset) {
+				const data = Buffer.alloc(size - offset);
+				handle = await open(session.screenCapturePath, 'r');
+				await handle.read(data, 0, data.length, offset);
+
+				const terminal = session.terminal;
+				await new Promise<void>(resolve => terminal.write(data, resolve));
+				session.lastActivity = new Date();
+			}
+
+			if (size > MAX_CAPTURE_FILE_SIZE) {
+				// Output written between reading and emptying the file is lost,
+				// but the virtual terminal keeps the screen it already drew
+				await truncate(session.screenCapturePath, 0);
+				offset = 0;
+			} else {
+				offset = size;
+			}
+
+			this.captureOffsets.set(session.worktreePath, offset);
+			return true;
+		} catch {
+			// Pane was not started by CCManager or capture is unavailable
+			return false;
+		} finally {
+			await handle?.close();
 		}
 	}
 
@@ -317,54 +586,47 @@ export class SessionManager extends EventEmitter implements ISessionManager {
 	 * Start monitoring Zellij session statuses
 	 */
 	private startZellijStatusMonitoring(): void {
+		let isChecking = false;
 		const updateZellijSessionStates = async () => {
+			// Skip a round while the previous one is still reading captures, so
+			// no output is replayed twice
+			if (isChecking) {
+				return;
+			}
+			isChecking = true;
+
 			const zellijSessions = Array.from(this.sessions.values()).filter(
 				s => s.isZellijSession,
 			);
 
 			for (const session of zellijSessions) {
 				try {
-					const paneName = ZellijService.getBranchNameFromPath(
-						session.worktreePath,
-					);
-					const isActive = await ZellijService.isPaneActive(
-						paneName,
+					const hasCapture = await this.readZellijScreenCapture(session);
+					if (!hasCapture || !session.terminal) {
+						// Without a capture the pane's state is unknown
+						continue;
+					}
+
+					const newState = this.detectTerminalState(
+						session.terminal,
 						session.commandType,
+						session.lastActivity,
 					);
 
-					// More nuanced state detection
-					let newState: SessionState;
-					if (isActive) {
-						// If active, it could be busy processing or waiting for input
-						// For Zellij sessions, we'll use a simpler busy/idle model
-						newState = 'busy';
-					} else {
-						// Check if process exists but is idle
-						const processExists = await ZellijService.isProcessRunning(
-							session.commandType,
-						);
-						newState = processExists ? 'idle' : 'idle'; // Process ended
-					}
-
 					if (session.state !== newState) {
-						const oldState = session.state;
-						session.state = newState;
-						session.lastActivity = new Date();
-
-						// Execute status hooks
-						this.executeStatusHook(oldState, newState, session);
-
-						// Emit state change event
-						this.emit('sessionStateChanged', session);
+						this.updateSessionState(session, newState);
 					}
+					this.sendInitialPromptWhenReady(session, newState);
 				} catch (error) {
 					console.error('Error checking Zellij pane status:', error);
 				}
 			}
+
+			isChecking = false;
 		};
 
-		// Check every 2 seconds
-		this.zellijStatusTimer = setInterval(updateZellijSessionStates, 2000);
+		// Check every second
+		this.zellijStatusTimer = setInterval(updateZellijSessionStates, 1000);
 
 		// Initial check
 		updateZellijSessionStates();
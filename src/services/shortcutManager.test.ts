@@ -0,0 +1,172 @@
+import {describe, it, expect, beforeEach, vi} from 'vitest';
+import {Key} from 'ink';
+import {ShortcutManager} from './shortcutManager.js';
+import {configurationManager} from './configurationManager.js';
+import {DEFAULT_SHORTCUTS} from '../types/index.js';
+import {SHORTCUT_ACTIONS} from '../constants/shortcutActions.js';
+
+vi.mock('./configurationManager.js', () => ({
+	configurationManager: {
+		getShortcuts: vi.fn(),
+		setShortcuts: vi.fn(),
+	},
+}));
+
+describe('ShortcutManager', () => {
+	const manager = new ShortcutManager();
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		vi.mocked(configurationManager.getShortcuts).mockReturnValue(
+			DEFAULT_SHORTCUTS,
+		);
+	});
+
+	it('should accept the default keymap', () => {
+		for (const {action} of SHORTCUT_ACTIONS) {
+			expect(
+				manager.getShortcutError(action, DEFAULT_SHORTCUTS[action]),
+			).toBeUndefined();
+			expect(manager.findConflict(DEFAULT_SHORTCUTS, action)).toBeUndefined();
+		}
+	});
+
+	it('should only allow plain keys for menu actions', () => {
+		expect(manager.getShortcutError('refresh', {key: 'u'})).toBeUndefined();
+		expect(manager.getShortcutError('refresh', {key: 'j'})).toBe(
+			'j is used by the menu list',
+		);
+		expect(manager.getShortcutError('returnToMenu', {key: 'q'})).toBe(
+			'Shortcuts used in a session must start with Ctrl, Alt or a function key',
+		);
+		expect(manager.getShortcutError('cancel', {key: 'q'})).toBe(
+			'Shortcuts used outside the menu must use a modifier key (Ctrl or Alt)',
+		);
+		expect(
+			manager.getShortcutError('returnToMenu', {alt: true, key: 'q'}),
+		).toBeUndefined();
+		expect(
+			manager.getShortcutError('returnToMenu', {key: 'f5'}),
+		).toBeUndefined();
+		expect(manager.getShortcutError('refresh', {key: 'f13'})).toBe(
+			'Unknown key "f13"',
+		);
+		expect(
+			manager.getShortcutError('returnToMenu', {ctrl: true, key: 'c'}),
+		).toBe('Ctrl+C is reserved and cannot be used');
+	});
+
+	it('should reject Ctrl keys that terminals send as other keys', () => {
+		expect(
+			manager.getShortcutError('returnToMenu', {ctrl: true, key: 'm'}),
+		).toBe('Ctrl+M is sent as Enter by terminals and cannot be used');
+		expect(
+			manager.getShortcutError('nextWaiting', {ctrl: true, key: 'j'}),
+		).toBe('Ctrl+J is sent as Enter by terminals and cannot be used');
+		expect(
+			manager.getShortcutError('returnToMenu', {
+				ctrl: true,
+				alt: true,
+				key: 'i',
+			}),
+		).toBe('Ctrl+Alt+I is sent as Tab by terminals and cannot be used');
+		expect(
+			manager.getShortcutError('returnToMenu', {
+				leader: {ctrl: true, key: 'a'},
+				ctrl: true,
+				key: 'h',
+			}),
+		).toBe('Ctrl+H is sent as Backspace by terminals and cannot be used');
+		expect(
+			manager.getShortcutError('returnToMenu', {ctrl: true, key: 'g'}),
+		).toBeUndefined();
+	});
+
+	it('should detect conflicts in shared contexts only', () => {
+		const shortcuts = {
+			...DEFAULT_SHORTCUTS,
+			refresh: {key: 'n'},
+			nextWaiting: {ctrl: true, key: 'e'},
+		};
+
+		expect(manager.findConflict(shortcuts, 'refresh')).toBe('newWorktree');
+		expect(manager.findConflict(shortcuts, 'nextWaiting')).toBe('returnToMenu');
+		// Ctrl+E is only listened for in sessions, cancel in the menu and dialogs
+		expect(
+			manager.findConflict(
+				{...DEFAULT_SHORTCUTS, cancel: {ctrl: true, key: 'e'}},
+				'cancel',
+			),
+		).toBeUndefined();
+	});
+
+	it('should not bind a key on its own that starts a chord', () => {
+		const shortcuts = {
+			...DEFAULT_SHORTCUTS,
+			newWorktree: {key: 'n', leader: {ctrl: true, key: 'b'}},
+			refresh: {ctrl: true, key: 'b'},
+		};
+
+		expect(manager.findConflict(shortcuts, 'refresh')).toBe('newWorktree');
+		expect(manager.findConflict(shortcuts, 'newWorktree')).toBe('refresh');
+		expect(manager.formatShortcut(shortcuts.newWorktree)).toBe('Ctrl+B n');
+	});
+
+	it('should refuse to save conflicting shortcuts', () => {
+		expect(
+			manager.saveShortcuts({...DEFAULT_SHORTCUTS, search: {key: 's'}}),
+		).toBe(false);
+		expect(configurationManager.setShortcuts).not.toHaveBeenCalled();
+
+		expect(
+			manager.saveShortcuts({...DEFAULT_SHORTCUTS, search: {key: 'f'}}),
+		).toBe(true);
+		expect(configurationManager.setShortcuts).toHaveBeenCalledWith(
+			expect.objectContaining({
+				search: {key: 'f', ctrl: false, alt: false, shift: false},
+			}),
+		);
+	});
+
+	it('should match Alt, Shift and function keys in Ink views', () => {
+		vi.mocked(configurationManager.getShortcuts).mockReturnValue({
+			...DEFAULT_SHORTCUTS,
+			refresh: {alt: true, key: 'r'},
+			sort: {shift: true, key: 's'},
+			search: {key: 'f3'},
+		});
+		const key = {} as Key;
+
+		manager.handleInkInput('\x1br');
+		expect(manager.matchesShortcut('refresh', 'r', key)).toBe(true);
+		manager.handleInkInput('S');
+		expect(manager.matchesShortcut('sort', 'S', key)).toBe(true);
+		manager.handleInkInput('s');
+		expect(manager.matchesShortcut('sort', 's', key)).toBe(false);
+		manager.handleInkInput('\x1bOR');
+		expect(manager.matchesShortcut('search', '', key)).toBe(true);
+	});
+
+	it('should hold back the leader of a chord in a session', () => {
+		expect(manager.matchSessionInput('\x01')).toEqual({passthrough: ''});
+		expect(manager.matchSessionInput('n')).toEqual({
+			action: 'nextWaiting',
+			passthrough: '',
+		});
+		// Keys that do not complete the chord are passed on with the leader
+		manager.matchSessionInput('\x01');
+		expect(manager.matchSessionInput('x')).toEqual({passthrough: '\x01x'});
+		expect(manager.matchSessionInput('\x05')).toEqual({
+			action: 'returnToMenu',
+			passthrough: '',
+		});
+		expect(manager.matchSessionInput('hello')).toEqual({passthrough: 'hello'});
+	});
+
+	it('should generate footer hints from the keymap', () => {
+		expect(manager.getFooterHints('session')).toBe(
+			'Ctrl+E Menu Ctrl+A n Next Waiting',
+		);
+		expect(manager.getFooterHints('menu')).toContain('n New d Delete m Merge');
+	});
+});
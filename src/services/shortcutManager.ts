@@ -1,6 +1,56 @@
-import {ShortcutKey, ShortcutConfig} from '../types/index.js';
+import {
+	KeyCombo,
+	ShortcutKey,
+	ShortcutConfig,
+	ShortcutAction,
+	ShortcutContext,
+} from '../types/index.js';
 import {Key} from 'ink';
 import {configurationManager} from './configurationManager.js';
+import {
+	RESERVED_MENU_KEYS,
+	SHORTCUT_ACTIONS,
+} from '../constants/shortcutActions.js';
+import {KEY_NAMES, ParsedKey, parseKeys} from '../utils/keyParser.js';
+
+// A leader key waits this long for the second key of its chord
+export const CHORD_TIMEOUT_MS = 2000;
+
+// Contexts listened for by Ink views, as opposed to the raw session input
+const INK_CONTEXTS: ShortcutContext[] = ['menu', 'dialog'];
+
+const KEY_DISPLAY_NAMES: Record<string, string> = {
+	escape: 'Esc',
+	return: 'Enter',
+	tab: 'Tab',
+	backspace: 'Backspace',
+	space: 'Space',
+	insert: 'Insert',
+	delete: 'Delete',
+	home: 'Home',
+	end: 'End',
+	pageup: 'PageUp',
+	pagedown: 'PageDown',
+	up: 'Up',
+	down: 'Down',
+	left: 'Left',
+	right: 'Right',
+};
+
+// Ctrl keys that terminals send as the byte of another key, so they are
+// always read as that key
+const CTRL_KEY_ALIASES: Record<string, string> = {
+	m: 'return',
+	j: 'return',
+	i: 'tab',
+	h: 'backspace',
+};
+
+interface PendingLeader {
+	key: ParsedKey;
+	contexts: ShortcutContext[];
+	pressedAt: number;
+}
 
 export class ShortcutManager {
 	private reservedKeys: ShortcutKey[] = [
@@ -9,64 +59,181 @@ export class ShortcutManager {
 		{key: 'escape'}, // Ctrl+[ is equivalent to Escape
 		{ctrl: true, key: '['},
 	];
+	// Leader key of a chord waiting for its second key
+	private pendingLeader: PendingLeader | null = null;
+	// Last keypress read by Ink and the actions it triggers
+	private inkKeypress: {
+		key?: ParsedKey;
+		actions: Set<ShortcutAction>;
+	} | null = null;
 
 	constructor() {}
 
-	private validateShortcut(shortcut: unknown): ShortcutKey | null {
-		if (!shortcut || typeof shortcut !== 'object') {
+	private normalizeKeyCombo(combo: unknown): KeyCombo | null {
+		if (!combo || typeof combo !== 'object') {
 			return null;
 		}
 
-		const s = shortcut as Record<string, unknown>;
+		const s = combo as Record<string, unknown>;
 		if (!s['key'] || typeof s['key'] !== 'string') {
 			return null;
 		}
 
-		const validShortcut: ShortcutKey = {
+		return {
 			key: s['key'] as string,
 			ctrl: !!s['ctrl'],
 			alt: !!s['alt'],
 			shift: !!s['shift'],
 		};
+	}
 
-		// Check if it's a reserved key
-		if (this.isReservedKey(validShortcut)) {
+	private validateShortcut(
+		shortcut: unknown,
+		action: ShortcutAction,
+	): ShortcutKey | null {
+		const validShortcut: ShortcutKey | null = this.normalizeKeyCombo(shortcut);
+		if (!validShortcut) {
 			return null;
 		}
 
-		// Ensure at least one modifier key is used (except for special keys like escape)
+		const leader = (shortcut as Record<string, unknown>)['leader'];
+		if (leader !== undefined) {
+			const validLeader = this.normalizeKeyCombo(leader);
+			if (!validLeader) {
+				return null;
+			}
+			validShortcut.leader = validLeader;
+		}
+
+		return this.getShortcutError(action, validShortcut) ? null : validShortcut;
+	}
+
+	private getContexts(action: ShortcutAction): ShortcutContext[] {
+		return (
+			SHORTCUT_ACTIONS.find(info => info.action === action)?.contexts || []
+		);
+	}
+
+	private isSameKey(a: KeyCombo, b: KeyCombo): boolean {
+		return (
+			a.key.toLowerCase() === b.key.toLowerCase() &&
+			!!a.ctrl === !!b.ctrl &&
+			!!a.alt === !!b.alt &&
+			!!a.shift === !!b.shift
+		);
+	}
+
+	private isSameShortcut(a: ShortcutKey, b: ShortcutKey): boolean {
+		if (!a.leader || !b.leader) {
+			return !a.leader && !b.leader && this.isSameKey(a, b);
+		}
+		return this.isSameKey(a.leader, b.leader) && this.isSameKey(a, b);
+	}
+
+	/**
+	 * Explain why a key cannot be bound to an action. Plain keys are only
+	 * allowed for menu actions, since elsewhere they are typed into the agent
+	 * or a text input; chords there need a leader with Ctrl or Alt.
+	 */
+	public getShortcutError(
+		action: ShortcutAction,
+		shortcut: ShortcutKey,
+	): string | undefined {
+		const display = this.formatShortcut(shortcut);
+		const contexts = this.getContexts(action);
+		const first = shortcut.leader || shortcut;
+
+		for (const combo of [shortcut, ...(shortcut.leader ? [first] : [])]) {
+			if (combo.key.length > 1 && !KEY_NAMES.includes(combo.key)) {
+				return `Unknown key "${combo.key}"`;
+			}
+
+			const alias = combo.ctrl
+				? CTRL_KEY_ALIASES[combo.key.toLowerCase()]
+				: undefined;
+			if (alias) {
+				const {ctrl, alt, shift, key} = combo;
+				return `${this.formatShortcut({ctrl, alt, shift, key})} is sent as ${KEY_DISPLAY_NAMES[alias]} by terminals and cannot be used`;
+			}
+		}
+
+		// Escape only belongs to the agent inside a session
 		if (
-			validShortcut.key !== 'escape' &&
-			!validShortcut.ctrl &&
-			!validShortcut.alt &&
-			!validShortcut.shift
+			this.isReservedKey(first) &&
+			(first.key !== 'escape' || contexts.includes('session'))
 		) {
-			return null;
+			return `${this.formatShortcut(first)} is reserved and cannot be used`;
 		}
 
-		return validShortcut;
+		const typesText = !first.ctrl && !first.alt && !/^f\d+$/.test(first.key);
+		if (contexts.includes('session') && typesText) {
+			return 'Shortcuts used in a session must start with Ctrl, Alt or a function key';
+		}
+		if (
+			contexts.some(context => context !== 'menu') &&
+			first.key !== 'escape' &&
+			typesText
+		) {
+			return 'Shortcuts used outside the menu must use a modifier key (Ctrl or Alt)';
+		}
+		if (
+			!shortcut.leader &&
+			!shortcut.ctrl &&
+			!shortcut.alt &&
+			!shortcut.shift &&
+			RESERVED_MENU_KEYS.includes(shortcut.key)
+		) {
+			return `${display} is used by the menu list`;
+		}
+		return undefined;
 	}
 
-	private isReservedKey(shortcut: ShortcutKey): boolean {
-		return this.reservedKeys.some(
-			reserved =>
-				reserved.key === shortcut.key &&
-				reserved.ctrl === shortcut.ctrl &&
-				reserved.alt === shortcut.alt &&
-				reserved.shift === shortcut.shift,
-		);
+	/**
+	 * Find another action bound to the same key in a context the action is
+	 * also used in. A key that starts a chord cannot be bound on its own.
+	 */
+	public findConflict(
+		shortcuts: ShortcutConfig,
+		action: ShortcutAction,
+	): ShortcutAction | undefined {
+		const contexts = this.getContexts(action);
+		const shortcut = shortcuts[action];
+		return SHORTCUT_ACTIONS.find(info => {
+			const other = shortcuts[info.action];
+			return (
+				info.action !== action &&
+				info.contexts.some(context => contexts.includes(context)) &&
+				(this.isSameShortcut(other, shortcut) ||
+					(!shortcut.leader &&
+						!!other.leader &&
+						this.isSameKey(other.leader, shortcut)) ||
+					(!other.leader &&
+						!!shortcut.leader &&
+						this.isSameKey(shortcut.leader, other)))
+			);
+		})?.action;
+	}
+
+	private isReservedKey(combo: KeyCombo): boolean {
+		return this.reservedKeys.some(reserved => this.isSameKey(reserved, combo));
 	}
 
 	public saveShortcuts(shortcuts: ShortcutConfig): boolean {
 		// Validate all shortcuts
 		const currentShortcuts = configurationManager.getShortcuts();
-		const validated: ShortcutConfig = {
-			returnToMenu:
-				this.validateShortcut(shortcuts.returnToMenu) ||
-				currentShortcuts.returnToMenu,
-			cancel:
-				this.validateShortcut(shortcuts.cancel) || currentShortcuts.cancel,
-		};
+		const validated = {} as ShortcutConfig;
+		for (const {action} of SHORTCUT_ACTIONS) {
+			validated[action] =
+				this.validateShortcut(shortcuts[action], action) ||
+				currentShortcuts[action];
+		}
+
+		// Refuse to save a keymap where one key would trigger two actions
+		if (
+			SHORTCUT_ACTIONS.some(({action}) => this.findConflict(validated, action))
+		) {
+			return false;
+		}
 
 		configurationManager.setShortcuts(validated);
 		return true;
@@ -76,65 +243,208 @@ export class ShortcutManager {
 		return configurationManager.getShortcuts();
 	}
 
+	/**
+	 * Resolve one keypress to the actions it triggers in the given contexts.
+	 * A leader key triggers nothing and waits for the second key of its
+	 * chord; any other key cancels a pending chord.
+	 */
+	private resolveKeypress(
+		key: ParsedKey,
+		contexts: ShortcutContext[],
+	): Set<ShortcutAction> {
+		const shortcuts = configurationManager.getShortcuts();
+		const bindings = SHORTCUT_ACTIONS.filter(info =>
+			info.contexts.some(context => contexts.includes(context)),
+		).map(info => ({action: info.action, shortcut: shortcuts[info.action]}));
+
+		const pending = this.pendingLeader;
+		this.pendingLeader = null;
+		if (
+			pending &&
+			pending.contexts.join() === contexts.join() &&
+			Date.now() - pending.pressedAt <= CHORD_TIMEOUT_MS
+		) {
+			return new Set(
+				bindings
+					.filter(
+						({shortcut}) =>
+							shortcut.leader &&
+							this.isSameKey(shortcut.leader, pending.key) &&
+							this.isSameKey(shortcut, key),
+					)
+					.map(({action}) => action),
+			);
+		}
+
+		if (
+			bindings.some(
+				({shortcut}) => shortcut.leader && this.isSameKey(shortcut.leader, key),
+			)
+		) {
+			this.pendingLeader = {key, contexts, pressedAt: Date.now()};
+			return new Set();
+		}
+
+		return new Set(
+			bindings
+				.filter(
+					({shortcut}) => !shortcut.leader && this.isSameKey(shortcut, key),
+				)
+				.map(({action}) => action),
+		);
+	}
+
+	/**
+	 * Record raw input read by Ink before its useInput handlers run, so
+	 * shortcuts see keys Ink does not report, such as function keys, and
+	 * chords advance once per keypress
+	 */
+	public handleInkInput(data: string): void {
+		const keys = parseKeys(data);
+		// Several keys at once are pasted text, not a shortcut
+		const key = keys.length === 1 ? keys[0] : undefined;
+		this.inkKeypress = {
+			key,
+			actions: key ? this.resolveKeypress(key, INK_CONTEXTS) : new Set(),
+		};
+	}
+
+	/**
+	 * Match raw input of a session. Returns the triggered action, if any, and
+	 * the input to pass on to the agent: a leader is held back until the next
+	 * key shows whether it starts a chord.
+	 */
+	public matchSessionInput(data: string): {
+		action?: ShortcutAction;
+		passthrough: string;
+	} {
+		const keys = parseKeys(data);
+		const pending = this.pendingLeader;
+		if (keys.length !== 1) {
+			this.pendingLeader = null;
+			return {passthrough: (pending?.key.sequence || '') + data};
+		}
+
+		const [action] = this.resolveKeypress(keys[0]!, ['session']);
+		if (action) {
+			return {action, passthrough: ''};
+		}
+		if (this.pendingLeader) {
+			return {passthrough: ''};
+		}
+		return {passthrough: (pending?.key.sequence || '') + data};
+	}
+
+	/**
+	 * Turn Ink's view of a keypress into a key. Function keys and the
+	 * modifiers of named keys other than arrows are not available this way.
+	 */
+	private parseInkKey(input: string, key: Key): ParsedKey | undefined {
+		const names: [boolean, string][] = [
+			[key.escape, 'escape'],
+			[key.upArrow, 'up'],
+			[key.downArrow, 'down'],
+			[key.leftArrow, 'left'],
+			[key.rightArrow, 'right'],
+			[key.pageUp, 'pageup'],
+			[key.pageDown, 'pagedown'],
+			[key.return, 'return'],
+			[key.tab, 'tab'],
+			[key.backspace, 'backspace'],
+			[key.delete, 'delete'],
+		];
+		const name = names.find(([pressed]) => pressed)?.[1];
+		if (!name && [...input].length !== 1) {
+			return undefined;
+		}
+
+		return {
+			key: name || (input === ' ' ? 'space' : input.toLowerCase()),
+			ctrl: key.ctrl,
+			alt: key.meta && !key.escape,
+			shift: name ? key.shift : /^[A-Z]$/.test(input),
+			sequence: input,
+		};
+	}
+
+	/**
+	 * Get the key of the current Ink keypress, e.g. to capture a new shortcut
+	 */
+	public getKeypress(input: string, key: Key): ParsedKey | undefined {
+		return this.inkKeypress
+			? this.inkKeypress.key
+			: this.parseInkKey(input, key);
+	}
+
 	public matchesShortcut(
 		shortcutName: keyof ShortcutConfig,
 		input: string,
 		key: Key,
 	): boolean {
-		const shortcuts = configurationManager.getShortcuts();
-		const shortcut = shortcuts[shortcutName];
-		if (!shortcut) return false;
-
-		// Handle escape key specially
-		if (shortcut.key === 'escape') {
-			return key.escape === true;
+		if (this.inkKeypress) {
+			return this.inkKeypress.actions.has(shortcutName);
 		}
 
-		// Check modifiers
-		if (shortcut.ctrl !== key.ctrl) return false;
-		// Note: ink's Key type doesn't support alt or shift modifiers
-		// so we can't check them here. For now, we'll only support ctrl modifier
-		if (shortcut.alt || shortcut.shift) return false;
-
-		// Check key
-		return input.toLowerCase() === shortcut.key.toLowerCase();
+		// Without the raw input only single keys can be matched
+		const shortcuts = configurationManager.getShortcuts();
+		const shortcut = shortcuts[shortcutName];
+		const parsed = this.parseInkKey(input, key);
+		return (
+			!!shortcut &&
+			!shortcut.leader &&
+			!!parsed &&
+			this.isSameKey(shortcut, parsed)
+		);
 	}
 
 	public getShortcutDisplay(shortcutName: keyof ShortcutConfig): string {
 		const shortcuts = configurationManager.getShortcuts();
 		const shortcut = shortcuts[shortcutName];
 		if (!shortcut) return '';
+		return this.formatShortcut(shortcut);
+	}
 
-		const parts: string[] = [];
-		if (shortcut.ctrl) parts.push('Ctrl');
-		if (shortcut.alt) parts.push('Alt');
-		if (shortcut.shift) parts.push('Shift');
-
-		// Format special keys
-		let keyDisplay = shortcut.key;
-		if (keyDisplay === 'escape') keyDisplay = 'Esc';
-		else if (keyDisplay.length === 1) keyDisplay = keyDisplay.toUpperCase();
-
-		parts.push(keyDisplay);
-		return parts.join('+');
+	/**
+	 * List the footer hints of the actions used in a context, e.g.
+	 * "n New d Delete"
+	 */
+	public getFooterHints(context: ShortcutContext): string {
+		const shortcuts = configurationManager.getShortcuts();
+		return SHORTCUT_ACTIONS.filter(
+			info => info.hint && info.contexts.includes(context),
+		)
+			.map(
+				info => `${this.formatShortcut(shortcuts[info.action])} ${info.hint}`,
+			)
+			.join(' ');
 	}
 
-	public getShortcutCode(shortcut: ShortcutKey): string | null {
-		// Convert shortcut to terminal code for raw stdin handling
-		if (!shortcut.ctrl || shortcut.alt || shortcut.shift) {
-			return null; // Only support Ctrl+key for raw codes
-		}
+	/**
+	 * Format a shortcut for display, e.g. "Ctrl+E", "Alt+Shift+F5" or
+	 * "Ctrl+A n" for a chord
+	 */
+	public formatShortcut(shortcut: ShortcutKey): string {
+		const format = (combo: KeyCombo) => {
+			const parts: string[] = [];
+			if (combo.ctrl) parts.push('Ctrl');
+			if (combo.alt) parts.push('Alt');
+			if (combo.shift) parts.push('Shift');
 
-		const key = shortcut.key.toLowerCase();
-		if (key.length !== 1) return null;
+			// Format special keys; plain keys are shown as typed
+			let keyDisplay = KEY_DISPLAY_NAMES[combo.key] || combo.key;
+			if (
+				/^f\d+$/.test(combo.key) ||
+				(keyDisplay.length === 1 && parts.length > 0)
+			)
+				keyDisplay = keyDisplay.toUpperCase();
 
-		// Convert Ctrl+letter to ASCII control code
-		const code = key.charCodeAt(0) - 96; // 'a' = 1, 'b' = 2, etc.
-		if (code >= 1 && code <= 26) {
-			return String.fromCharCode(code);
-		}
+			parts.push(keyDisplay);
+			return parts.join('+');
+		};
 
-		return null;
+		return shortcut.leader
+			? `${format(shortcut.leader)} ${format(shortcut)}`
+			: format(shortcut);
 	}
 }
 
@@ -0,0 +1,144 @@
+import {describe, it, expect, beforeEach, afterEach} from 'vitest';
+import {execFileSync} from 'child_process';
+import {existsSync, mkdtempSync, realpathSync, rmSync, writeFileSync} from 'fs';
+import {tmpdir} from 'os';
+import {join} from 'path';
+import {WorktreeService} from './worktreeService.js';
+
+const git = (cwd: string, ...args: string[]) =>
+	execFileSync('git', args, {cwd, encoding: 'utf8', stdio: 'pipe'}).trim();
+
+describe('WorktreeService', () => {
+	let baseDir: string;
+	let repoPath: string;
+	let service: WorktreeService;
+
+	beforeEach(() => {
+		baseDir = realpathSync(mkdtempSync(join(tmpdir(), 'ccmanager-test-')));
+		repoPath = join(baseDir, 'repo');
+		execFileSync('git', ['init', '-q', '-b', 'main', repoPath]);
+		git(repoPath, 'config', 'user.name', 'Test');
+		git(repoPath, 'config', 'user.email', 'test@example.com');
+		git(repoPath, 'commit', '-q', '--allow-empty', '-m', 'initial');
+		service = new WorktreeService(repoPath);
+	});
+
+	afterEach(() => {
+		rmSync(baseDir, {recursive: true, force: true});
+	});
+
+	it('should create and delete worktrees with shell characters in the path and branch', () => {
+		const worktreePath = join(baseDir, `my "odd" $HOME dir's`);
+		const branch = `feature/it's-$USER-"quoted"`;
+
+		expect(service.createWorktree(worktreePath, branch)).toEqual({
+			success: true,
+		});
+		expect(existsSync(worktreePath)).toBe(true);
+		expect(git(worktreePath, 'rev-parse', '--abbrev-ref', 'HEAD')).toBe(branch);
+
+		expect(service.deleteWorktree(worktreePath)).toEqual({success: true});
+		expect(existsSync(worktreePath)).toBe(false);
+		expect(git(repoPath, 'branch', '--list', branch)).toBe('');
+	});
+
+	it('should check out an existing branch with special characters', () => {
+		const branch = 'fix/$(touch${IFS}pwned)';
+		git(repoPath, 'branch', branch);
+		const worktreePath = join(baseDir, 'fix worktree');
+
+		expect(service.createWorktree(worktreePath, branch)).toEqual({
+			success: true,
+		});
+		expect(git(worktreePath, 'rev-parse', '--abbrev-ref', 'HEAD')).toBe(branch);
+		expect(existsSync(join(repoPath, 'pwned'))).toBe(false);
+	});
+
+	it('should merge branches with special characters', () => {
+		const branch = 'feature/$HOME-"x"';
+		const worktreePath = join(baseDir, 'feature $HOME');
+		service.createWorktree(worktreePath, branch);
+		git(worktreePath, 'commit', '-q', '--allow-empty', '-m', 'feature work');
+
+		expect(service.mergeWorktree(branch, 'main')).toEqual({success: true});
+		expect(git(repoPath, 'log', '-1', '--format=%s')).toContain(branch);
+	});
+
+	it('should list base refs and resolve commits', () => {
+		git(repoPath, 'branch', 'develop');
+		git(repoPath, 'tag', 'v1.0');
+
+		expect(service.getBaseRefs()).toEqual([
+			{ref: 'refs/heads/develop', name: 'develop', type: 'branch'},
+			{ref: 'refs/heads/main', name: 'main', type: 'branch'},
+			{ref: 'refs/tags/v1.0', name: 'v1.0', type: 'tag'},
+		]);
+
+		const sha = git(repoPath, 'rev-parse', 'HEAD');
+		expect(service.resolveCommit(sha.slice(0, 7))).toBe(sha);
+		expect(service.resolveCommit('0000000')).toBeNull();
+	});
+
+	it('should create a new branch from a base ref', () => {
+		const base = git(repoPath, 'rev-parse', 'HEAD');
+		git(repoPath, 'commit', '-q', '--allow-empty', '-m', 'second');
+		const worktreePath = join(baseDir, 'from-sha');
+
+		expect(service.createWorktree(worktreePath, 'from-sha', base)).toEqual({
+			success: true,
+		});
+		expect(git(worktreePath, 'rev-parse', 'HEAD')).toBe(base);
+	});
+
+	it('should track a remote branch after fetching it', async () => {
+		const remotePath = join(baseDir, 'origin.git');
+		execFileSync('git', ['clone', '-q', '--bare', repoPath, remotePath]);
+		git(repoPath, 'remote', 'add', 'origin', remotePath);
+		git(remotePath, 'branch', 'shared');
+
+		expect(service.getBaseRefs().some(ref => ref.type === 'remote')).toBe(
+			false,
+		);
+		expect(await service.fetchRemotes()).toEqual({success: true});
+		expect(service.getBaseRefs()).toContainEqual({
+			ref: 'refs/remotes/origin/shared',
+			name: 'origin/shared',
+			type: 'remote',
+		});
+
+		const worktreePath = join(baseDir, 'shared');
+		expect(service.branchExists('shared')).toBe(false);
+		expect(
+			service.createWorktree(
+				worktreePath,
+				'shared',
+				'refs/remotes/origin/shared',
+			),
+		).toEqual({success: true});
+		expect(
+			git(worktreePath, 'rev-parse', '--abbrev-ref', 'shared@{upstream}'),
+		).toBe('origin/shared');
+	});
+
+	it('should report the git status of a worktree', async () => {
+		writeFileSync(join(repoPath, 'new.txt'), 'new');
+		expect(await service.getWorktreeStatus(repoPath)).toEqual({
+			dirtyFiles: 1,
+			lastCommitAt: expect.any(Date),
+		});
+
+		const worktreePath = join(baseDir, 'tracking');
+		git(repoPath, 'branch', '--track', 'tracking', 'main');
+		service.createWorktree(worktreePath, 'tracking');
+		git(worktreePath, 'commit', '-q', '--allow-empty', '-m', 'ahead');
+
+		expect(await service.getWorktreeStatus(worktreePath)).toMatchObject({
+			dirtyFiles: 0,
+			ahead: 1,
+			behind: 0,
+		});
+		expect(await service.getWorktreeStatus(join(baseDir, 'missing'))).toBe(
+			null,
+		);
+	});
+});
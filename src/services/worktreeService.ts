@@ -1,7 +1,10 @@
-import {execSync} from 'child_process';
+import {execFile, execFileSync, execSync} from 'child_process';
 import {existsSync} from 'fs';
 import path from 'path';
-import {Worktree} from '../types/index.js';
+import {promisify} from 'util';
+import {BaseRef, Worktree, WorktreeStatus} from '../types/index.js';
+
+const execFileAsync = promisify(execFile);
 
 export class WorktreeService {
 	private rootPath: string;
@@ -83,29 +86,150 @@ export class WorktreeService {
 		return existsSync(path.join(this.rootPath, '.git'));
 	}
 
+	branchExists(branch: string): boolean {
+		try {
+			execFileSync('git', ['rev-parse', '--verify', `refs/heads/${branch}`], {
+				cwd: this.rootPath,
+				encoding: 'utf8',
+				stdio: 'pipe',
+			});
+			return true;
+		} catch {
+			return false;
+		}
+	}
+
+	/**
+	 * List the local branches, remote branches and tags a new branch can start
+	 * from
+	 */
+	getBaseRefs(): BaseRef[] {
+		try {
+			const output = execFileSync(
+				'git',
+				[
+					'for-each-ref',
+					'--format=%(refname)',
+					'refs/heads',
+					'refs/remotes',
+					'refs/tags',
+				],
+				{cwd: this.rootPath, encoding: 'utf8', stdio: 'pipe'},
+			);
+
+			return output
+				.split('\n')
+				.filter(ref => ref && !ref.endsWith('/HEAD'))
+				.map(ref => {
+					if (ref.startsWith('refs/heads/')) {
+						return {ref, name: ref.slice(11), type: 'branch' as const};
+					}
+					if (ref.startsWith('refs/remotes/')) {
+						return {ref, name: ref.slice(13), type: 'remote' as const};
+					}
+					return {ref, name: ref.slice(10), type: 'tag' as const};
+				});
+		} catch {
+			return [];
+		}
+	}
+
+	/**
+	 * Resolve a commit SHA (or any revision) to the full SHA of a commit
+	 */
+	resolveCommit(revision: string): string | null {
+		try {
+			return execFileSync(
+				'git',
+				['rev-parse', '--verify', '--quiet', `${revision}^{commit}`],
+				{cwd: this.rootPath, encoding: 'utf8', stdio: 'pipe'},
+			).trim();
+		} catch {
+			return null;
+		}
+	}
+
+	/**
+	 * Fetch all remotes so their latest branches can be used as a base
+	 */
+	async fetchRemotes(): Promise<{success: boolean; error?: string}> {
+		try {
+			await execFileAsync('git', ['fetch', '--all', '--prune', '--quiet'], {
+				cwd: this.rootPath,
+			});
+			return {success: true};
+		} catch (error) {
+			return {
+				success: false,
+				error:
+					error instanceof Error ? error.message : 'Failed to fetch remotes',
+			};
+		}
+	}
+
+	/**
+	 * Read the git status of a worktree for the menu. Runs asynchronously so
+	 * the menu keeps rendering while git works; returns null if git fails.
+	 */
+	async getWorktreeStatus(
+		worktreePath: string,
+	): Promise<WorktreeStatus | null> {
+		try {
+			const [status, lastCommit] = await Promise.all([
+				execFileAsync('git', ['status', '--porcelain=v2', '--branch'], {
+					cwd: worktreePath,
+				}),
+				// Fails on a branch without commits
+				execFileAsync('git', ['log', '-1', '--format=%ct'], {
+					cwd: worktreePath,
+				}).catch(() => ({stdout: ''})),
+			]);
+
+			const result: WorktreeStatus = {dirtyFiles: 0};
+			for (const line of status.stdout.split('\n')) {
+				if (line.startsWith('# branch.ab ')) {
+					const [, ahead, behind] = line.match(/\+(\d+) -(\d+)/) || [];
+					result.ahead = Number(ahead);
+					result.behind = Number(behind);
+				} else if (line && !line.startsWith('#')) {
+					result.dirtyFiles++;
+				}
+			}
+
+			const timestamp = Number(lastCommit.stdout.trim());
+			if (timestamp) {
+				result.lastCommitAt = new Date(timestamp * 1000);
+			}
+			return result;
+		} catch {
+			return null;
+		}
+	}
+
+	/**
+	 * Create a worktree for a branch. A missing branch is created from the
+	 * base ref (HEAD by default) and tracks it when the base is a remote branch.
+	 */
 	createWorktree(
 		worktreePath: string,
 		branch: string,
+		baseRef?: string,
 	): {success: boolean; error?: string} {
 		try {
-			// Check if branch exists
-			let branchExists = false;
-			try {
-				execSync(`git rev-parse --verify ${branch}`, {
-					cwd: this.rootPath,
-					encoding: 'utf8',
-				});
-				branchExists = true;
-			} catch {
-				// Branch doesn't exist
-			}
-
-			// Create the worktree
-			const command = branchExists
-				? `git worktree add "${worktreePath}" "${branch}"`
-				: `git worktree add -b "${branch}" "${worktreePath}"`;
+			// Create the worktree, passing paths and branch names as plain argv
+			const args = this.branchExists(branch)
+				? ['worktree', 'add', worktreePath, branch]
+				: [
+						'worktree',
+						'add',
+						...(baseRef?.startsWith('refs/remotes/') ? ['--track'] : []),
+						'-b',
+						branch,
+						worktreePath,
+						...(baseRef ? [baseRef] : []),
+					];
 
-			execSync(command, {
+			execFileSync('git', args, {
 				cwd: this.rootPath,
 				encoding: 'utf8',
 			});
@@ -141,7 +265,7 @@ export class WorktreeService {
 			}
 
 			// Remove the worktree
-			execSync(`git worktree remove "${worktreePath}" --force`, {
+			execFileSync('git', ['worktree', 'remove', worktreePath, '--force'], {
 				cwd: this.rootPath,
 				encoding: 'utf8',
 			});
@@ -149,7 +273,7 @@ export class WorktreeService {
 			// Delete the branch if it exists
 			const branchName = worktree.branch.replace('refs/heads/', '');
 			try {
-				execSync(`git branch -D "${branchName}"`, {
+				execFileSync('git', ['branch', '-D', branchName], {
 					cwd: this.rootPath,
 					encoding: 'utf8',
 				});
@@ -202,19 +326,19 @@ export class WorktreeService {
 				}
 
 				// Rebase source branch onto target branch
-				execSync(`git rebase "${targetBranch}"`, {
+				execFileSync('git', ['rebase', targetBranch], {
 					cwd: sourceWorktree.path,
 					encoding: 'utf8',
 				});
 
 				// After rebase, merge the rebased source branch into target branch
-				execSync(`git merge --ff-only "${sourceBranch}"`, {
+				execFileSync('git', ['merge', '--ff-only', sourceBranch], {
 					cwd: targetWorktree.path,
 					encoding: 'utf8',
 				});
 			} else {
 				// Regular merge
-				execSync(`git merge --no-ff "${sourceBranch}"`, {
+				execFileSync('git', ['merge', '--no-ff', sourceBranch], {
 					cwd: targetWorktree.path,
 					encoding: 'utf8',
 				});
@@ -0,0 +1,147 @@
+import {describe, it, expect, afterEach, vi} from 'vitest';
+import {execFile} from 'child_process';
+import {existsSync} from 'fs';
+import {ZellijService} from './zellijService.js';
+import {parseShellArgs} from '../utils/shellArgs.js';
+
+vi.mock('child_process', async importOriginal => ({
+	...(await importOriginal<typeof import('child_process')>()),
+	execFile: vi.fn(),
+}));
+
+describe('ZellijService.buildCapturedCommand', () => {
+	const worktreePath = `/work/my "odd" $HOME repo's`;
+
+	afterEach(() => {
+		ZellijService.removeScreenCapture(worktreePath);
+		vi.restoreAllMocks();
+	});
+
+	it('should keep the agent argv intact when capturing is unavailable', () => {
+		vi.spyOn(ZellijService, 'isScreenCaptureAvailable').mockReturnValue(false);
+
+		expect(
+			ZellijService.buildCapturedCommand(worktreePath, 'claude', [
+				'--add-dir',
+				worktreePath,
+			]),
+		).toEqual(['claude', '--add-dir', worktreePath]);
+	});
+
+	it.runIf(process.platform === 'linux')(
+		'should quote the agent command given to script',
+		() => {
+			vi.spyOn(ZellijService, 'isScreenCaptureAvailable').mockReturnValue(true);
+			const args = ['--append-system-prompt', `say "hi" to $USER`, ''];
+
+			const argv = ZellijService.buildCapturedCommand(
+				worktreePath,
+				'claude',
+				args,
+			);
+
+			expect(argv.slice(0, 5)).toEqual(['script', '-q', '-a', '-f', '-c']);
+			expect(parseShellArgs(argv[5]!)).toEqual(['claude', ...args]);
+			expect(argv[6]).toBe(ZellijService.getScreenCapturePath(worktreePath));
+		},
+	);
+});
+
+describe('ZellijService.createWorktreeTab', () => {
+	afterEach(() => {
+		vi.unstubAllEnvs();
+		vi.restoreAllMocks();
+	});
+
+	it('should remove the generated layout even when the tab is not created', async () => {
+		vi.stubEnv('ZELLIJ', '0');
+		vi.spyOn(ZellijService, 'isZellijAvailable').mockReturnValue(true);
+		vi.spyOn(ZellijService, 'findLayoutTemplate').mockReturnValue(undefined);
+		vi.spyOn(
+			ZellijService as unknown as {resolveAgentCommand(): string[]},
+			'resolveAgentCommand',
+		).mockReturnValue(['claude']);
+		vi.spyOn(console, 'error').mockImplementation(() => {});
+
+		let layoutPath = '';
+		let layoutExisted = false;
+		vi.mocked(execFile).mockImplementation(((
+			_file: string,
+			args: string[],
+			callback: (error: Error | null) => void,
+		) => {
+			layoutPath = args[args.indexOf('--layout') + 1]!;
+			layoutExisted = existsSync(layoutPath);
+			callback(new Error('no tab'));
+		}) as unknown as typeof execFile);
+
+		const result = await ZellijService.createWorktreeTab(
+			'/repo-feature-login',
+			'feature/login',
+		);
+
+		expect(result).toEqual({success: false, error: 'no tab'});
+		expect(layoutExisted).toBe(true);
+		expect(existsSync(layoutPath)).toBe(false);
+	});
+});
+
+describe('ZellijService.sendPromptToWorktree', () => {
+	afterEach(() => {
+		vi.unstubAllEnvs();
+		vi.restoreAllMocks();
+	});
+
+	it('should write the prompt as text and give the focus back', async () => {
+		vi.stubEnv('ZELLIJ', '0');
+		vi.spyOn(ZellijService, 'getPaneIdentity').mockReturnValue({
+			tabName: 'Tab #1',
+			paneName: 'feature-login',
+		});
+
+		// Two panes in one tab, the menu pane is focused
+		let focusedPane = 0;
+		const calls: string[][] = [];
+		vi.mocked(execFile).mockImplementation(((
+			_file: string,
+			args: string[],
+			callback: (error: Error | null, result: object) => void,
+		) => {
+			calls.push(args);
+			if (args[1] === 'focus-next-pane') {
+				focusedPane = 1 - focusedPane;
+			}
+			const focus = (index: number) =>
+				focusedPane === index ? ' focus=true' : '';
+			const stdout =
+				args[1] === 'dump-layout'
+					? `layout {
+    tab name="Tab #1" focus=true {
+        pane command="ccmanager" cwd="/repo"${focus(0)}
+        pane command="claude" cwd="/repo-feature-login" name="feature-login"${focus(1)}
+    }
+}`
+					: '';
+			callback(null, {stdout, stderr: ''});
+		}) as unknown as typeof execFile);
+
+		const result = await ZellijService.sendPromptToWorktree(
+			'/repo-feature-login',
+			'--help me',
+		);
+
+		expect(result).toEqual({success: true});
+		const actions = calls
+			.map(args => args.slice(1))
+			.filter(args => args[0] !== 'dump-layout');
+		expect(actions).toEqual([
+			['focus-next-pane'],
+			['write', '27', '91', '50', '48', '48', '126'],
+			['write-chars', '--', '--help me'],
+			['write', '27', '91', '50', '48', '49', '126'],
+			['write', '13'],
+			['focus-next-pane'],
+		]);
+		expect(focusedPane).toBe(0);
+	});
+});
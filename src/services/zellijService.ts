@@ -1,16 +1,71 @@
-import {exec, execSync} from 'child_process';
+import {execFile, execFileSync} from 'child_process';
 import {promisify} from 'util';
-import {resolve} from 'path';
+import {basename, dirname, join, resolve} from 'path';
+import {homedir, tmpdir} from 'os';
+import {createHash} from 'crypto';
+import {existsSync, mkdirSync, readFileSync, rmSync, writeFileSync} from 'fs';
+import {CommandType, ZellijSessionMode} from '../types/index.js';
+import {agentRegistry} from './agentRegistry.js';
+import {configurationManager} from './configurationManager.js';
+import {WorktreeService} from './worktreeService.js';
+import {
+	LayoutPane,
+	generateAgentPane,
+	generateWorktreeLayout,
+	parseLayoutPanes,
+	renderLayoutTemplate,
+} from '../utils/zellijLayout.js';
+import {formatShellCommand, parseShellArgs} from '../utils/shellArgs.js';
+import {
+	BRACKETED_PASTE_END,
+	BRACKETED_PASTE_START,
+	PROMPT_SUBMIT_DELAY_MS,
+} from '../utils/initialPrompt.js';
+
+const execFileAsync = promisify(execFile);
+
+export interface ZellijPaneInfo {
+	name: string;
+	id: string;
+	cwd: string;
+	command: string;
+	commandType?: CommandType;
+	tabName: string;
+}
+
+export interface PaneIdentity {
+	tabName: string;
+	paneName: string; // Empty for panes identified by working directory
+	kind?: ZellijSessionMode; // 'tab' when the whole tab belongs to the worktree
+}
+
+export interface LayoutTemplateSource {
+	template: string; // Inline KDL or a path to a .kdl file
+	baseDir: string; // Directory relative template paths are resolved from
+}
 
-const execAsync = promisify(exec);
+// Layout template committed in a repository
+const PROJECT_LAYOUT_FILE = join('.ccmanager', 'layout.kdl');
+
+// Panes have no id in the layout, so the same pane is recognized by what it
+// runs and where
+const isSamePane = (a: LayoutPane, b: LayoutPane) =>
+	a.tabName === b.tabName &&
+	a.floating === b.floating &&
+	a.name === b.name &&
+	a.command === b.command &&
+	a.cwd === b.cwd &&
+	a.args.join('\0') === b.args.join('\0');
 
 export class ZellijService {
+	private static screenCaptureAvailable?: boolean;
+
 	/**
 	 * Check if Zellij is available
 	 */
 	static isZellijAvailable(): boolean {
 		try {
-			execSync('which zellij', {stdio: 'ignore'});
+			execFileSync('which', ['zellij'], {stdio: 'ignore'});
 			return true;
 		} catch {
 			return false;
@@ -25,12 +80,27 @@ export class ZellijService {
 	}
 
 	/**
-	 * Create a new Zellij pane for the worktree
+	 * Open the worktree's agent in Zellij using the configured session mode.
+	 * Projects with a layout template always open in a tab built from it.
+	 */
+	static async openWorktreeSession(
+		worktreePath: string,
+		branchName: string,
+		commandType: CommandType = 'claude',
+	): Promise<{success: boolean; error?: string}> {
+		const {mode} = configurationManager.getZellijConfig();
+		return mode === 'tab' || this.findLayoutTemplate(worktreePath)
+			? this.createWorktreeTab(worktreePath, branchName, commandType)
+			: this.createWorktreePane(worktreePath, branchName, commandType);
+	}
+
+	/**
+	 * Create a new Zellij pane in the current tab for the worktree
 	 */
 	static async createWorktreePane(
 		worktreePath: string,
 		branchName: string,
-		commandType: 'claude' | 'codex' = 'claude',
+		commandType: CommandType = 'claude',
 	): Promise<{success: boolean; error?: string}> {
 		if (!this.isZellijAvailable()) {
 			return {
@@ -51,44 +121,39 @@ export class ZellijService {
 			// Create a descriptive name for the pane
 			const paneName = `${branchName.replace(/[^a-zA-Z0-9-_]/g, '-')}`;
 
-			// Get command and arguments based on commandType
-			let command: string;
-			let args: string[];
+			// Convert to absolute path if needed
+			const absoluteWorktreePath = resolve(worktreePath);
 
-			if (commandType === 'codex') {
-				command = 'codex';
-				args = process.env['CCMANAGER_CODEX_ARGS']
-					? process.env['CCMANAGER_CODEX_ARGS'].split(' ')
-					: [];
-			} else {
-				command = 'claude';
-				args = process.env['CCMANAGER_CLAUDE_ARGS']
-					? process.env['CCMANAGER_CLAUDE_ARGS'].split(' ')
-					: [];
-			}
+			// Build the agent command, recording output for state detection
+			const agentCommand = this.resolveAgentCommand(
+				absoluteWorktreePath,
+				commandType,
+			);
 
-			// Build the full command
-			const fullCommand = [command, ...args].join(' ');
+			// Debug logging
+			console.log(`Creating Zellij pane: ${paneName} (${commandType})`);
 
-			// Create new pane with the command
-			const zellijCommand = [
-				'zellij',
+			// The pane runs the agent argv directly, no shell parses the path,
+			// branch name or arguments
+			await execFileAsync('zellij', [
 				'action',
 				'new-pane',
 				'--name',
-				`"${paneName}"`,
+				paneName,
 				'--cwd',
-				`"${worktreePath}"`,
+				absoluteWorktreePath,
 				'--',
-				'bash',
-				'-c',
-				`"echo 'Starting ${commandType} in worktree: ${branchName}'; echo 'Path: ${worktreePath}'; echo; ${fullCommand}"`,
-			];
+				...agentCommand,
+			]);
 
-			await execAsync(zellijCommand.join(' '));
+			// Remember the pane so it can be found again by name
+			await this.recordCreatedPane(absoluteWorktreePath, paneName);
+
+			console.log(`✅ Successfully created Zellij pane for ${commandType}`);
 
 			return {success: true};
 		} catch (error) {
+			console.error('❌ Zellij pane creation failed:', error);
 			return {
 				success: false,
 				error:
@@ -100,12 +165,14 @@ export class ZellijService {
 	}
 
 	/**
-	 * Create a new Zellij tab for the worktree
+	 * Create a new Zellij tab for the worktree from the project's layout
+	 * template, or from a generated layout with the agent pane and the
+	 * configured extra panes
 	 */
 	static async createWorktreeTab(
 		worktreePath: string,
 		branchName: string,
-		commandType: 'claude' | 'codex' = 'claude',
+		commandType: CommandType = 'claude',
 	): Promise<{success: boolean; error?: string}> {
 		if (!this.isZellijAvailable()) {
 			return {
@@ -123,82 +190,164 @@ export class ZellijService {
 		}
 
 		try {
-			// Create a descriptive name for the tab
+			// The tab and its agent pane share the branch-based name
 			const tabName = `${branchName.replace(/[^a-zA-Z0-9-_]/g, '-')}`;
-
-			// Convert to absolute path if needed
 			const absoluteWorktreePath = resolve(worktreePath);
 
-			// Get command and arguments based on commandType
-			let command: string;
-			let args: string[];
-
-			if (commandType === 'codex') {
-				command = 'codex';
-				args = process.env['CCMANAGER_CODEX_ARGS']
-					? process.env['CCMANAGER_CODEX_ARGS'].split(' ')
-					: [];
-			} else {
-				command = 'claude';
-				args = process.env['CCMANAGER_CLAUDE_ARGS']
-					? process.env['CCMANAGER_CLAUDE_ARGS'].split(' ')
-					: [];
-			}
-
-			// Build the full command
-			const fullCommand = [command, ...args].join(' ');
+			const agentCommand = this.resolveAgentCommand(
+				absoluteWorktreePath,
+				commandType,
+			);
+			const templateSource = this.findLayoutTemplate(absoluteWorktreePath);
+
+			const layout = templateSource
+				? renderLayoutTemplate(this.loadLayoutTemplate(templateSource), {
+						worktree: absoluteWorktreePath,
+						branch: branchName,
+						tabName,
+						agentCommand: formatShellCommand(agentCommand),
+						agentPane: generateAgentPane(
+							tabName,
+							absoluteWorktreePath,
+							agentCommand,
+						),
+					})
+				: generateWorktreeLayout({
+						cwd: absoluteWorktreePath,
+						agentPaneName: tabName,
+						agentCommand,
+						extraPanes: configurationManager.getZellijConfig().extraPanes,
+						shell: process.env['SHELL'],
+					});
+
+			const layoutPath = join(tmpdir(), 'ccmanager', `layout-${tabName}.kdl`);
+			mkdirSync(dirname(layoutPath), {recursive: true});
+			writeFileSync(layoutPath, layout);
 
-			// Check if command is available
 			try {
-				execSync(`which ${command}`, {stdio: 'ignore'});
-			} catch {
-				throw new Error(`Command '${command}' not found in PATH`);
+				await execFileAsync('zellij', [
+					'action',
+					'new-tab',
+					'--layout',
+					layoutPath,
+					'--name',
+					tabName,
+					'--cwd',
+					absoluteWorktreePath,
+				]);
+			} finally {
+				// Zellij has read the layout once the tab is created
+				rmSync(layoutPath, {force: true});
 			}
 
-			// Debug logging
-			console.log(`Creating Zellij pane: ${tabName} (${commandType})`);
-
-			const createPaneCommand = [
-				'zellij',
-				'action',
-				'new-pane',
-				'--name',
+			// Remember the tab so it can be found again by name
+			this.recordPaneIdentity(absoluteWorktreePath, {
 				tabName,
-				'--cwd',
-				absoluteWorktreePath,
-			];
-
-			// Step 1: Create new pane
-			await execAsync(createPaneCommand.join(' '));
-
-			// Step 2: Wait for pane to be ready
-			await new Promise(resolve => setTimeout(resolve, 300));
-
-			// Step 3: Send command sequence
-			const commands = [`cd "${absoluteWorktreePath}"`, `${fullCommand}`];
-
-			// Execute commands in sequence
-			for (const command of commands) {
-				await execAsync(`zellij action write-chars "${command}"`);
-				await execAsync('zellij action write 13');
-				await new Promise(resolve => setTimeout(resolve, 100));
-			}
-
-			console.log(`✅ Successfully created Zellij pane for ${commandType}`);
+				paneName: tabName,
+				kind: 'tab',
+			});
 
 			return {success: true};
 		} catch (error) {
-			console.error('❌ Zellij pane creation failed:', error);
+			console.error('❌ Zellij tab creation failed:', error);
 			return {
 				success: false,
 				error:
 					error instanceof Error
 						? error.message
-						: 'Failed to create Zellij pane',
+						: 'Failed to create Zellij tab',
 			};
 		}
 	}
 
+	/**
+	 * Build the argv that starts a worktree's agent in a pane, with its
+	 * extra environment and output capture. Throws if the agent binary is
+	 * not in PATH.
+	 */
+	private static resolveAgentCommand(
+		worktreePath: string,
+		commandType: CommandType,
+	): string[] {
+		const {command, args, env} = agentRegistry.getLaunchCommand(
+			commandType,
+			worktreePath,
+		);
+
+		// Check if command is available
+		try {
+			execFileSync('which', [command], {stdio: 'ignore'});
+		} catch {
+			throw new Error(`Command '${command}' not found in PATH`);
+		}
+
+		// Zellij panes cannot be given an environment, so set it through env
+		const variables = Object.entries(env).map(
+			([name, value]) => `${name}=${value}`,
+		);
+		return variables.length > 0
+			? this.buildCapturedCommand(worktreePath, 'env', [
+					...variables,
+					command,
+					...args,
+				])
+			: this.buildCapturedCommand(worktreePath, command, args);
+	}
+
+	/**
+	 * Find the layout template of a worktree: `.ccmanager/layout.kdl` in the
+	 * worktree, else the template configured for its repository, else the
+	 * default template from config.json
+	 */
+	static findLayoutTemplate(
+		worktreePath: string,
+	): LayoutTemplateSource | undefined {
+		const absoluteWorktreePath = resolve(worktreePath);
+		const projectFile = join(absoluteWorktreePath, PROJECT_LAYOUT_FILE);
+		if (existsSync(projectFile)) {
+			return {template: projectFile, baseDir: absoluteWorktreePath};
+		}
+
+		const layouts = configurationManager.getLayoutsConfig();
+		const repositoryRoot =
+			new WorktreeService(absoluteWorktreePath)
+				.getWorktrees()
+				.find(worktree => worktree.isMainWorktree)?.path ||
+			absoluteWorktreePath;
+
+		const projectTemplate = Object.entries(layouts.projects || {}).find(
+			([projectPath]) =>
+				resolve(this.expandHome(projectPath)) === resolve(repositoryRoot),
+		)?.[1];
+		const template = projectTemplate || layouts.default;
+
+		return template ? {template, baseDir: repositoryRoot} : undefined;
+	}
+
+	/**
+	 * Read a layout template, loading it from disk when it is a path to a
+	 * .kdl file
+	 */
+	private static loadLayoutTemplate(source: LayoutTemplateSource): string {
+		const template = source.template.trim();
+		if (template.includes('\n') || !template.endsWith('.kdl')) {
+			return source.template;
+		}
+
+		const templatePath = resolve(source.baseDir, this.expandHome(template));
+		try {
+			return readFileSync(templatePath, 'utf8');
+		} catch {
+			throw new Error(`Layout template not found: ${templatePath}`);
+		}
+	}
+
+	private static expandHome(path: string): string {
+		return path === '~' || path.startsWith('~/')
+			? join(homedir(), path.slice(1))
+			: path;
+	}
+
 	/**
 	 * Get the current Zellij session name
 	 */
@@ -215,7 +364,10 @@ export class ZellijService {
 		}
 
 		try {
-			const {stdout} = await execAsync('zellij action query-tab-names');
+			const {stdout} = await execFileAsync('zellij', [
+				'action',
+				'query-tab-names',
+			]);
 			return stdout.includes(paneName);
 		} catch {
 			return false;
@@ -223,122 +375,86 @@ export class ZellijService {
 	}
 
 	/**
-	 * Check if a specific pane is active by monitoring process activity
+	 * Get the temp file that captures the output of a worktree's agent pane
 	 */
-	static async isPaneActive(
-		paneName: string,
-		commandType: 'claude' | 'codex',
-	): Promise<boolean> {
-		if (!this.isInsideZellij()) {
-			return false;
-		}
-
-		try {
-			// Get process information with CPU usage and start time
-			const {stdout} = await execAsync(
-				`ps -eo pid,ppid,pcpu,etime,comm,args | grep -v grep | grep "${commandType}"`,
-			);
-
-			if (!stdout.trim()) {
-				return false; // No process found
-			}
-
-			const processes = stdout.trim().split('\n');
-
-			for (const process of processes) {
-				const fields = process.trim().split(/\s+/);
-				if (fields.length >= 4 && fields[2] && fields[3]) {
-					const cpuUsage = parseFloat(fields[2]);
-					const elapsedTime = fields[3];
-
-					// Consider active if:
-					// 1. CPU usage > 0.1% (actively processing)
-					// 2. Or recently started (less than 30 seconds old and CPU > 0)
-					if (cpuUsage > 0.1) {
-						return true;
-					}
-
-					// Check if recently started and has some CPU usage
-					if (cpuUsage > 0 && this.isRecentlyStarted(elapsedTime)) {
-						return true;
-					}
-				}
-			}
-
-			// If processes exist but no significant CPU usage, check if waiting for input
-			return this.isWaitingForInput(commandType);
-		} catch (_error) {
-			// Fallback to simpler process check
-			return this.isProcessRunning(commandType);
-		}
+	static getScreenCapturePath(worktreePath: string): string {
+		const hash = createHash('sha1')
+			.update(resolve(worktreePath))
+			.digest('hex')
+			.slice(0, 8);
+		return join(
+			tmpdir(),
+			'ccmanager',
+			`${this.getBranchNameFromPath(worktreePath)}-${hash}.log`,
+		);
 	}
 
 	/**
-	 * Check if process was recently started (within 30 seconds)
+	 * Check if `script` is available to capture pane output. Without it the
+	 * state of Zellij panes cannot be detected.
 	 */
-	private static isRecentlyStarted(elapsedTime: string): boolean {
-		try {
-			// Parse elapsed time format like "00:30" or "1:30" or "1-00:30:00"
-			const parts = elapsedTime.split('-');
-			const timePart = parts[parts.length - 1];
-			if (!timePart) return false;
-
-			const timeComponents = timePart.split(':');
-
-			if (
-				timeComponents.length >= 2 &&
-				timeComponents[0] &&
-				timeComponents[1]
-			) {
-				const minutes = parseInt(timeComponents[0]);
-				const seconds = parseInt(timeComponents[1]);
-				const totalSeconds = minutes * 60 + seconds;
-
-				return totalSeconds < 30; // Recently started if less than 30 seconds
+	static isScreenCaptureAvailable(): boolean {
+		if (this.screenCaptureAvailable === undefined) {
+			try {
+				if (process.platform === 'win32') {
+					throw new Error('script is not available on Windows');
+				}
+				execFileSync('which', ['script'], {stdio: 'ignore'});
+				this.screenCaptureAvailable = true;
+			} catch {
+				this.screenCaptureAvailable = false;
 			}
-		} catch {
-			// If parsing fails, assume not recent
 		}
-		return false;
+		return this.screenCaptureAvailable;
 	}
 
 	/**
-	 * Check if the command is waiting for input (more sophisticated check)
+	 * Wrap an agent command with `script` so its output is recorded into the
+	 * worktree's capture file. Returns the command unchanged if capturing is
+	 * not possible.
 	 */
-	private static async isWaitingForInput(
-		commandType: 'claude' | 'codex',
-	): Promise<boolean> {
-		try {
-			// Use lsof to check if the process has open stdin/stdout
-			const {stdout} = await execAsync(
-				`lsof -c ${commandType} 2>/dev/null | grep -E "(stdin|stdout|pts)" | wc -l`,
-			);
-			const openFiles = parseInt(stdout.trim());
+	static buildCapturedCommand(
+		worktreePath: string,
+		command: string,
+		args: string[],
+	): string[] {
+		if (!this.isScreenCaptureAvailable()) {
+			return [command, ...args];
+		}
 
-			// If process has open terminal files, it's likely waiting for input
-			return openFiles > 0;
+		const capturePath = this.getScreenCapturePath(worktreePath);
+		try {
+			mkdirSync(dirname(capturePath), {recursive: true});
+			// Start from an empty capture for the new agent process
+			writeFileSync(capturePath, '');
 		} catch {
-			return false;
+			return [command, ...args];
 		}
+
+		// BSD script (macOS) takes the command as argv, util-linux needs -c
+		if (process.platform === 'darwin') {
+			return ['script', '-q', '-a', '-F', capturePath, command, ...args];
+		}
+		// Append, so the capture can be emptied while the agent runs
+		return [
+			'script',
+			'-q',
+			'-a',
+			'-f',
+			'-c',
+			formatShellCommand([command, ...args]),
+			capturePath,
+		];
 	}
 
 	/**
-	 * Check if process is running
+	 * Remove the capture file of a worktree's agent pane
 	 */
-	static async isProcessRunning(
-		commandType: 'claude' | 'codex',
-	): Promise<boolean> {
+	static removeScreenCapture(worktreePath: string): void {
 		try {
-			const {stdout} = await execAsync(
-				`ps aux | grep -v grep | grep "${commandType}"`,
-			);
-			const processes = stdout
-				.trim()
-				.split('\n')
-				.filter(line => line.length > 0);
-			return processes.length > 0;
+			rmSync(this.getScreenCapturePath(worktreePath), {force: true});
 		} catch {
-			return false;
+			// Capture file might not exist
 		}
 	}
 
@@ -353,85 +469,42 @@ export class ZellijService {
 	}
 
 	/**
-	 * Get all existing Zellij panes with their details
+	 * Parse the current Zellij layout into terminal panes
 	 */
-	static async getExistingPanes(): Promise<
-		Array<{
-			name: string;
-			id: string;
-			cwd: string;
-			command: string;
-			commandType?: 'claude' | 'codex';
-			focusIndex: number; // Add focus index for accurate navigation
-		}>
-	> {
+	private static async getLayoutPanes(): Promise<LayoutPane[]> {
+		const {stdout} = await execFileAsync('zellij', ['action', 'dump-layout']);
+		return parseLayoutPanes(stdout);
+	}
+
+	/**
+	 * Get all existing Zellij panes running an agent
+	 */
+	static async getExistingPanes(): Promise<ZellijPaneInfo[]> {
 		if (!this.isInsideZellij()) {
 			return [];
 		}
 
 		try {
-			// Get pane information using zellij action dump-layout
-			const {stdout} = await execAsync('zellij action dump-layout');
-			const panes = [];
-
-			// Parse the layout output to extract pane information
-			const lines = stdout.split('\n');
-			let currentCwd = '';
-			let focusIndex = 0; // Track actual focus index (all command panes)
-
-			for (let i = 0; i < lines.length; i++) {
-				const line = lines[i]?.trim();
-				if (!line) continue;
-
-				// Extract current working directory from cwd lines
-				if (line.startsWith('cwd ')) {
-					const cwdMatch = line.match(/cwd "([^"]+)"/);
-					if (cwdMatch && cwdMatch[1]) {
-						currentCwd = cwdMatch[1];
-					}
-				}
-
-				// Look for pane definitions with commands
-				if (line.startsWith('pane command=')) {
-					const commandMatch = line.match(/pane command="([^"]+)"/);
-					const cwdMatch = line.match(/cwd="([^"]+)"/);
-
-					if (commandMatch && commandMatch[1]) {
-						const command = commandMatch[1];
-						let cwd = cwdMatch && cwdMatch[1] ? cwdMatch[1] : currentCwd;
-
-						// Convert relative paths to absolute paths
-						if (cwd && !cwd.startsWith('/')) {
-							cwd = resolve(currentCwd, cwd);
-						}
-
-						// Determine command type
-						let commandType: 'claude' | 'codex' | undefined;
-						if (command === 'claude') {
-							commandType = 'claude';
-						} else if (command === 'codex') {
-							commandType = 'codex';
-						}
-
-						// Store ALL command panes with their focus index, but only return claude/codex
-						if (commandType && cwd) {
-							const id: string = `pane-${panes.length + 1}`;
-							const name = this.getBranchNameFromPath(cwd);
-
-							panes.push({
-								name,
-								id,
-								cwd,
-								command,
-								commandType,
-								focusIndex, // Store the actual focus index
-							});
-						}
-
-						// Increment focus index for ALL command panes (including npm, etc.)
-						focusIndex++;
-					}
-				}
+			const panes: ZellijPaneInfo[] = [];
+
+			for (const pane of await this.getLayoutPanes()) {
+				if (!pane.command || !pane.cwd) continue;
+
+				// Determine command type from the registered agents
+				const commandType = this.findAgentForPaneCommand(
+					pane.command,
+					pane.args,
+				);
+				if (!commandType) continue;
+
+				panes.push({
+					name: pane.name || this.getBranchNameFromPath(pane.cwd),
+					id: `pane-${panes.length + 1}`,
+					cwd: pane.cwd,
+					command: pane.command,
+					commandType,
+					tabName: pane.tabName,
+				});
 			}
 
 			return panes;
@@ -442,29 +515,66 @@ export class ZellijService {
 		}
 	}
 
+	/**
+	 * Resolve the agent of a pane. Agents wrapped with `script` for screen
+	 * capture are found through the pane's arguments.
+	 */
+	private static findAgentForPaneCommand(
+		command: string,
+		args: string[],
+	): CommandType | undefined {
+		const binary = basename(command);
+
+		if (binary === 'env') {
+			// Skip the variables set for the agent, e.g. `env FOO=1 claude`
+			const index = args.findIndex(
+				arg => !arg.includes('=') && !arg.startsWith('-'),
+			);
+			return index >= 0
+				? this.findAgentForPaneCommand(args[index]!, args.slice(index + 1))
+				: undefined;
+		}
+
+		if (binary !== 'script') {
+			return agentRegistry.findAgentByCommand(command)?.id;
+		}
+
+		for (const [index, arg] of args.entries()) {
+			if (arg.startsWith('-')) continue;
+			// util-linux `script -c` receives the agent as one command line
+			const [wrapped, ...wrappedArgs] = parseShellArgs(arg);
+			const id = wrapped
+				? this.findAgentForPaneCommand(wrapped, [
+						...wrappedArgs,
+						...args.slice(index + 1),
+					])
+				: undefined;
+			if (id) {
+				return id;
+			}
+		}
+
+		return undefined;
+	}
+
 	/**
 	 * Fallback method to get existing panes from process information
 	 */
 	private static async getExistingPanesFromProcesses(): Promise<
-		Array<{
-			name: string;
-			id: string;
-			cwd: string;
-			command: string;
-			commandType?: 'claude' | 'codex';
-			focusIndex: number;
-		}>
+		ZellijPaneInfo[]
 	> {
 		try {
-			const panes = [];
+			const panes: ZellijPaneInfo[] = [];
 
-			// Get all claude/codex processes
-			const {stdout: claudeOutput} = await execAsync(
-				'ps -eo pid,ppid,cwd,args | grep -v grep | grep -E "(claude|codex)" || true',
-			);
+			// Get all processes, agents are picked from their command line below
+			const {stdout: agentOutput} = await execFileAsync('ps', [
+				'-eo',
+				'pid,ppid,cwd,args',
+			]);
 
-			if (claudeOutput.trim()) {
-				const processes = claudeOutput.trim().split('\n');
+			if (agentOutput.trim()) {
+				// Skip the header line
+				const processes = agentOutput.trim().split('\n').slice(1);
 
 				for (const process of processes) {
 					const fields = process.trim().split(/\s+/);
@@ -472,12 +582,10 @@ export class ZellijService {
 						const [pid, , cwd, ...argsParts] = fields;
 						const args = argsParts.join(' ');
 
-						let commandType: 'claude' | 'codex' | undefined;
-						if (args.includes('claude')) {
-							commandType = 'claude';
-						} else if (args.includes('codex')) {
-							commandType = 'codex';
-						}
+						const commandType = this.findAgentForPaneCommand(
+							argsParts[0]!,
+							argsParts.slice(1),
+						);
 
 						if (commandType && cwd && pid) {
 							// Generate a name based on the working directory
@@ -489,7 +597,7 @@ export class ZellijService {
 								cwd,
 								command: args,
 								commandType,
-								focusIndex: -1, // Unknown focus index in fallback mode
+								tabName: '', // Unknown tab in fallback mode
 							});
 						}
 					}
@@ -508,14 +616,7 @@ export class ZellijService {
 	 */
 	static async hasPaneForWorktree(worktreePath: string): Promise<{
 		exists: boolean;
-		pane?: {
-			name: string;
-			id: string;
-			cwd: string;
-			command: string;
-			commandType?: 'claude' | 'codex';
-			focusIndex: number;
-		};
+		pane?: ZellijPaneInfo;
 	}> {
 		const existingPanes = await this.getExistingPanes();
 
@@ -534,72 +635,212 @@ export class ZellijService {
 	}
 
 	/**
-	 * Get the currently focused pane information
+	 * File that maps worktrees to their pane identity for this Zellij session
 	 */
-	static async getCurrentFocusedPane(): Promise<{
-		cwd: string;
-		index: number;
-	} | null> {
+	private static getPaneIdentityPath(): string {
+		const sessionName = (this.getCurrentSessionName() || 'default').replace(
+			/[^a-zA-Z0-9-_]/g,
+			'-',
+		);
+		return join(tmpdir(), 'ccmanager', `panes-${sessionName}.json`);
+	}
+
+	private static loadPaneIdentities(): Record<string, PaneIdentity> {
 		try {
-			const layout = await execAsync('zellij action dump-layout');
-			const lines = layout.stdout.split('\n');
-
-			let currentCwd = '';
-			let paneIndex = 0;
-			let focusedPaneInfo: {cwd: string; index: number} | null = null;
-
-			for (const line of lines) {
-				const trimmedLine = line?.trim();
-				if (!trimmedLine) continue;
-
-				// Extract current working directory from cwd lines
-				if (trimmedLine.startsWith('cwd ')) {
-					const cwdMatch = trimmedLine.match(/cwd "([^"]+)"/);
-					if (cwdMatch && cwdMatch[1]) {
-						currentCwd = cwdMatch[1];
-					}
-				}
+			const data = readFileSync(this.getPaneIdentityPath(), 'utf-8');
+			const parsed = JSON.parse(data);
+			return parsed && typeof parsed === 'object' ? parsed : {};
+		} catch {
+			return {};
+		}
+	}
 
-				// Look for pane definitions with commands
-				if (
-					trimmedLine.startsWith('pane') &&
-					trimmedLine.includes('command=')
-				) {
-					const commandMatch = trimmedLine.match(/pane command="([^"]+)"/);
-					const cwdMatch = trimmedLine.match(/cwd="([^"]+)"/);
-					const isFocused = trimmedLine.includes('focus=true');
-
-					if (commandMatch && commandMatch[1]) {
-						let cwd = cwdMatch && cwdMatch[1] ? cwdMatch[1] : currentCwd;
-
-						// Convert relative paths to absolute paths
-						if (cwd && !cwd.startsWith('/')) {
-							cwd = resolve(currentCwd, cwd);
-						}
+	private static savePaneIdentities(
+		identities: Record<string, PaneIdentity>,
+	): void {
+		try {
+			const identityPath = this.getPaneIdentityPath();
+			mkdirSync(dirname(identityPath), {recursive: true});
+			writeFileSync(identityPath, JSON.stringify(identities, null, 2));
+		} catch (error) {
+			console.error('Failed to save Zellij pane identities:', error);
+		}
+	}
 
-						if (isFocused) {
-							focusedPaneInfo = {
-								cwd,
-								index: paneIndex,
-							};
-						}
+	/**
+	 * Get the recorded pane identity of a worktree
+	 */
+	static getPaneIdentity(worktreePath: string): PaneIdentity | undefined {
+		return this.loadPaneIdentities()[resolve(worktreePath)];
+	}
 
-						paneIndex++;
-					}
-				}
-			}
+	/**
+	 * Record the pane identity of a worktree
+	 */
+	static recordPaneIdentity(
+		worktreePath: string,
+		identity: PaneIdentity,
+	): void {
+		const identities = this.loadPaneIdentities();
+		identities[resolve(worktreePath)] = identity;
+		this.savePaneIdentities(identities);
+	}
+
+	/**
+	 * Forget the pane identity of a worktree
+	 */
+	static forgetPaneIdentity(worktreePath: string): void {
+		const identities = this.loadPaneIdentities();
+		delete identities[resolve(worktreePath)];
+		this.savePaneIdentities(identities);
+	}
 
-			return focusedPaneInfo;
+	/**
+	 * Record the identity of a pane that was just created in the focused tab
+	 */
+	private static async recordCreatedPane(
+		worktreePath: string,
+		paneName: string,
+	): Promise<void> {
+		try {
+			const panes = await this.getLayoutPanes();
+			const tab = panes.find(pane => pane.tabFocused);
+			this.recordPaneIdentity(worktreePath, {
+				tabName: tab?.tabName || '',
+				paneName,
+			});
 		} catch (error) {
-			console.error('Error getting focused pane:', error);
-			return null;
+			console.error('Failed to record Zellij pane identity:', error);
+		}
+	}
+
+	private static matchesIdentity(
+		pane: LayoutPane,
+		identity: PaneIdentity,
+		worktreePath: string,
+	): boolean {
+		if (pane.tabName !== identity.tabName) {
+			return false;
+		}
+		// Any pane of a worktree tab will do, templates may name panes freely
+		if (identity.kind === 'tab') {
+			return true;
+		}
+		// Panes we did not name are identified by their working directory
+		return identity.paneName
+			? pane.name === identity.paneName
+			: resolve(pane.cwd) === resolve(worktreePath);
+	}
+
+	/**
+	 * Rebuild a stale pane identity from the current layout, preferring a pane
+	 * with the expected name and falling back to the worktree's agent pane
+	 */
+	private static async resyncPaneIdentity(
+		worktreePath: string,
+	): Promise<PaneIdentity | undefined> {
+		const previous = this.getPaneIdentity(worktreePath);
+		const panes = await this.getLayoutPanes();
+		const worktreeAbsPath = resolve(worktreePath);
+
+		const byName = previous?.paneName
+			? panes.find(
+					pane =>
+						pane.name === previous.paneName &&
+						resolve(pane.cwd) === worktreeAbsPath,
+				)
+			: undefined;
+		const byCwd = panes.find(
+			pane =>
+				resolve(pane.cwd) === worktreeAbsPath &&
+				!!pane.command &&
+				!!this.findAgentForPaneCommand(pane.command, pane.args),
+		);
+		const pane = byName || byCwd;
+
+		if (!pane) {
+			this.forgetPaneIdentity(worktreePath);
+			return undefined;
+		}
+
+		const identity: PaneIdentity = {
+			tabName: pane.tabName,
+			paneName: pane.name || '',
+			kind: previous?.kind,
+		};
+		this.recordPaneIdentity(worktreePath, identity);
+		return identity;
+	}
+
+	/**
+	 * Focus the pane with the given identity. Returns false if the pane
+	 * cannot be found.
+	 */
+	private static async focusPaneByIdentity(
+		worktreePath: string,
+		identity: PaneIdentity,
+	): Promise<boolean> {
+		const found = await this.moveFocusTo(pane =>
+			this.matchesIdentity(pane, identity, worktreePath),
+		);
+
+		// Give panes we did not create a name so they stay identifiable
+		if (found && !identity.paneName) {
+			const paneName = this.getBranchNameFromPath(worktreePath);
+			await execFileAsync('zellij', ['action', 'rename-pane', paneName]);
+			this.recordPaneIdentity(worktreePath, {...identity, paneName});
+		}
+		return found;
+	}
+
+	/**
+	 * Focus the first pane passing `isTarget`: switch to its tab, then move
+	 * focus until the focused pane is one that passes. Returns false if no
+	 * pane does.
+	 */
+	private static async moveFocusTo(
+		isTarget: (pane: LayoutPane) => boolean,
+	): Promise<boolean> {
+		let panes = await this.getLayoutPanes();
+		const target = panes.find(isTarget);
+		if (!target) {
+			return false;
+		}
+
+		if (!target.tabFocused) {
+			await execFileAsync('zellij', [
+				'action',
+				'go-to-tab-name',
+				target.tabName,
+			]);
+			panes = await this.getLayoutPanes();
 		}
+
+		const isInTargetLayer = (pane: LayoutPane) =>
+			pane.tabName === target.tabName && pane.floating === target.floating;
+		const tabPanes = panes.filter(isInTargetLayer);
+
+		// Each step re-reads the layout, so the check is by identity and not by
+		// an assumed pane order
+		for (let attempt = 0; attempt <= tabPanes.length; attempt++) {
+			const focused = panes.find(pane => isInTargetLayer(pane) && pane.focused);
+			if (focused && isTarget(focused)) {
+				return true;
+			}
+
+			await execFileAsync('zellij', ['action', 'focus-next-pane']);
+			// Small delay to ensure the focus change is processed
+			await new Promise(resolve => setTimeout(resolve, 50));
+			panes = await this.getLayoutPanes();
+		}
+
+		return false;
 	}
 
 	/**
-	 * Focus on a specific pane by navigating to it
+	 * Focus on a pane by its worktree path
 	 */
-	static async focusPane(targetCwd: string): Promise<{
+	static async focusPaneByWorktree(worktreePath: string): Promise<{
 		success: boolean;
 		error?: string;
 	}> {
@@ -611,79 +852,122 @@ export class ZellijService {
 		}
 
 		try {
-			const existingPanes = await this.getExistingPanes();
-			const currentFocus = await this.getCurrentFocusedPane();
+			const identity =
+				this.getPaneIdentity(worktreePath) ||
+				(await this.resyncPaneIdentity(worktreePath));
 
-			if (!currentFocus) {
-				return {
-					success: false,
-					error: 'Could not determine current focused pane',
-				};
+			if (
+				identity &&
+				(await this.focusPaneByIdentity(worktreePath, identity))
+			) {
+				return {success: true};
 			}
 
-			// Find the target pane
-			const targetPane = existingPanes.find(pane => {
-				const paneAbsPath = resolve(pane.cwd);
-				const targetAbsPath = resolve(targetCwd);
-				return paneAbsPath === targetAbsPath;
-			});
-
-			if (!targetPane) {
-				return {
-					success: false,
-					error: 'Target pane not found',
-				};
+			// The recorded identity is stale (pane renamed, moved or closed)
+			const resynced = await this.resyncPaneIdentity(worktreePath);
+			if (
+				resynced &&
+				(await this.focusPaneByIdentity(worktreePath, resynced))
+			) {
+				return {success: true};
 			}
 
-			// Calculate how many steps to move using the correct focus index
-			const currentIndex = currentFocus.index;
-			const targetIndex = targetPane.focusIndex;
-			let stepsToMove = targetIndex - currentIndex;
-
-			// Navigate to the target pane
-			if (stepsToMove > 0) {
-				// Move forward
-				for (let i = 0; i < stepsToMove; i++) {
-					await execAsync('zellij action focus-next-pane');
-					// Small delay to ensure the focus change is processed
-					await new Promise(resolve => setTimeout(resolve, 50));
-				}
-			} else if (stepsToMove < 0) {
-				// Move backward
-				for (let i = 0; i < Math.abs(stepsToMove); i++) {
-					await execAsync('zellij action focus-previous-pane');
-					// Small delay to ensure the focus change is processed
-					await new Promise(resolve => setTimeout(resolve, 50));
-				}
-			}
-			// If stepsToMove === 0, the pane is already focused
+			return {
+				success: false,
+				error: 'Pane not found for worktree',
+			};
+		} catch (error) {
+			return {
+				success: false,
+				error: error instanceof Error ? error.message : 'Unknown error',
+			};
+		}
+	}
 
+	/**
+	 * Type a prompt into the agent pane of a worktree and submit it. Zellij
+	 * writes to the focused pane, so the agent pane is focused first and the
+	 * pane the user was in gets the focus back afterwards.
+	 */
+	static async sendPromptToWorktree(
+		worktreePath: string,
+		prompt: string,
+	): Promise<{success: boolean; error?: string}> {
+		const previous = await this.getLayoutPanes()
+			.then(panes =>
+				panes.find(pane => pane.tabFocused && pane.focused && !pane.floating),
+			)
+			.catch(() => undefined);
+
+		const focusResult = await this.focusPaneByWorktree(worktreePath);
+		if (!focusResult.success) {
+			return focusResult;
+		}
+
+		const toBytes = (text: string) =>
+			Array.from(Buffer.from(text)).map(byte => String(byte));
+
+		try {
+			await execFileAsync('zellij', [
+				'action',
+				'write',
+				...toBytes(BRACKETED_PASTE_START),
+			]);
+			// `--` keeps a prompt starting with "-" from being read as an option
+			await execFileAsync('zellij', ['action', 'write-chars', '--', prompt]);
+			await execFileAsync('zellij', [
+				'action',
+				'write',
+				...toBytes(BRACKETED_PASTE_END),
+			]);
+			await new Promise(resolve => setTimeout(resolve, PROMPT_SUBMIT_DELAY_MS));
+			await execFileAsync('zellij', ['action', 'write', '13']);
 			return {success: true};
 		} catch (error) {
 			return {
 				success: false,
 				error: error instanceof Error ? error.message : 'Unknown error',
 			};
+		} finally {
+			if (previous) {
+				await this.moveFocusTo(pane => isSamePane(pane, previous)).catch(
+					() => false,
+				);
+			}
 		}
 	}
 
 	/**
-	 * Focus on a pane by its worktree path
+	 * Open a pane running the user's shell in a worktree, next to the agent
 	 */
-	static async focusPaneByWorktree(worktreePath: string): Promise<{
+	static async openShellPane(worktreePath: string): Promise<{
 		success: boolean;
 		error?: string;
 	}> {
-		const paneInfo = await this.hasPaneForWorktree(worktreePath);
-
-		if (!paneInfo.exists || !paneInfo.pane) {
+		if (!this.isInsideZellij()) {
 			return {
 				success: false,
-				error: 'Pane not found for worktree',
+				error: 'Not inside Zellij session',
 			};
 		}
 
-		return this.focusPane(paneInfo.pane.cwd);
+		try {
+			const paneName = `${this.getBranchNameFromPath(worktreePath)}-shell`;
+			await execFileAsync('zellij', [
+				'action',
+				'new-pane',
+				'--name',
+				paneName,
+				'--cwd',
+				resolve(worktreePath),
+			]);
+			return {success: true};
+		} catch (error) {
+			return {
+				success: false,
+				error: error instanceof Error ? error.message : 'Unknown error',
+			};
+		}
 	}
 
 	/**
@@ -703,27 +987,40 @@ export class ZellijService {
 		try {
 			const paneInfo = await this.hasPaneForWorktree(worktreePath);
 
-			if (!paneInfo.exists || !paneInfo.pane) {
+			if (!paneInfo.exists && !this.getPaneIdentity(worktreePath)) {
 				return {
 					success: true,
 					error: 'No pane found for worktree (already closed or not created)',
 				};
 			}
 
-			// First focus the pane to ensure we close the correct one
-			const focusResult = await this.focusPane(paneInfo.pane.cwd);
+			// First focus the pane by identity to ensure we close the correct one
+			const focusResult = await this.focusPaneByWorktree(worktreePath);
 			if (!focusResult.success) {
+				if (!paneInfo.exists) {
+					// Only a stale identity was left behind
+					this.forgetPaneIdentity(worktreePath);
+					return {
+						success: true,
+						error: 'No pane found for worktree (already closed or not created)',
+					};
+				}
 				return {
 					success: false,
 					error: `Failed to focus pane: ${focusResult.error}`,
 				};
 			}
 
-			// Wait a moment for focus to complete
-			await new Promise(resolve => setTimeout(resolve, 100));
+			// Close the focused pane, or the whole tab in tab mode
+			if (this.getPaneIdentity(worktreePath)?.kind === 'tab') {
+				await execFileAsync('zellij', ['action', 'close-tab']);
+			} else {
+				await execFileAsync('zellij', ['action', 'close-pane']);
+			}
 
-			// Close the focused pane
-			await execAsync('zellij action close-pane');
+			// The agent is gone, so its identity and screen capture are no longer needed
+			this.forgetPaneIdentity(worktreePath);
+			this.removeScreenCapture(worktreePath);
 
 			return {success: true};
 		} catch (error) {
@@ -5,7 +5,8 @@ export type Terminal = InstanceType<typeof pkg.Terminal>;
 
 export type SessionState = 'idle' | 'busy' | 'waiting_input';
 
-export type CommandType = 'claude' | 'codex';
+// Identifier of an agent declared in the agent registry (e.g. 'claude', 'codex')
+export type CommandType = string;
 
 export interface Worktree {
 	path: string;
@@ -22,11 +23,15 @@ export interface Session {
 	output: string[]; // Recent output for state detection
 	outputHistory: Buffer[]; // Full output history as buffers
 	lastActivity: Date;
+	createdAt: Date;
+	stateChangedAt: Date; // When the session entered its current state
 	isActive: boolean;
 	terminal: Terminal | null; // null for Zellij-managed sessions
 	stateCheckInterval?: NodeJS.Timeout; // Interval for checking terminal state
-	commandType: CommandType; // Type of command being executed (claude or codex)
+	commandType: CommandType; // Id of the agent being executed (claude, codex, ...)
 	isZellijSession?: boolean; // Flag to indicate if this is a Zellij-managed session
+	screenCapturePath?: string; // Output capture of the Zellij pane, if any
+	initialPrompt?: string; // Sent to the agent once it is first ready for input
 }
 
 export interface SessionManager {
@@ -43,41 +48,297 @@ export interface SessionManager {
 	restoreSessionForWorktree(worktreePath: string): Promise<Session | null>;
 }
 
-export interface ShortcutKey {
+export interface KeyCombo {
 	ctrl?: boolean;
 	alt?: boolean;
 	shift?: boolean;
-	key: string;
+	key: string; // Character or key name, e.g. "e", "escape", "f5" or "up"
 }
 
-export interface ShortcutConfig {
-	returnToMenu: ShortcutKey;
-	cancel: ShortcutKey;
+export interface ShortcutKey extends KeyCombo {
+	leader?: KeyCombo; // Pressed first for a chord, e.g. Ctrl+A for "Ctrl+A n"
 }
 
+export type ShortcutAction =
+	| 'returnToMenu'
+	| 'cancel'
+	| 'nextWaiting' // Jump to the session waiting longest for input
+	| 'newWorktree'
+	| 'deleteWorktree'
+	| 'mergeWorktree'
+	| 'refresh'
+	| 'killSession' // Acts on the worktree selected in the menu
+	| 'restartSession'
+	| 'openShell'
+	| 'search'
+	| 'filterState'
+	| 'filterCommand'
+	| 'sort'
+	| 'group';
+
+// Menu shortcuts that act on the highlighted worktree
+export type MenuWorktreeAction = Extract<
+	ShortcutAction,
+	'killSession' | 'restartSession' | 'openShell'
+>;
+
+// Where a shortcut is listened for; session shortcuts are read from raw
+// stdin and dialog shortcuts next to text inputs
+export type ShortcutContext = 'menu' | 'session' | 'dialog';
+
+export type ShortcutConfig = Record<ShortcutAction, ShortcutKey>;
+
 export const DEFAULT_SHORTCUTS: ShortcutConfig = {
 	returnToMenu: {ctrl: true, key: 'e'},
 	cancel: {key: 'escape'},
+	// A chord, so agents keep Ctrl+N for their input history
+	nextWaiting: {leader: {ctrl: true, key: 'a'}, key: 'n'},
+	newWorktree: {key: 'n'},
+	deleteWorktree: {key: 'd'},
+	mergeWorktree: {key: 'm'},
+	refresh: {key: 'r'},
+	killSession: {key: 'x'},
+	restartSession: {key: 't'},
+	openShell: {key: '!'},
+	search: {key: '/'},
+	filterState: {key: 's'},
+	filterCommand: {key: 'c'},
+	sort: {key: 'o'},
+	group: {key: 'g'},
 };
 
+export type StatusHookType = 'command' | 'webhook';
+
 export interface StatusHook {
-	command: string;
+	type?: StatusHookType; // Defaults to command
+	command?: string; // Shell command of command hooks
+	url?: string; // Target of webhooks
+	body?: string; // JSON body template of webhooks, defaults to the payload
+	headers?: Record<string, string>; // Extra HTTP headers of webhooks
+	retries?: number; // Webhook attempts after a failure, defaults to 2
+	debounceMs?: number; // Only send the last change within this window, defaults to 1s
 	enabled: boolean;
+	from?: SessionState[]; // Only run when leaving one of these states
+	timeoutMs?: number; // Stop the command (or webhook attempt) after this long
+	outputLines?: number; // Lines of terminal output in the payload, defaults to 20
 }
 
+// Hooks run in order when a session enters the state
 export interface StatusHookConfig {
-	idle?: StatusHook;
-	busy?: StatusHook;
-	waiting_input?: StatusHook;
+	idle?: StatusHook[];
+	busy?: StatusHook[];
+	waiting_input?: StatusHook[];
+}
+
+export type LifecycleEvent =
+	| 'preCreate'
+	| 'postCreate'
+	| 'preDelete'
+	| 'postDelete'
+	| 'preMerge'
+	| 'postMerge';
+
+export interface LifecycleHook {
+	command: string;
+	enabled: boolean;
+	timeoutMs?: number; // Stop the command after this long, defaults to 10 minutes
+}
+
+// Hooks run in order around worktree operations; a failing pre hook aborts
+// the operation
+export interface LifecycleHookConfig {
+	preCreate?: LifecycleHook[];
+	postCreate?: LifecycleHook[];
+	preDelete?: LifecycleHook[];
+	postDelete?: LifecycleHook[];
+	preMerge?: LifecycleHook[];
+	postMerge?: LifecycleHook[];
+}
+
+// One hook invocation recorded in the hook log
+export interface HookLogEntry {
+	timestamp: string; // ISO 8601 time the hook finished
+	worktreePath: string;
+	branch: string;
+	event: string; // What triggered the hook, e.g. "busy → idle"
+	type: StatusHookType; // Lifecycle hooks are commands
+	target: string; // Command or URL
+	success: boolean;
+	exitCode?: number | null; // Command hooks
+	status?: number; // HTTP status of webhooks
+	durationMs: number;
+	stdout?: string; // Tail of the output
+	stderr?: string;
+	error?: string;
+}
+
+// JSON document written to the stdin of status hooks
+export interface StatusHookPayload {
+	sessionId: string;
+	commandType: CommandType;
+	branch: string;
+	worktreePath: string;
+	oldState: SessionState;
+	newState: SessionState;
+	previousStateDurationMs: number; // Time spent in the old state
+	output: string[]; // Last lines of the terminal screen, oldest first
+	timestamp: string; // ISO 8601 time of the transition
+}
+
+// Narrows the worktrees listed in the menu
+export interface MenuFilter {
+	query: string; // Fuzzy matched against branch and path relative to the repository's parent
+	state?: SessionState | 'none'; // 'none' lists worktrees without a session
+	commandType?: CommandType;
+}
+
+export type MenuSortMode =
+	| 'default'
+	| 'state'
+	| 'activity'
+	| 'branch'
+	| 'commit';
+
+export interface MenuConfig {
+	sortBy?: MenuSortMode; // 'default' keeps the order of git worktree list
+	groupByPrefix?: boolean; // Section worktrees by branch prefix, e.g. "feature/"
+}
+
+export interface WorktreeStatus {
+	dirtyFiles: number; // Changed, staged and untracked files
+	ahead?: number; // Commits ahead of the upstream, if there is one
+	behind?: number;
+	lastCommitAt?: Date;
+}
+
+export interface BaseRef {
+	ref: string; // Full ref name, e.g. refs/remotes/origin/main
+	name: string; // Short name, e.g. origin/main
+	type: 'branch' | 'remote' | 'tag';
+}
+
+export type SetupFileMode = 'copy' | 'symlink';
+
+export interface SetupFileRule {
+	pattern: string; // Glob relative to the main worktree, e.g. ".env*"
+	mode: SetupFileMode;
 }
 
 export interface WorktreeConfig {
 	autoDirectory: boolean;
 	autoDirectoryPattern?: string; // Optional pattern for directory generation
+	setupFiles?: SetupFileRule[]; // Untracked files brought into new worktrees
+	branchTemplates?: string[]; // e.g. "{user}/{ticket}-{slug}"
+}
+
+export type ZellijSessionMode = 'pane' | 'tab';
+
+export interface ZellijExtraPane {
+	name: string;
+	command?: string; // Shell command line; omit for an interactive shell
+}
+
+export interface ZellijConfig {
+	mode: ZellijSessionMode; // Open agents as panes in the current tab or one tab per worktree
+	extraPanes?: ZellijExtraPane[]; // Panes added next to the agent in tab mode
+}
+
+export interface LayoutsConfig {
+	// Templates are inline KDL or a path to a .kdl file
+	default?: string; // Layout template used for every project
+	projects?: Record<string, string>; // Layout templates keyed by repository root path
+}
+
+export interface StateMatcher {
+	// All conditions set on a matcher must hold for it to match
+	pattern?: string; // Regex source tested against the screen content
+	flags?: string; // Regex flags, defaults to 'i'
+	lines?: number; // Only inspect the last N non-empty lines
+	promptBox?: 'top' | 'bottom' | 'line'; // Box-drawing prompt detection
+	cursorLinePattern?: string; // Regex the line under the cursor must match
+	minQuietMs?: number; // No output for at least this long
+	maxQuietMs?: number; // Output within this long
+}
+
+export interface DetectionProfile {
+	// Evaluated in order waiting -> busy -> idle; a state matches if any of
+	// its matchers does
+	waiting?: StateMatcher[];
+	busy?: StateMatcher[];
+	idle?: StateMatcher[];
+	fallback?: SessionState; // State when nothing matches, defaults to idle
+	// Screens of an idle agent that accepts input; without them the agent is
+	// ready once it has been idle and quiet for a moment
+	ready?: StateMatcher[];
+}
+
+export interface AgentConfig {
+	id: CommandType;
+	label: string;
+	description?: string;
+	command: string; // Binary to launch
+	args?: string[]; // Default arguments
+	argsEnv?: string; // Env var with extra arguments, parsed with shell quoting
+	env?: Record<string, string>; // Extra environment variables for the agent
+	icon?: string; // Short marker shown in the menu, e.g. 'C' -> [C]
+	detection?: DetectionProfile; // Overrides the built-in profile for this id
+}
+
+export const DEFAULT_AGENTS: AgentConfig[] = [
+	{
+		id: 'claude',
+		label: 'Claude Code',
+		description: 'Advanced AI coding assistant',
+		command: 'claude',
+		argsEnv: 'CCMANAGER_CLAUDE_ARGS',
+		icon: 'C',
+	},
+	{
+		id: 'codex',
+		label: 'Codex',
+		description: 'Fast AI code completion',
+		command: 'codex',
+		argsEnv: 'CCMANAGER_CODEX_ARGS',
+		icon: 'X',
+	},
+];
+
+export interface AgentOverride {
+	args?: string[]; // Appended after the agent's own arguments
+	env?: Record<string, string>; // Merged over the agent's own environment
+}
+
+// Agent settings of the sessions in a worktree
+export interface SessionSettings {
+	defaultCommand?: CommandType; // Agent preselected for new sessions
+	agentOverrides?: Record<CommandType, AgentOverride>; // Keyed by agent id
+}
+
+// Configuration files, from lowest to highest precedence
+export type ConfigLayer = 'global' | 'project' | 'local';
+
+export interface ConfigValidationError {
+	layer?: ConfigLayer; // File the error was found in
+	path: string; // Field path, e.g. "statusHooks.idle[0].enabled"
+	message: string;
+}
+
+export interface ConfigNotice {
+	layer: ConfigLayer;
+	message: string; // e.g. a migration applied to the file
 }
 
 export interface ConfigurationData {
+	version?: number; // Schema version the file was written with
 	shortcuts?: ShortcutConfig;
 	statusHooks?: StatusHookConfig;
+	lifecycleHooks?: LifecycleHookConfig;
 	worktree?: WorktreeConfig;
+	agents?: AgentConfig[];
+	zellij?: ZellijConfig;
+	layouts?: LayoutsConfig;
+	menu?: MenuConfig;
+	defaultCommand?: CommandType; // Agent preselected for new sessions
+	agentOverrides?: Record<CommandType, AgentOverride>; // Keyed by agent id
+	branches?: Record<string, SessionSettings>; // Keyed by branch pattern, e.g. "feature/*"
 }
@@ -0,0 +1,42 @@
+import {describe, it, expect, beforeEach, vi} from 'vitest';
+import {
+	getDefaultCommandType,
+	shouldShowCommandSelection,
+} from './commandChecker.js';
+import {agentRegistry} from '../services/agentRegistry.js';
+
+vi.mock('../services/agentRegistry.js', () => ({
+	agentRegistry: {
+		getDefaultCommand: vi.fn(),
+	},
+}));
+
+describe('getDefaultCommandType', () => {
+	const availability = {available: ['claude', 'codex']};
+
+	beforeEach(() => {
+		vi.mocked(agentRegistry.getDefaultCommand).mockReturnValue(undefined);
+	});
+
+	it('should launch the default of the worktree without asking', () => {
+		vi.mocked(agentRegistry.getDefaultCommand).mockReturnValue('codex');
+
+		expect(getDefaultCommandType(availability, '/repo/feature')).toBe('codex');
+		expect(shouldShowCommandSelection(availability, '/repo/feature')).toBe(
+			false,
+		);
+		expect(agentRegistry.getDefaultCommand).toHaveBeenCalledWith(
+			'/repo/feature',
+		);
+	});
+
+	it('should fall back to the available agents', () => {
+		vi.mocked(agentRegistry.getDefaultCommand).mockReturnValue('aider');
+
+		expect(getDefaultCommandType(availability, '/repo/feature')).toBe('claude');
+		expect(shouldShowCommandSelection(availability, '/repo/feature')).toBe(
+			true,
+		);
+		expect(getDefaultCommandType({available: []})).toBeNull();
+	});
+});
@@ -1,9 +1,8 @@
-import {execSync} from 'child_process';
+import {execFileSync} from 'child_process';
 import {CommandType} from '../types/index.js';
+import {agentRegistry} from '../services/agentRegistry.js';
 
 export interface CommandAvailability {
-	claude: boolean;
-	codex: boolean;
 	available: CommandType[];
 }
 
@@ -14,7 +13,7 @@ function isCommandAvailable(command: string): boolean {
 	try {
 		// Try to get the command location using 'which' on Unix or 'where' on Windows
 		const checkCommand = process.platform === 'win32' ? 'where' : 'which';
-		execSync(`${checkCommand} ${command}`, {
+		execFileSync(checkCommand, [command], {
 			stdio: 'ignore',
 			timeout: 5000, // 5 second timeout
 		});
@@ -25,48 +24,47 @@ function isCommandAvailable(command: string): boolean {
 }
 
 /**
- * Check availability of AI coding commands
+ * Check availability of all registered AI coding agents
  */
 export function checkCommandAvailability(): CommandAvailability {
-	const claude = isCommandAvailable('claude');
-	const codex = isCommandAvailable('codex');
-
-	const available: CommandType[] = [];
-	if (claude) available.push('claude');
-	if (codex) available.push('codex');
+	const available: CommandType[] = agentRegistry
+		.getAgents()
+		.filter(agent => isCommandAvailable(agent.command))
+		.map(agent => agent.id);
 
 	return {
-		claude,
-		codex,
 		available,
 	};
 }
 
 /**
- * Get the appropriate command type based on availability
- * Returns null if no commands are available
+ * Get the agent launched in a worktree: the default set for its branch,
+ * repository or configuration if that agent is installed, else the first
+ * available agent. Returns null if no commands are available.
  */
 export function getDefaultCommandType(
 	availability: CommandAvailability,
+	worktreePath?: string,
 ): CommandType | null {
-	if (availability.available.length === 0) {
-		return null;
-	}
-
-	// If both are available, prefer Claude
-	if (availability.claude) {
-		return 'claude';
+	const configured = agentRegistry.getDefaultCommand(worktreePath);
+	if (configured && availability.available.includes(configured)) {
+		return configured;
 	}
-
-	// Otherwise return the only available one
+	// Agents are checked in registry order, so the first one is preferred
 	return availability.available[0] || null;
 }
 
 /**
- * Check if command selection UI should be shown
+ * Check if command selection UI should be shown: several agents are
+ * installed and none is configured as the default for the worktree
  */
 export function shouldShowCommandSelection(
 	availability: CommandAvailability,
+	worktreePath?: string,
 ): boolean {
-	return availability.available.length > 1;
+	const configured = agentRegistry.getDefaultCommand(worktreePath);
+	return (
+		availability.available.length > 1 &&
+		!(configured && availability.available.includes(configured))
+	);
 }
@@ -0,0 +1,92 @@
+import {describe, it, expect} from 'vitest';
+import {
+	CONFIG_MIGRATIONS,
+	ConfigMigration,
+	migrateConfiguration,
+} from './configMigrations.js';
+
+describe('migrateConfiguration', () => {
+	const migrations: ConfigMigration[] = [
+		{
+			version: 1,
+			description: 'Rename hooks',
+			migrate: ({hooks, ...data}) => ({...data, statusHooks: hooks}),
+		},
+		{
+			version: 2,
+			description: 'Enable auto directory',
+			migrate: data => ({...data, worktree: {autoDirectory: true}}),
+		},
+	];
+
+	it('should apply every step to unversioned data in order', () => {
+		const {data, applied} = migrateConfiguration(
+			{hooks: {idle: {command: 'x', enabled: true}}},
+			{},
+			migrations,
+		);
+
+		expect(applied.map(migration => migration.version)).toEqual([1, 2]);
+		expect(data).toEqual({
+			statusHooks: {idle: {command: 'x', enabled: true}},
+			worktree: {autoDirectory: true},
+			version: 2,
+		});
+	});
+
+	it('should only apply steps newer than the data', () => {
+		const {data, applied} = migrateConfiguration(
+			{version: 1, statusHooks: {}},
+			{},
+			migrations,
+		);
+
+		expect(applied.map(migration => migration.version)).toEqual([2]);
+		expect(data).toEqual({
+			version: 2,
+			statusHooks: {},
+			worktree: {autoDirectory: true},
+		});
+	});
+
+	it('should not report steps that had nothing to upgrade', () => {
+		const {data, applied} = migrateConfiguration({statusHooks: {}}, {}, [
+			{version: 1, description: 'No-op', migrate: data => data},
+		]);
+
+		expect(applied).toEqual([]);
+		expect(data).toEqual({statusHooks: {}, version: 1});
+	});
+
+	it('should leave current data unchanged', () => {
+		const input = {version: 2};
+		expect(migrateConfiguration(input, {}, migrations)).toEqual({
+			data: input,
+			applied: [],
+		});
+	});
+});
+
+describe('CONFIG_MIGRATIONS', () => {
+	it('should turn single status hooks into lists', () => {
+		const {data} = migrateConfiguration(
+			{
+				version: 1,
+				statusHooks: {
+					idle: {command: 'notify idle', enabled: true},
+					busy: [{command: 'notify busy', enabled: false}],
+				},
+			},
+			{},
+			CONFIG_MIGRATIONS,
+		);
+
+		expect(data).toEqual({
+			version: 2,
+			statusHooks: {
+				idle: [{command: 'notify idle', enabled: true}],
+				busy: [{command: 'notify busy', enabled: false}],
+			},
+		});
+	});
+});
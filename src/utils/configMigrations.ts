@@ -0,0 +1,103 @@
+import {existsSync, readFileSync} from 'fs';
+
+export interface MigrationContext {
+	legacyShortcutsPath?: string; // shortcuts.json next to the global config
+	onWarning?: (message: string) => void; // Problems that leave the data as it is
+}
+
+export interface ConfigMigration {
+	version: number; // Schema version the step upgrades the data to
+	description: string;
+	migrate: (
+		data: Record<string, unknown>,
+		context: MigrationContext,
+	) => Record<string, unknown>;
+}
+
+/**
+ * Migration steps in order. Each step upgrades data written with an older
+ * schema to `version`; files without a version are at version 0.
+ */
+export const CONFIG_MIGRATIONS: ConfigMigration[] = [
+	{
+		version: 1,
+		description: 'Import shortcuts from the legacy shortcuts.json',
+		migrate: (data, context) => {
+			if (
+				data['shortcuts'] ||
+				!context.legacyShortcutsPath ||
+				!existsSync(context.legacyShortcutsPath)
+			) {
+				return data;
+			}
+
+			try {
+				const shortcuts = JSON.parse(
+					readFileSync(context.legacyShortcutsPath, 'utf-8'),
+				);
+				// Validate that it's a valid shortcuts config
+				if (shortcuts && typeof shortcuts === 'object') {
+					return {...data, shortcuts};
+				}
+			} catch (error) {
+				context.onWarning?.(
+					`Failed to import ${context.legacyShortcutsPath}: ${error instanceof Error ? error.message : String(error)}`,
+				);
+			}
+			return data;
+		},
+	},
+	{
+		version: 2,
+		description: 'Allow several status hooks per state',
+		migrate: data => {
+			const statusHooks = data['statusHooks'];
+			if (
+				!statusHooks ||
+				typeof statusHooks !== 'object' ||
+				Array.isArray(statusHooks) ||
+				Object.values(statusHooks).every(hook => Array.isArray(hook))
+			) {
+				return data;
+			}
+
+			// A single hook per state becomes a list with that hook
+			return {
+				...data,
+				statusHooks: Object.fromEntries(
+					Object.entries(statusHooks).map(([state, hook]) => [
+						state,
+						Array.isArray(hook) ? hook : [hook],
+					]),
+				),
+			};
+		},
+	},
+];
+
+/**
+ * Apply the migration steps newer than the version of the data. Only steps
+ * that changed the data are returned as applied; steps return their input
+ * when there is nothing to upgrade.
+ */
+export function migrateConfiguration(
+	data: Record<string, unknown>,
+	context: MigrationContext,
+	migrations: ConfigMigration[] = CONFIG_MIGRATIONS,
+): {data: Record<string, unknown>; applied: ConfigMigration[]} {
+	const version = typeof data['version'] === 'number' ? data['version'] : 0;
+	const applied: ConfigMigration[] = [];
+
+	let migrated = data;
+	for (const migration of migrations) {
+		if (migration.version <= version) continue;
+
+		const result = migration.migrate(migrated, context);
+		if (result !== migrated) {
+			applied.push(migration);
+		}
+		migrated = {...result, version: migration.version};
+	}
+
+	return {data: migrated, applied};
+}
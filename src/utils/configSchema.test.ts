@@ -0,0 +1,111 @@
+import {describe, it, expect} from 'vitest';
+import {validateConfiguration} from './configSchema.js';
+
+describe('validateConfiguration', () => {
+	it('should accept a complete configuration', () => {
+		const data = {
+			version: 2,
+			shortcuts: {
+				returnToMenu: {ctrl: true, key: 'e'},
+				cancel: {key: 'escape'},
+			},
+			statusHooks: {
+				waiting_input: [{command: 'notify', enabled: true}],
+				idle: [
+					{
+						command: 'notify-done',
+						enabled: true,
+						from: ['busy'],
+						timeoutMs: 5000,
+						outputLines: 10,
+					},
+				],
+			},
+			worktree: {autoDirectory: true, autoDirectoryPattern: '../{branch}'},
+			agents: [
+				{
+					id: 'aider',
+					label: 'Aider',
+					command: 'aider',
+					args: ['--no-auto-commits'],
+					env: {AIDER_DARK_MODE: '1'},
+					detection: {
+						waiting: [{pattern: '\\(Y\\)es', lines: 3}],
+						fallback: 'idle',
+					},
+				},
+			],
+			zellij: {mode: 'tab', extraPanes: [{name: 'shell'}]},
+			layouts: {projects: {'/repo': 'layout.kdl'}},
+			defaultCommand: 'aider',
+		};
+
+		expect(validateConfiguration(data)).toEqual({config: data, errors: []});
+	});
+
+	it('should report nested fields with their path', () => {
+		const {config, errors} = validateConfiguration({
+			agents: [
+				{id: 'ok', command: 'ok'},
+				{id: 'broken', args: '--verbose'},
+				{id: 'matcher', command: 'm', detection: {busy: [{lines: 0}]}},
+			],
+		});
+
+		expect(errors).toEqual([
+			{path: 'agents[1].args', message: 'must be a list'},
+			{path: 'agents[1].command', message: 'is required'},
+			{
+				path: 'agents[2].detection.busy[0].lines',
+				message: 'must be at least 1',
+			},
+		]);
+		// Invalid entries are dropped, the rest is kept
+		expect(config.agents).toEqual([
+			{id: 'ok', command: 'ok'},
+			{id: 'matcher', command: 'm', detection: {busy: [{}]}},
+		]);
+	});
+
+	it('should require a URL for webhooks and a command for other hooks', () => {
+		const {config, errors} = validateConfiguration({
+			statusHooks: {
+				idle: [
+					{type: 'webhook', url: 'https://example.com/hook', enabled: true},
+					{type: 'webhook', command: 'notify', enabled: true},
+					{url: 'https://example.com/hook', enabled: true},
+				],
+			},
+		});
+
+		expect(errors).toEqual([
+			{path: 'statusHooks.idle[1].url', message: 'is required'},
+			{path: 'statusHooks.idle[2].command', message: 'is required'},
+		]);
+		expect(config.statusHooks?.idle).toEqual([
+			{type: 'webhook', url: 'https://example.com/hook', enabled: true},
+		]);
+	});
+
+	it('should report unknown settings', () => {
+		const {config, errors} = validateConfiguration({
+			statusHook: {idle: {command: 'x', enabled: true}},
+			shortcuts: {returnToMenu: {ctrl: true, key: 'e', meta: true}},
+		});
+
+		expect(errors).toEqual([
+			{path: 'statusHook', message: 'is not a known setting'},
+			{path: 'shortcuts.returnToMenu.meta', message: 'is not a known setting'},
+		]);
+		expect(config).toEqual({
+			shortcuts: {returnToMenu: {ctrl: true, key: 'e'}},
+		});
+	});
+
+	it('should reject data that is not an object', () => {
+		expect(validateConfiguration([])).toEqual({
+			config: {},
+			errors: [{path: '', message: 'must be an object'}],
+		});
+	});
+});
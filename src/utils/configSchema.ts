@@ -0,0 +1,302 @@
+import {ConfigValidationError, ConfigurationData} from '../types/index.js';
+
+// Version of the configuration schema written by this release
+export const CONFIG_VERSION = 2;
+
+const INVALID = Symbol('invalid');
+
+type Check = (
+	value: unknown,
+	path: string,
+	errors: ConfigValidationError[],
+) => unknown;
+
+const fail = (
+	errors: ConfigValidationError[],
+	path: string,
+	message: string,
+): typeof INVALID => {
+	errors.push({path, message});
+	return INVALID;
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+	typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const string =
+	(options: {nonEmpty?: boolean} = {}): Check =>
+	(value, path, errors) => {
+		if (typeof value !== 'string') {
+			return fail(errors, path, 'must be a string');
+		}
+		if (options.nonEmpty && value.trim() === '') {
+			return fail(errors, path, 'must not be empty');
+		}
+		return value;
+	};
+
+const boolean = (): Check => (value, path, errors) =>
+	typeof value === 'boolean'
+		? value
+		: fail(errors, path, 'must be true or false');
+
+const number =
+	(options: {integer?: boolean; min?: number} = {}): Check =>
+	(value, path, errors) => {
+		if (typeof value !== 'number' || !Number.isFinite(value)) {
+			return fail(errors, path, 'must be a number');
+		}
+		if (options.integer && !Number.isInteger(value)) {
+			return fail(errors, path, 'must be a whole number');
+		}
+		if (options.min !== undefined && value < options.min) {
+			return fail(errors, path, `must be at least ${options.min}`);
+		}
+		return value;
+	};
+
+const oneOf =
+	(...choices: string[]): Check =>
+	(value, path, errors) =>
+		typeof value === 'string' && choices.includes(value)
+			? value
+			: fail(
+					errors,
+					path,
+					`must be one of ${choices.map(choice => `"${choice}"`).join(', ')}`,
+				);
+
+/**
+ * A list whose invalid items are dropped
+ */
+const arrayOf =
+	(item: Check): Check =>
+	(value, path, errors) => {
+		if (!Array.isArray(value)) {
+			return fail(errors, path, 'must be a list');
+		}
+		return value
+			.map((entry, index) => item(entry, `${path}[${index}]`, errors))
+			.filter(entry => entry !== INVALID);
+	};
+
+/**
+ * An object with arbitrary keys whose invalid values are dropped
+ */
+const recordOf =
+	(item: Check): Check =>
+	(value, path, errors) => {
+		if (!isPlainObject(value)) {
+			return fail(errors, path, 'must be an object');
+		}
+		const result: Record<string, unknown> = {};
+		for (const [key, entry] of Object.entries(value)) {
+			const checked = item(entry, `${path}.${key}`, errors);
+			if (checked !== INVALID) {
+				result[key] = checked;
+			}
+		}
+		return result;
+	};
+
+/**
+ * An object with known fields. Invalid or unknown fields are dropped; the
+ * whole object is invalid when a required field is missing or invalid.
+ */
+const object =
+	(fields: Record<string, Check>, required: string[] = []): Check =>
+	(value, path, errors) => {
+		if (!isPlainObject(value)) {
+			return fail(errors, path, 'must be an object');
+		}
+
+		const result: Record<string, unknown> = {};
+		let valid = true;
+
+		for (const [key, entry] of Object.entries(value)) {
+			const fieldPath = path ? `${path}.${key}` : key;
+			const check = fields[key];
+			if (!check) {
+				fail(errors, fieldPath, 'is not a known setting');
+				continue;
+			}
+			const checked = check(entry, fieldPath, errors);
+			if (checked !== INVALID) {
+				result[key] = checked;
+			} else if (required.includes(key)) {
+				valid = false;
+			}
+		}
+
+		for (const key of required) {
+			if (value[key] === undefined) {
+				fail(errors, path ? `${path}.${key}` : key, 'is required');
+				valid = false;
+			}
+		}
+
+		return valid ? result : INVALID;
+	};
+
+const keyComboFields = {
+	key: string({nonEmpty: true}),
+	ctrl: boolean(),
+	alt: boolean(),
+	shift: boolean(),
+};
+
+const shortcutKey = object(
+	{...keyComboFields, leader: object(keyComboFields, ['key'])},
+	['key'],
+);
+
+const sessionState = oneOf('idle', 'busy', 'waiting_input');
+
+const statusHookFields = {
+	type: oneOf('command', 'webhook'),
+	command: string(),
+	url: string({nonEmpty: true}),
+	body: string(),
+	headers: recordOf(string()),
+	retries: number({integer: true, min: 0}),
+	debounceMs: number({min: 0}),
+	enabled: boolean(),
+	from: arrayOf(sessionState),
+	timeoutMs: number({integer: true, min: 1}),
+	outputLines: number({integer: true, min: 0}),
+};
+
+// Webhooks need a URL, other hooks a command
+const statusHook: Check = (value, path, errors) =>
+	object(statusHookFields, [
+		isPlainObject(value) && value['type'] === 'webhook' ? 'url' : 'command',
+	])(value, path, errors);
+
+const lifecycleHook = object(
+	{
+		command: string(),
+		enabled: boolean(),
+		timeoutMs: number({integer: true, min: 1}),
+	},
+	['command'],
+);
+
+const stateMatcher = object({
+	pattern: string(),
+	flags: string(),
+	lines: number({integer: true, min: 1}),
+	promptBox: oneOf('top', 'bottom', 'line'),
+	cursorLinePattern: string(),
+	minQuietMs: number({min: 0}),
+	maxQuietMs: number({min: 0}),
+});
+
+const agent = object(
+	{
+		id: string({nonEmpty: true}),
+		label: string(),
+		description: string(),
+		command: string({nonEmpty: true}),
+		args: arrayOf(string()),
+		argsEnv: string(),
+		env: recordOf(string()),
+		icon: string(),
+		detection: object({
+			waiting: arrayOf(stateMatcher),
+			busy: arrayOf(stateMatcher),
+			idle: arrayOf(stateMatcher),
+			fallback: sessionState,
+			ready: arrayOf(stateMatcher),
+		}),
+	},
+	['id', 'command'],
+);
+
+const sessionSettingsFields = {
+	defaultCommand: string({nonEmpty: true}),
+	agentOverrides: recordOf(
+		object({args: arrayOf(string()), env: recordOf(string())}),
+	),
+};
+
+const configurationSchema = object({
+	version: number({integer: true, min: 0}),
+	shortcuts: object({
+		returnToMenu: shortcutKey,
+		cancel: shortcutKey,
+		nextWaiting: shortcutKey,
+		newWorktree: shortcutKey,
+		deleteWorktree: shortcutKey,
+		mergeWorktree: shortcutKey,
+		refresh: shortcutKey,
+		killSession: shortcutKey,
+		restartSession: shortcutKey,
+		openShell: shortcutKey,
+		search: shortcutKey,
+		filterState: shortcutKey,
+		filterCommand: shortcutKey,
+		sort: shortcutKey,
+		group: shortcutKey,
+	}),
+	statusHooks: object({
+		idle: arrayOf(statusHook),
+		busy: arrayOf(statusHook),
+		waiting_input: arrayOf(statusHook),
+	}),
+	lifecycleHooks: object({
+		preCreate: arrayOf(lifecycleHook),
+		postCreate: arrayOf(lifecycleHook),
+		preDelete: arrayOf(lifecycleHook),
+		postDelete: arrayOf(lifecycleHook),
+		preMerge: arrayOf(lifecycleHook),
+		postMerge: arrayOf(lifecycleHook),
+	}),
+	worktree: object({
+		autoDirectory: boolean(),
+		autoDirectoryPattern: string(),
+		setupFiles: arrayOf(
+			object(
+				{
+					pattern: string({nonEmpty: true}),
+					mode: oneOf('copy', 'symlink'),
+				},
+				['pattern', 'mode'],
+			),
+		),
+		branchTemplates: arrayOf(string({nonEmpty: true})),
+	}),
+	agents: arrayOf(agent),
+	zellij: object({
+		mode: oneOf('pane', 'tab'),
+		extraPanes: arrayOf(
+			object({name: string({nonEmpty: true}), command: string()}, ['name']),
+		),
+	}),
+	layouts: object({
+		default: string(),
+		projects: recordOf(string()),
+	}),
+	menu: object({
+		sortBy: oneOf('default', 'state', 'activity', 'branch', 'commit'),
+		groupByPrefix: boolean(),
+	}),
+	...sessionSettingsFields,
+	branches: recordOf(object(sessionSettingsFields)),
+});
+
+/**
+ * Validate configuration data read from a file. Invalid values are left out
+ * of the returned configuration and reported with the path of the field, so
+ * one mistake does not discard the rest of the file.
+ */
+export function validateConfiguration(data: unknown): {
+	config: ConfigurationData;
+	errors: ConfigValidationError[];
+} {
+	const errors: ConfigValidationError[] = [];
+	const config = configurationSchema(data, '', errors);
+	return {
+		config: config === INVALID ? {} : (config as ConfigurationData),
+		errors,
+	};
+}
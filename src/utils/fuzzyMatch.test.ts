@@ -0,0 +1,31 @@
+import {describe, it, expect} from 'vitest';
+import {fuzzyScore} from './fuzzyMatch.js';
+
+describe('fuzzyScore', () => {
+	it('should match characters in order', () => {
+		expect(fuzzyScore('fl', 'feature/login')).not.toBeNull();
+		expect(fuzzyScore('FEAT LOG', 'feature/login')).not.toBeNull();
+		expect(fuzzyScore('lf', 'feature/login')).toBeNull();
+		expect(fuzzyScore('x', 'feature/login')).toBeNull();
+	});
+
+	it('should match everything with an empty query', () => {
+		expect(fuzzyScore('', 'main')).toBe(0);
+	});
+
+	it('should rank word starts and consecutive characters higher', () => {
+		const login = fuzzyScore('login', 'feature/login')!;
+		const scattered = fuzzyScore('login', 'fix/long-migration')!;
+		expect(login).toBeGreaterThan(scattered);
+
+		const wordStart = fuzzyScore('fl', 'fix/login')!;
+		const inside = fuzzyScore('fl', 'conflict')!;
+		expect(wordStart).toBeGreaterThan(inside);
+	});
+
+	it('should prefer shorter texts', () => {
+		expect(fuzzyScore('api', 'api')!).toBeGreaterThan(
+			fuzzyScore('api', 'api-client')!,
+		);
+	});
+});
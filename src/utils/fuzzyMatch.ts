@@ -0,0 +1,36 @@
+// Characters after which a match counts as the start of a word
+const WORD_SEPARATORS = ['/', '-', '_', '.', ' '];
+
+/**
+ * Score how well a query matches a text as a case-insensitive subsequence,
+ * e.g. "fl" matches "feature/login". Returns null if the characters of the
+ * query do not all appear in order. Consecutive characters and characters
+ * at the start of a word score higher, and shorter texts win ties.
+ */
+export function fuzzyScore(query: string, text: string): number | null {
+	const needle = query.toLowerCase().replace(/\s+/g, '');
+	const haystack = text.toLowerCase();
+	if (!needle) {
+		return 0;
+	}
+
+	let score = 0;
+	let previous = -2;
+	for (const char of needle) {
+		const index = haystack.indexOf(char, previous + 1);
+		if (index === -1) {
+			return null;
+		}
+
+		score += 1;
+		if (index === previous + 1) {
+			score += 2;
+		}
+		if (index === 0 || WORD_SEPARATORS.includes(haystack[index - 1]!)) {
+			score += 3;
+		}
+		previous = index;
+	}
+
+	return score - haystack.length / 1000;
+}
@@ -0,0 +1,111 @@
+import {describe, it, expect, beforeEach, afterEach} from 'vitest';
+import {mkdtempSync, rmSync} from 'fs';
+import {tmpdir} from 'os';
+import {join} from 'path';
+import {
+	formatHookTransition,
+	getStatusHooksForTransition,
+	MAX_HOOK_OUTPUT_LENGTH,
+	runHookCommand,
+} from './hookUtils.js';
+import {StatusHookConfig} from '../types/index.js';
+
+describe('getStatusHooksForTransition', () => {
+	const hooks: StatusHookConfig = {
+		idle: [
+			{command: 'notify any', enabled: true},
+			{command: 'notify done', enabled: true, from: ['busy']},
+			{command: 'notify disabled', enabled: false},
+			{command: 'notify answered', enabled: true, from: ['waiting_input']},
+		],
+	};
+
+	it('should return enabled hooks matching the previous state in order', () => {
+		expect(
+			getStatusHooksForTransition(hooks, 'busy', 'idle').map(
+				hook => hook.command,
+			),
+		).toEqual(['notify any', 'notify done']);
+		expect(
+			getStatusHooksForTransition(hooks, 'waiting_input', 'idle').map(
+				hook => hook.command,
+			),
+		).toEqual(['notify any', 'notify answered']);
+	});
+
+	it('should return nothing for states without hooks', () => {
+		expect(getStatusHooksForTransition(hooks, 'idle', 'busy')).toEqual([]);
+	});
+
+	it('should describe the transition of a hook', () => {
+		expect(formatHookTransition(hooks.idle![0]!, 'idle')).toBe('* → idle');
+		expect(formatHookTransition(hooks.idle![1]!, 'idle')).toBe('busy → idle');
+	});
+});
+
+describe('runHookCommand', () => {
+	let cwd: string;
+
+	beforeEach(() => {
+		cwd = mkdtempSync(join(tmpdir(), 'ccmanager-hook-'));
+	});
+
+	afterEach(() => {
+		rmSync(cwd, {recursive: true, force: true});
+	});
+
+	it('should pass the input on stdin and the environment to the command', async () => {
+		const result = await runHookCommand('cat; printf " $CCMANAGER_NEW_STATE"', {
+			cwd,
+			env: {CCMANAGER_NEW_STATE: 'idle'},
+			input: '{"newState":"idle"}',
+		});
+
+		expect(result).toMatchObject({
+			success: true,
+			exitCode: 0,
+			timedOut: false,
+			stdout: '{"newState":"idle"} idle',
+		});
+	});
+
+	it('should report a failing command', async () => {
+		const result = await runHookCommand('echo broken >&2; exit 3', {cwd});
+
+		expect(result).toMatchObject({
+			success: false,
+			exitCode: 3,
+			timedOut: false,
+			stderr: 'broken\n',
+		});
+	});
+
+	it('should stop a command that runs longer than its timeout', async () => {
+		const result = await runHookCommand('sleep 5', {cwd, timeoutMs: 100});
+
+		expect(result.success).toBe(false);
+		expect(result.timedOut).toBe(true);
+		expect(result.error).toBe('Timed out after 100ms');
+		expect(result.durationMs).toBeLessThan(5000);
+	});
+
+	it('should keep the end of output longer than the limit', async () => {
+		const result = await runHookCommand(
+			`node -e "process.stdout.write('x'.repeat(2 * 1024 * 1024) + 'done')"`,
+			{cwd},
+		);
+
+		expect(result.success).toBe(true);
+		expect(result.stdout).toHaveLength(MAX_HOOK_OUTPUT_LENGTH);
+		expect(result.stdout.endsWith('xdone')).toBe(true);
+	});
+
+	it('should not fail when the command ignores its input', async () => {
+		const result = await runHookCommand('true', {
+			cwd,
+			input: 'x'.repeat(1024 * 1024),
+		});
+
+		expect(result.success).toBe(true);
+	});
+});
@@ -0,0 +1,136 @@
+import {spawn} from 'child_process';
+import {SessionState, StatusHook, StatusHookConfig} from '../types/index.js';
+
+export const DEFAULT_HOOK_TIMEOUT_MS = 30 * 1000;
+export const DEFAULT_HOOK_OUTPUT_LINES = 20;
+// Lifecycle hooks may install dependencies, so they get more time
+export const DEFAULT_LIFECYCLE_HOOK_TIMEOUT_MS = 10 * 60 * 1000;
+// Output kept per stream; only its end is logged, and installs can print a
+// lot more than fits in memory comfortably
+export const MAX_HOOK_OUTPUT_LENGTH = 64 * 1024;
+
+export interface HookCommandOptions {
+	cwd: string;
+	env?: Record<string, string>; // Added to the environment of CCManager
+	input?: string; // Written to the command's stdin
+	timeoutMs?: number;
+}
+
+export interface HookCommandResult {
+	success: boolean;
+	exitCode: number | null;
+	timedOut: boolean;
+	stdout: string;
+	stderr: string;
+	durationMs: number;
+	error?: string;
+}
+
+/**
+ * Get the enabled hooks to run when a session moves from `oldState` to
+ * `newState`, in the order they are configured
+ */
+export function getStatusHooksForTransition(
+	hooks: StatusHookConfig,
+	oldState: SessionState,
+	newState: SessionState,
+): StatusHook[] {
+	return (hooks[newState] || []).filter(
+		hook =>
+			hook.enabled &&
+			getHookTarget(hook).trim() !== '' &&
+			(!hook.from || hook.from.length === 0 || hook.from.includes(oldState)),
+	);
+}
+
+/**
+ * Get what a hook runs: the URL of webhooks, the command of other hooks
+ */
+export function getHookTarget(hook: StatusHook): string {
+	return (hook.type === 'webhook' ? hook.url : hook.command) || '';
+}
+
+/**
+ * Describe the transitions a hook runs for, e.g. "busy → idle"
+ */
+export function formatHookTransition(
+	hook: StatusHook,
+	newState: SessionState,
+): string {
+	const from = hook.from && hook.from.length > 0 ? hook.from.join('|') : '*';
+	return `${from} → ${newState}`;
+}
+
+/**
+ * Run a hook through the shell. The command is stopped when it runs longer
+ * than its timeout; the promise never rejects. Only the last
+ * `MAX_HOOK_OUTPUT_LENGTH` characters of stdout and stderr are kept.
+ */
+export function runHookCommand(
+	command: string,
+	options: HookCommandOptions,
+): Promise<HookCommandResult> {
+	const startedAt = Date.now();
+	const timeoutMs = options.timeoutMs ?? DEFAULT_HOOK_TIMEOUT_MS;
+
+	return new Promise(resolve => {
+		let stdout = '';
+		let stderr = '';
+		let timedOut = false;
+		let settled = false;
+
+		const finish = (exitCode: number | null, error?: string) => {
+			if (settled) return;
+			settled = true;
+			clearTimeout(timer);
+			resolve({
+				success: !error,
+				exitCode,
+				timedOut,
+				stdout,
+				stderr,
+				durationMs: Date.now() - startedAt,
+				error,
+			});
+		};
+
+		const child = spawn(command, {
+			cwd: options.cwd,
+			env: {...process.env, ...options.env},
+			shell: true,
+		});
+		const timer = setTimeout(() => {
+			timedOut = true;
+			// Processes started by the command may keep the pipes open, so stop
+			// reading them as exec does
+			child.stdout.destroy();
+			child.stderr.destroy();
+			child.kill('SIGTERM');
+		}, timeoutMs);
+
+		child.stdout.setEncoding('utf8');
+		child.stderr.setEncoding('utf8');
+		child.stdout.on('data', (chunk: string) => {
+			stdout = (stdout + chunk).slice(-MAX_HOOK_OUTPUT_LENGTH);
+		});
+		child.stderr.on('data', (chunk: string) => {
+			stderr = (stderr + chunk).slice(-MAX_HOOK_OUTPUT_LENGTH);
+		});
+
+		child.on('error', error => finish(null, error.message));
+		child.on('close', (code, signal) => {
+			if (timedOut) {
+				finish(code, `Timed out after ${timeoutMs}ms`);
+			} else if (code === 0) {
+				finish(0);
+			} else {
+				const reason = signal ? `killed by ${signal}` : `exit code ${code}`;
+				finish(code, `Command failed (${reason}): ${command}`);
+			}
+		});
+
+		// Hooks are free to ignore their input
+		child.stdin.on('error', () => {});
+		child.stdin.end(options.input ?? '');
+	});
+}
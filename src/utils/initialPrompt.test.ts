@@ -0,0 +1,89 @@
+import {describe, it, expect, beforeEach, afterEach} from 'vitest';
+import {mkdirSync, mkdtempSync, rmSync, writeFileSync} from 'fs';
+import {tmpdir} from 'os';
+import {join} from 'path';
+import {
+	isPromptFileReference,
+	loadPromptFile,
+	toBracketedPaste,
+} from './initialPrompt.js';
+
+describe('isPromptFileReference', () => {
+	it('should treat a leading @ as a file reference', () => {
+		expect(isPromptFileReference('@task.md')).toBe(true);
+		expect(isPromptFileReference('  @docs/task.md ')).toBe(true);
+	});
+
+	it('should keep plain text as an inline prompt', () => {
+		expect(isPromptFileReference('Fix the login bug')).toBe(false);
+		expect(isPromptFileReference('Ask @alice about the API')).toBe(false);
+		expect(isPromptFileReference('')).toBe(false);
+	});
+});
+
+describe('loadPromptFile', () => {
+	let tempDir: string;
+
+	beforeEach(() => {
+		tempDir = mkdtempSync(join(tmpdir(), 'ccmanager-prompt-'));
+	});
+
+	afterEach(() => {
+		rmSync(tempDir, {recursive: true, force: true});
+	});
+
+	it('should load and trim the prompt of a file', () => {
+		const filePath = join(tempDir, 'task.md');
+		writeFileSync(filePath, '\nFix the bug\nand test it\n\n');
+
+		expect(loadPromptFile(`@${filePath}`)).toEqual({
+			success: true,
+			prompt: 'Fix the bug\nand test it',
+		});
+	});
+
+	it('should resolve paths relative to the working directory', () => {
+		const cwd = process.cwd();
+		writeFileSync(join(tempDir, 'task.md'), 'Task');
+		try {
+			process.chdir(tempDir);
+			expect(loadPromptFile('@task.md ')).toEqual({
+				success: true,
+				prompt: 'Task',
+			});
+		} finally {
+			process.chdir(cwd);
+		}
+	});
+
+	it('should report missing files and directories', () => {
+		const missing = join(tempDir, 'missing.md');
+		expect(loadPromptFile(`@${missing}`)).toEqual({
+			success: false,
+			error: `File not found: ${missing}`,
+		});
+
+		const directory = join(tempDir, 'docs');
+		mkdirSync(directory);
+		expect(loadPromptFile(`@${directory}`)).toEqual({
+			success: false,
+			error: `File not found: ${directory}`,
+		});
+	});
+
+	it('should report empty files', () => {
+		const filePath = join(tempDir, 'empty.md');
+		writeFileSync(filePath, '  \n\n');
+
+		expect(loadPromptFile(`@${filePath}`)).toEqual({
+			success: false,
+			error: `File is empty: ${filePath}`,
+		});
+	});
+});
+
+describe('toBracketedPaste', () => {
+	it('should wrap the prompt in paste markers', () => {
+		expect(toBracketedPaste('a\nb')).toBe('\x1b[200~a\nb\x1b[201~');
+	});
+});
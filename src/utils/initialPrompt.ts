@@ -0,0 +1,50 @@
+import {existsSync, readFileSync, statSync} from 'fs';
+import path from 'path';
+
+// Time the agent gets to take in a pasted prompt before it is submitted
+export const PROMPT_SUBMIT_DELAY_MS = 200;
+
+export const BRACKETED_PASTE_START = '\x1b[200~';
+export const BRACKETED_PASTE_END = '\x1b[201~';
+
+/**
+ * Wrap text in bracketed paste markers so agents take line breaks as part of
+ * the prompt instead of submitting each line
+ */
+export function toBracketedPaste(text: string): string {
+	return `${BRACKETED_PASTE_START}${text}${BRACKETED_PASTE_END}`;
+}
+
+/**
+ * Whether the first line of a prompt refers to a file to load it from, e.g.
+ * "@docs/task.md". Any other text is the prompt itself.
+ */
+export function isPromptFileReference(line: string): boolean {
+	return line.trim().startsWith('@');
+}
+
+/**
+ * Read a prompt from a file given as "@path", relative to the directory
+ * CCManager was started in
+ */
+export function loadPromptFile(reference: string): {
+	success: boolean;
+	prompt?: string;
+	error?: string;
+} {
+	const filePath = path.resolve(reference.replace(/^@/, '').trim());
+	try {
+		if (!existsSync(filePath) || !statSync(filePath).isFile()) {
+			return {success: false, error: `File not found: ${filePath}`};
+		}
+		const prompt = readFileSync(filePath, 'utf-8').trim();
+		return prompt
+			? {success: true, prompt}
+			: {success: false, error: `File is empty: ${filePath}`};
+	} catch (error) {
+		return {
+			success: false,
+			error: error instanceof Error ? error.message : String(error),
+		};
+	}
+}
@@ -0,0 +1,32 @@
+import {EventEmitter} from 'events';
+import {useEffect} from 'react';
+import {useStdin} from 'ink';
+
+/**
+ * Call the handler with each chunk Ink reads from stdin, before any useInput
+ * handler sees it.
+ *
+ * Ink only hands out its input events as `useStdin().internal_eventEmitter`,
+ * which is not part of its documented API (present in Ink 4). Reading stdin
+ * ourselves is not an option: sessions take stdin over for the agent, and a
+ * second reader would see their keys too. If a later Ink drops the emitter,
+ * the handler is never called and shortcuts fall back to what useInput
+ * reports, which covers single keys but not chords or function keys.
+ */
+export function useRawInkInput(handler: (data: string) => void): void {
+	const {internal_eventEmitter: inputEmitter} = useStdin() as {
+		internal_eventEmitter?: EventEmitter;
+	};
+
+	useEffect(() => {
+		if (!inputEmitter) {
+			return;
+		}
+
+		inputEmitter.prependListener('input', handler);
+
+		return () => {
+			inputEmitter.removeListener('input', handler);
+		};
+	}, [inputEmitter, handler]);
+}
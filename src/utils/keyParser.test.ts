@@ -0,0 +1,86 @@
+import {describe, it, expect} from 'vitest';
+import {parseKeys} from './keyParser.js';
+
+const parseKey = (input: string) => {
+	const keys = parseKeys(input);
+	expect(keys).toHaveLength(1);
+	const {key, ctrl, alt, shift} = keys[0]!;
+	return {key, ctrl, alt, shift};
+};
+
+describe('parseKeys', () => {
+	it('should parse plain, shifted and control characters', () => {
+		expect(parseKey('n')).toEqual({
+			key: 'n',
+			ctrl: false,
+			alt: false,
+			shift: false,
+		});
+		expect(parseKey('N')).toEqual({
+			key: 'n',
+			ctrl: false,
+			alt: false,
+			shift: true,
+		});
+		expect(parseKey('\x05')).toEqual({
+			key: 'e',
+			ctrl: true,
+			alt: false,
+			shift: false,
+		});
+		expect(parseKey('\r').key).toBe('return');
+		expect(parseKey('\x7f').key).toBe('backspace');
+	});
+
+	it('should read Alt from an ESC prefix', () => {
+		expect(parseKey('\x1bn')).toEqual({
+			key: 'n',
+			ctrl: false,
+			alt: true,
+			shift: false,
+		});
+		expect(parseKey('\x1b\x01')).toEqual({
+			key: 'a',
+			ctrl: true,
+			alt: true,
+			shift: false,
+		});
+		expect(parseKey('\x1b').key).toBe('escape');
+	});
+
+	it('should parse arrows and function keys with modifiers', () => {
+		expect(parseKey('\x1b[A').key).toBe('up');
+		expect(parseKey('\x1b[1;5C')).toEqual({
+			key: 'right',
+			ctrl: true,
+			alt: false,
+			shift: false,
+		});
+		expect(parseKey('\x1bOP').key).toBe('f1');
+		expect(parseKey('\x1b[15~').key).toBe('f5');
+		expect(parseKey('\x1b[24;4~')).toEqual({
+			key: 'f12',
+			ctrl: false,
+			alt: true,
+			shift: true,
+		});
+		expect(parseKey('\x1b[Z')).toEqual({
+			key: 'tab',
+			ctrl: false,
+			alt: false,
+			shift: true,
+		});
+	});
+
+	it('should split input holding several keys', () => {
+		expect(parseKeys('a\x1b[Bb\x1b').map(({key}) => key)).toEqual([
+			'a',
+			'down',
+			'b',
+			'escape',
+		]);
+		expect(parseKeys('\x1b[B').map(({sequence}) => sequence)).toEqual([
+			'\x1b[B',
+		]);
+	});
+});
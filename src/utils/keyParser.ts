@@ -0,0 +1,161 @@
+import {KeyCombo} from '../types/index.js';
+
+export interface ParsedKey extends Required<KeyCombo> {
+	sequence: string; // Raw input the key was read from
+}
+
+// Names of keys that do not type a character
+export const KEY_NAMES = [
+	'escape',
+	'return',
+	'tab',
+	'backspace',
+	'space',
+	'insert',
+	'delete',
+	'home',
+	'end',
+	'pageup',
+	'pagedown',
+	'up',
+	'down',
+	'left',
+	'right',
+	...Array.from({length: 12}, (_, i) => `f${i + 1}`),
+];
+
+// Final character of CSI (ESC [) and SS3 (ESC O) sequences
+const LETTER_KEYS: Record<string, string> = {
+	A: 'up',
+	B: 'down',
+	C: 'right',
+	D: 'left',
+	H: 'home',
+	F: 'end',
+	P: 'f1',
+	Q: 'f2',
+	R: 'f3',
+	S: 'f4',
+};
+
+// Number of ESC [ <number> ~ sequences
+const TILDE_KEYS: Record<string, string> = {
+	'1': 'home',
+	'2': 'insert',
+	'3': 'delete',
+	'4': 'end',
+	'5': 'pageup',
+	'6': 'pagedown',
+	'7': 'home',
+	'8': 'end',
+	'11': 'f1',
+	'12': 'f2',
+	'13': 'f3',
+	'14': 'f4',
+	'15': 'f5',
+	'17': 'f6',
+	'18': 'f7',
+	'19': 'f8',
+	'20': 'f9',
+	'21': 'f10',
+	'23': 'f11',
+	'24': 'f12',
+};
+
+const ESCAPE_SEQUENCE = /^\x1b(?:\[(\d+)?(?:;(\d+))?([A-Z~])|O([A-Z]))/;
+
+const key = (
+	name: string,
+	sequence: string,
+	modifiers: Partial<KeyCombo> = {},
+): ParsedKey => ({
+	key: name,
+	ctrl: !!modifiers.ctrl,
+	alt: !!modifiers.alt,
+	shift: !!modifiers.shift,
+	sequence,
+});
+
+/**
+ * Decode the modifier parameter of xterm sequences, e.g. the 5 in
+ * ESC [ 1 ; 5 A (Ctrl+Up): one plus a bit mask of shift, alt and ctrl
+ */
+const decodeModifiers = (parameter?: string): Partial<KeyCombo> => {
+	const mask = Math.max(Number(parameter || 1) - 1, 0);
+	return {shift: !!(mask & 1), alt: !!(mask & 2), ctrl: !!(mask & 4)};
+};
+
+const parseCharacter = (char: string): ParsedKey => {
+	const code = char.charCodeAt(0);
+	if (char === '\r' || char === '\n') return key('return', char);
+	if (char === '\t') return key('tab', char);
+	if (char === '\x7f' || char === '\b') return key('backspace', char);
+	if (char === ' ') return key('space', char);
+	if (char === '\x00') return key('space', char, {ctrl: true});
+	if (code >= 1 && code <= 26) {
+		return key(String.fromCharCode(code + 96), char, {ctrl: true});
+	}
+	if (code >= 28 && code <= 31) {
+		// Ctrl+\, Ctrl+], Ctrl+^ and Ctrl+_
+		return key(String.fromCharCode(code + 64), char, {ctrl: true});
+	}
+	if (/^[A-Z]$/.test(char)) {
+		return key(char.toLowerCase(), char, {shift: true});
+	}
+	return key(char, char);
+};
+
+const parseEscapeSequence = (input: string): ParsedKey | undefined => {
+	const match = ESCAPE_SEQUENCE.exec(input);
+	if (!match) {
+		return undefined;
+	}
+
+	const [sequence, number, modifier, csiFinal, ss3Final] = match;
+	if (ss3Final) {
+		const name = LETTER_KEYS[ss3Final];
+		return name ? key(name, sequence) : undefined;
+	}
+	if (csiFinal === 'Z') {
+		return key('tab', sequence, {shift: true});
+	}
+	const name =
+		csiFinal === '~' ? TILDE_KEYS[number || ''] : LETTER_KEYS[csiFinal!];
+	return name ? key(name, sequence, decodeModifiers(modifier)) : undefined;
+};
+
+/**
+ * Split raw terminal input into keys. Alt is read from an ESC prefix, and
+ * Shift, Alt and Ctrl on arrows and function keys from the xterm modifier
+ * parameter. Shift is only known for letters and those keys.
+ */
+export function parseKeys(input: string): ParsedKey[] {
+	const keys: ParsedKey[] = [];
+	let rest = input;
+	while (rest.length > 0) {
+		const sequenceKey = parseEscapeSequence(rest);
+		if (sequenceKey) {
+			keys.push(sequenceKey);
+			rest = rest.slice(sequenceKey.sequence.length);
+			continue;
+		}
+
+		const char = String.fromCodePoint(rest.codePointAt(0)!);
+		const next = rest.slice(char.length);
+		if (char === '\x1b' && next.length > 0 && next[0] !== '\x1b') {
+			// ESC followed by a key is that key with Alt
+			const [altKey] = parseKeys(String.fromCodePoint(next.codePointAt(0)!));
+			keys.push({
+				...altKey!,
+				alt: true,
+				sequence: char + altKey!.sequence,
+			});
+			rest = next.slice(altKey!.sequence.length);
+			continue;
+		}
+
+		keys.push(char === '\x1b' ? key('escape', char) : parseCharacter(char));
+		rest = next;
+	}
+	return keys;
+}
@@ -0,0 +1,102 @@
+import {describe, it, expect} from 'vitest';
+import {MenuEntry, groupMenuEntries, sortMenuEntries} from './menuSort.js';
+import {Session, SessionState} from '../types/index.js';
+
+const entry = (
+	branch: string,
+	options: {state?: SessionState; activity?: number; commit?: number} = {},
+): MenuEntry => ({
+	worktree: {
+		path: `/repo/${branch}`,
+		branch: `refs/heads/${branch}`,
+		isMainWorktree: false,
+		hasSession: !!options.state,
+	},
+	session: options.state
+		? ({
+				state: options.state,
+				lastActivity: new Date(options.activity ?? 0),
+			} as Session)
+		: undefined,
+	status:
+		options.commit === undefined
+			? undefined
+			: {dirtyFiles: 0, lastCommitAt: new Date(options.commit)},
+});
+
+const branches = (entries: MenuEntry[]) =>
+	entries.map(({worktree}) => worktree.branch.replace('refs/heads/', ''));
+
+describe('sortMenuEntries', () => {
+	const entries = [
+		entry('main', {commit: 300}),
+		entry('fix/crash', {state: 'idle', activity: 200, commit: 100}),
+		entry('feature/api', {state: 'waiting_input', activity: 100}),
+		entry('feature/ui', {state: 'busy', activity: 300, commit: 200}),
+	];
+
+	it('should keep the git order by default', () => {
+		expect(branches(sortMenuEntries(entries, 'default'))).toEqual([
+			'main',
+			'fix/crash',
+			'feature/api',
+			'feature/ui',
+		]);
+	});
+
+	it('should put waiting sessions first and worktrees without one last', () => {
+		expect(branches(sortMenuEntries(entries, 'state'))).toEqual([
+			'feature/api',
+			'feature/ui',
+			'fix/crash',
+			'main',
+		]);
+	});
+
+	it('should sort by the most recent activity or commit', () => {
+		expect(branches(sortMenuEntries(entries, 'activity'))).toEqual([
+			'feature/ui',
+			'fix/crash',
+			'feature/api',
+			'main',
+		]);
+		expect(branches(sortMenuEntries(entries, 'commit'))).toEqual([
+			'main',
+			'feature/ui',
+			'fix/crash',
+			'feature/api',
+		]);
+	});
+
+	it('should sort by branch name without changing the input', () => {
+		expect(branches(sortMenuEntries(entries, 'branch'))).toEqual([
+			'feature/api',
+			'feature/ui',
+			'fix/crash',
+			'main',
+		]);
+		expect(branches(entries)[0]).toBe('main');
+	});
+});
+
+describe('groupMenuEntries', () => {
+	it('should group by branch prefix with unprefixed branches first', () => {
+		const groups = groupMenuEntries([
+			entry('release/1.0'),
+			entry('feature/ui'),
+			entry('main'),
+			entry('feature/api'),
+		]);
+
+		expect(
+			groups.map(group => ({
+				prefix: group.prefix,
+				branches: branches(group.entries),
+			})),
+		).toEqual([
+			{prefix: undefined, branches: ['main']},
+			{prefix: 'feature', branches: ['feature/ui', 'feature/api']},
+			{prefix: 'release', branches: ['release/1.0']},
+		]);
+	});
+});
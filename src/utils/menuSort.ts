@@ -0,0 +1,101 @@
+import {
+	MenuSortMode,
+	Session,
+	SessionState,
+	Worktree,
+	WorktreeStatus,
+} from '../types/index.js';
+import {extractBranchParts} from './worktreeUtils.js';
+
+export interface MenuEntry {
+	worktree: Worktree;
+	session?: Session;
+	status?: WorktreeStatus;
+}
+
+export interface MenuGroup<T extends MenuEntry> {
+	prefix?: string; // Undefined for branches without a prefix
+	entries: T[];
+}
+
+export const MENU_SORT_MODES: MenuSortMode[] = [
+	'default',
+	'state',
+	'activity',
+	'branch',
+	'commit',
+];
+
+export const MENU_SORT_LABELS: Record<MenuSortMode, string> = {
+	default: 'git order',
+	state: 'state',
+	activity: 'last activity',
+	branch: 'branch name',
+	commit: 'last commit',
+};
+
+// Sessions that need attention first, worktrees without a session last
+const STATE_PRIORITY: Record<SessionState, number> = {
+	waiting_input: 0,
+	busy: 1,
+	idle: 2,
+};
+
+const getBranchName = (worktree: Worktree) =>
+	worktree.branch.replace('refs/heads/', '');
+
+// Newest first; entries without a time go last
+const compareTimes = (a?: Date, b?: Date) =>
+	(b?.getTime() ?? -Infinity) - (a?.getTime() ?? -Infinity) || 0;
+
+const COMPARATORS: Record<
+	MenuSortMode,
+	((a: MenuEntry, b: MenuEntry) => number) | undefined
+> = {
+	default: undefined,
+	state: (a, b) =>
+		(a.session ? STATE_PRIORITY[a.session.state] : 3) -
+		(b.session ? STATE_PRIORITY[b.session.state] : 3),
+	activity: (a, b) =>
+		compareTimes(a.session?.lastActivity, b.session?.lastActivity),
+	branch: (a, b) =>
+		getBranchName(a.worktree).localeCompare(getBranchName(b.worktree)),
+	commit: (a, b) =>
+		compareTimes(a.status?.lastCommitAt, b.status?.lastCommitAt),
+};
+
+/**
+ * Sort menu entries without changing the input. The sort is stable, so
+ * entries that compare equal keep the order of git worktree list.
+ */
+export function sortMenuEntries<T extends MenuEntry>(
+	entries: T[],
+	mode: MenuSortMode,
+): T[] {
+	const comparator = COMPARATORS[mode];
+	return comparator ? [...entries].sort(comparator) : [...entries];
+}
+
+/**
+ * Group menu entries by branch prefix, keeping their order within a group.
+ * Branches without a prefix come first, followed by the prefixes in
+ * alphabetical order.
+ */
+export function groupMenuEntries<T extends MenuEntry>(
+	entries: T[],
+): MenuGroup<T>[] {
+	const groups = new Map<string | undefined, T[]>();
+	for (const entry of entries) {
+		const {prefix} = extractBranchParts(getBranchName(entry.worktree));
+		groups.set(prefix, [...(groups.get(prefix) || []), entry]);
+	}
+
+	return [...groups.entries()]
+		.map(([prefix, groupEntries]) => ({prefix, entries: groupEntries}))
+		.sort((a, b) => {
+			if (a.prefix === undefined || b.prefix === undefined) {
+				return a.prefix === undefined ? -1 : 1;
+			}
+			return a.prefix.localeCompare(b.prefix);
+		});
+}
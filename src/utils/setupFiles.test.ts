@@ -0,0 +1,124 @@
+import {describe, it, expect, beforeEach, afterEach} from 'vitest';
+import {
+	existsSync,
+	lstatSync,
+	mkdirSync,
+	mkdtempSync,
+	readFileSync,
+	rmSync,
+	writeFileSync,
+} from 'fs';
+import {tmpdir} from 'os';
+import {join} from 'path';
+import {copySetupFiles, findSetupFiles} from './setupFiles.js';
+
+describe('setup files', () => {
+	let baseDir: string;
+	let rootPath: string;
+	let worktreePath: string;
+
+	const write = (file: string, content = file) => {
+		const fullPath = join(rootPath, file);
+		mkdirSync(join(fullPath, '..'), {recursive: true});
+		writeFileSync(fullPath, content);
+	};
+
+	beforeEach(() => {
+		baseDir = mkdtempSync(join(tmpdir(), 'ccmanager-setup-'));
+		rootPath = join(baseDir, 'main');
+		worktreePath = join(baseDir, 'feature');
+		mkdirSync(rootPath);
+		mkdirSync(worktreePath);
+
+		write('.env');
+		write('.env.local');
+		write('README.md');
+		write('certs/dev.pem');
+		write('certs/dev.key');
+		write('packages/api/.env');
+		write('node_modules/pkg/.env');
+		write('.git/config');
+	});
+
+	afterEach(() => {
+		rmSync(baseDir, {recursive: true, force: true});
+	});
+
+	describe('findSetupFiles', () => {
+		it('should match globs within and across directories', () => {
+			const files = findSetupFiles(rootPath, [
+				{pattern: '.env*', mode: 'copy'},
+				{pattern: 'certs/*.pem', mode: 'symlink'},
+				{pattern: '**/.env', mode: 'copy'},
+			]);
+
+			expect(files).toEqual([
+				{path: '.env', mode: 'copy', isDirectory: false},
+				{path: '.env.local', mode: 'copy', isDirectory: false},
+				{path: join('certs', 'dev.pem'), mode: 'symlink', isDirectory: false},
+				{
+					path: join('packages', 'api', '.env'),
+					mode: 'copy',
+					isDirectory: false,
+				},
+			]);
+		});
+
+		it('should list a matched directory once', () => {
+			const files = findSetupFiles(rootPath, [
+				{pattern: 'certs/*', mode: 'copy'},
+				{pattern: 'certs', mode: 'symlink'},
+			]);
+
+			expect(files).toEqual([
+				{path: 'certs', mode: 'symlink', isDirectory: true},
+			]);
+		});
+
+		it('should ignore patterns outside the main worktree', () => {
+			expect(
+				findSetupFiles(rootPath, [{pattern: '../*', mode: 'copy'}]),
+			).toEqual([]);
+		});
+	});
+
+	describe('copySetupFiles', () => {
+		it('should copy and symlink files without overwriting existing ones', () => {
+			writeFileSync(join(worktreePath, '.env.local'), 'tracked');
+
+			const result = copySetupFiles(rootPath, worktreePath, [
+				{pattern: '.env*', mode: 'copy'},
+				{pattern: 'certs', mode: 'symlink'},
+			]);
+
+			expect(result).toEqual({success: true, copied: ['.env', 'certs']});
+			expect(readFileSync(join(worktreePath, '.env'), 'utf-8')).toBe('.env');
+			expect(lstatSync(join(worktreePath, '.env')).isSymbolicLink()).toBe(
+				false,
+			);
+			expect(readFileSync(join(worktreePath, '.env.local'), 'utf-8')).toBe(
+				'tracked',
+			);
+			expect(lstatSync(join(worktreePath, 'certs')).isSymbolicLink()).toBe(
+				true,
+			);
+			expect(
+				readFileSync(join(worktreePath, 'certs', 'dev.key'), 'utf-8'),
+			).toBe('certs/dev.key');
+		});
+
+		it('should copy directories recursively', () => {
+			const result = copySetupFiles(rootPath, worktreePath, [
+				{pattern: 'packages', mode: 'copy'},
+			]);
+
+			expect(result.success).toBe(true);
+			expect(existsSync(join(worktreePath, 'packages', 'api', '.env'))).toBe(
+				true,
+			);
+			expect(lstatSync(join(worktreePath, 'packages')).isSymbolicLink()).toBe(
+				false,
+			);
+		});
+	});
+});
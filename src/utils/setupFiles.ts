@@ -0,0 +1,188 @@
+import path from 'path';
+import {
+	copyFileSync,
+	existsSync,
+	lstatSync,
+	mkdirSync,
+	readdirSync,
+	readlinkSync,
+	symlinkSync,
+} from 'fs';
+import {SetupFileMode, SetupFileRule} from '../types/index.js';
+import {matchesBranchPattern} from './worktreeUtils.js';
+
+// Directories `**` does not descend into; name them explicitly to match them
+const SKIPPED_DIRECTORIES = ['.git', 'node_modules'];
+
+export interface SetupFileMatch {
+	path: string; // Relative to the main worktree
+	mode: SetupFileMode;
+	isDirectory: boolean;
+}
+
+const hasWildcard = (segment: string) => /[*?]/.test(segment);
+
+const isDirectory = (fullPath: string) => {
+	try {
+		return lstatSync(fullPath).isDirectory();
+	} catch {
+		return false;
+	}
+};
+
+const listDirectory = (fullPath: string): string[] => {
+	try {
+		return readdirSync(fullPath);
+	} catch {
+		return [];
+	}
+};
+
+/**
+ * Expand a glob pattern relative to the root, walking only the directories
+ * the pattern can reach
+ */
+function expandPattern(
+	rootPath: string,
+	relativePath: string,
+	segments: string[],
+	matches: Set<string>,
+): void {
+	const fullPath = path.join(rootPath, relativePath);
+	const [segment, ...rest] = segments;
+
+	if (segment === undefined) {
+		if (relativePath) {
+			matches.add(relativePath);
+		}
+		return;
+	}
+
+	if (segment === '**') {
+		expandPattern(rootPath, relativePath, rest, matches);
+		for (const name of listDirectory(fullPath)) {
+			const child = path.join(relativePath, name);
+			if (
+				!SKIPPED_DIRECTORIES.includes(name) &&
+				isDirectory(path.join(rootPath, child))
+			) {
+				expandPattern(rootPath, child, segments, matches);
+			}
+		}
+		return;
+	}
+
+	const names = hasWildcard(segment)
+		? listDirectory(fullPath).filter(
+				name => name !== '.git' && matchesBranchPattern(segment, name),
+			)
+		: [segment];
+
+	for (const name of names) {
+		const child = path.join(relativePath, name);
+		const childPath = path.join(rootPath, child);
+		if (rest.length === 0 ? existsSync(childPath) : isDirectory(childPath)) {
+			expandPattern(rootPath, child, rest, matches);
+		}
+	}
+}
+
+/**
+ * Find the files of the main worktree that the rules copy into a new
+ * worktree. A path matched by several rules uses the first one, and paths
+ * inside a matched directory are not listed separately.
+ */
+export function findSetupFiles(
+	rootPath: string,
+	rules: SetupFileRule[],
+): SetupFileMatch[] {
+	const modes = new Map<string, SetupFileMode>();
+
+	for (const rule of rules) {
+		const segments = rule.pattern
+			.split(/[\\/]+/)
+			.filter(segment => segment && segment !== '.');
+		// Patterns may not reach outside the main worktree
+		if (segments.length === 0 || segments.includes('..')) {
+			continue;
+		}
+
+		const matches = new Set<string>();
+		expandPattern(rootPath, '', segments, matches);
+		for (const match of matches) {
+			if (!modes.has(match)) {
+				modes.set(match, rule.mode);
+			}
+		}
+	}
+
+	const paths = [...modes.keys()].sort();
+	return paths
+		.filter(
+			file =>
+				!paths.some(
+					other => other !== file && file.startsWith(`${other}${path.sep}`),
+				),
+		)
+		.map(file => ({
+			path: file,
+			mode: modes.get(file)!,
+			isDirectory: isDirectory(path.join(rootPath, file)),
+		}));
+}
+
+function copyPath(source: string, target: string): void {
+	const stats = lstatSync(source);
+	if (stats.isSymbolicLink()) {
+		symlinkSync(readlinkSync(source), target);
+	} else if (stats.isDirectory()) {
+		mkdirSync(target, {recursive: true});
+		for (const name of readdirSync(source)) {
+			const targetChild = path.join(target, name);
+			if (!existsSync(targetChild)) {
+				copyPath(path.join(source, name), targetChild);
+			}
+		}
+	} else {
+		copyFileSync(source, target);
+	}
+}
+
+/**
+ * Copy or symlink the setup files of the main worktree into a new worktree.
+ * Files that already exist in the worktree, e.g. tracked ones, are kept.
+ */
+export function copySetupFiles(
+	rootPath: string,
+	worktreePath: string,
+	rules: SetupFileRule[],
+): {success: boolean; copied: string[]; error?: string} {
+	const copied: string[] = [];
+	const errors: string[] = [];
+
+	for (const file of findSetupFiles(rootPath, rules)) {
+		const source = path.resolve(rootPath, file.path);
+		const target = path.resolve(worktreePath, file.path);
+		if (existsSync(target)) {
+			continue;
+		}
+
+		try {
+			mkdirSync(path.dirname(target), {recursive: true});
+			if (file.mode === 'symlink') {
+				symlinkSync(source, target, file.isDirectory ? 'dir' : 'file');
+			} else {
+				copyPath(source, target);
+			}
+			copied.push(file.path);
+		} catch (error) {
+			errors.push(
+				`${file.path}: ${error instanceof Error ? error.message : String(error)}`,
+			);
+		}
+	}
+
+	return errors.length > 0
+		? {success: false, copied, error: errors.join(', ')}
+		: {success: true, copied};
+}
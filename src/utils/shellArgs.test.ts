@@ -0,0 +1,97 @@
+import {describe, it, expect} from 'vitest';
+import {
+	formatShellCommand,
+	parseShellArgs,
+	quoteShellArg,
+} from './shellArgs.js';
+
+describe('parseShellArgs', () => {
+	it('should split on any whitespace', () => {
+		expect(parseShellArgs('  --model  opus\t--verbose\n')).toEqual([
+			'--model',
+			'opus',
+			'--verbose',
+		]);
+	});
+
+	it('should return no arguments for empty input', () => {
+		expect(parseShellArgs('')).toEqual([]);
+		expect(parseShellArgs('   ')).toEqual([]);
+	});
+
+	it('should group quoted words into one argument', () => {
+		expect(
+			parseShellArgs(
+				`--append-system-prompt "be brief, be kind" --add-dir '/my repo'`,
+			),
+		).toEqual([
+			'--append-system-prompt',
+			'be brief, be kind',
+			'--add-dir',
+			'/my repo',
+		]);
+	});
+
+	it('should join adjacent quoted and unquoted parts', () => {
+		expect(parseShellArgs(`--dir="/tmp/a b"'/c'`)).toEqual([
+			'--dir=/tmp/a b/c',
+		]);
+	});
+
+	it('should keep empty quoted arguments', () => {
+		expect(parseShellArgs(`--prompt ""`)).toEqual(['--prompt', '']);
+	});
+
+	it('should not expand variables or command substitutions', () => {
+		expect(parseShellArgs(`$HOME "$(rm -rf /)" '\`id\`'`)).toEqual([
+			'$HOME',
+			'$(rm -rf /)',
+			'`id`',
+		]);
+	});
+
+	it('should handle backslash escapes', () => {
+		expect(parseShellArgs(String.raw`a\ b "say \"hi\" \n" 'c\d'`)).toEqual([
+			'a b',
+			'say "hi" \\n',
+			'c\\d',
+		]);
+	});
+
+	it('should run an unterminated quote to the end of the input', () => {
+		expect(parseShellArgs(`--name "feature x`)).toEqual([
+			'--name',
+			'feature x',
+		]);
+	});
+});
+
+describe('quoteShellArg', () => {
+	it('should leave safe arguments unchanged', () => {
+		expect(quoteShellArg('/repo/feature-1/file.ts')).toBe(
+			'/repo/feature-1/file.ts',
+		);
+	});
+
+	it('should single-quote arguments with special characters', () => {
+		expect(quoteShellArg('my repo')).toBe(`'my repo'`);
+		expect(quoteShellArg('$HOME')).toBe(`'$HOME'`);
+		expect(quoteShellArg(`it's`)).toBe(`'it'\\''s'`);
+		expect(quoteShellArg('')).toBe(`''`);
+	});
+});
+
+describe('formatShellCommand', () => {
+	it('should round-trip through parseShellArgs', () => {
+		const argv = [
+			'claude',
+			'--add-dir',
+			`/work/my "quoted" repo's $HOME`,
+			'feature/$(whoami)',
+			'',
+			'tab\there',
+		];
+
+		expect(parseShellArgs(formatShellCommand(argv))).toEqual(argv);
+	});
+});
@@ -0,0 +1,79 @@
+/**
+ * Split a command line into arguments the way a POSIX shell would, without
+ * expansions: quotes group words, `$` and globs stay literal. An unterminated
+ * quote runs to the end of the input.
+ */
+export function parseShellArgs(input: string): string[] {
+	const args: string[] = [];
+	let current = '';
+	let inArg = false;
+	let quote: "'" | '"' | null = null;
+
+	for (let i = 0; i < input.length; i++) {
+		const char = input[i]!;
+
+		if (quote === "'") {
+			if (char === "'") {
+				quote = null;
+			} else {
+				current += char;
+			}
+			continue;
+		}
+
+		if (quote === '"') {
+			if (char === '"') {
+				quote = null;
+			} else if (char === '\\' && /["\\$`\n]/.test(input[i + 1] || '')) {
+				// Inside double quotes a backslash only escapes these characters
+				current += input[++i];
+			} else {
+				current += char;
+			}
+			continue;
+		}
+
+		if (/\s/.test(char)) {
+			if (inArg) {
+				args.push(current);
+				current = '';
+				inArg = false;
+			}
+			continue;
+		}
+
+		inArg = true;
+		if (char === "'" || char === '"') {
+			quote = char;
+		} else if (char === '\\' && i + 1 < input.length) {
+			current += input[++i];
+		} else {
+			current += char;
+		}
+	}
+
+	if (inArg) {
+		args.push(current);
+	}
+
+	return args;
+}
+
+/**
+ * Quote an argument for a POSIX shell. Arguments made of safe characters are
+ * returned unchanged.
+ */
+export function quoteShellArg(arg: string): string {
+	if (/^[\w@%+=:,./-]+$/.test(arg)) {
+		return arg;
+	}
+	return `'${arg.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Join an argv into a command line that a POSIX shell parses back into the
+ * same arguments
+ */
+export function formatShellCommand(argv: string[]): string {
+	return argv.map(quoteShellArg).join(' ');
+}
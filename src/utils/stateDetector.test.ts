@@ -0,0 +1,279 @@
+import {describe, it, expect} from 'vitest';
+import pkg from '@xterm/headless';
+import {
+	captureTerminalSnapshot,
+	DEFAULT_READY_QUIET_MS,
+	detectStateFromSnapshot,
+	isReadyForInput,
+	matchesStateMatcher,
+	TerminalSnapshot,
+} from './stateDetector.js';
+import {
+	CLAUDE_DETECTION_PROFILE,
+	CODEX_DETECTION_PROFILE,
+	GENERIC_DETECTION_PROFILE,
+} from '../constants/detectionProfiles.js';
+const {Terminal} = pkg;
+
+// Recorded terminal screens (ANSI stripped) from real sessions
+const SNAPSHOTS = {
+	claudeIdle: `╭───────────────────────────────────────────────────╮
+│ ✻ Welcome to Claude Code!                         │
+╰───────────────────────────────────────────────────╯
+
+╭───────────────────────────────────────────────────╮
+│ >                                                 │
+╰───────────────────────────────────────────────────╯
+  ? for shortcuts`,
+	claudeBusy: `> add a test for the parser
+
+✻ Pondering… (12s · ↑ 1.2k tokens · esc to interrupt)
+
+╭───────────────────────────────────────────────────╮
+│ >                                                 │
+╰───────────────────────────────────────────────────╯`,
+	claudeWaiting: `╭───────────────────────────────────────────────────╮
+│ Edit file                                         │
+│ src/parser.ts                                     │
+│                                                   │
+│ Do you want to make this edit to parser.ts?       │
+│ ❯ 1. Yes                                          │
+│   2. No, and tell Claude what to do differently   │
+╰───────────────────────────────────────────────────╯`,
+	codexIdle: `>_ You are using OpenAI Codex in ~/project
+
+▌ Ask Codex to do anything
+ ⏎ send   ⌃J newline   ⌃T transcript   ⌃C quit`,
+	codexBusy: `▌ fix the flaky test
+
+• Working (8s • Esc to interrupt)
+
+▌ Ask Codex to do anything`,
+	codexWaiting: `• Proposed Command
+  └ npm test
+
+Allow command?
+
+▌ Yes (y)   No, provide feedback (esc)`,
+};
+
+async function terminalFromText(text: string) {
+	const terminal = new Terminal({cols: 80, rows: 24, allowProposedApi: true});
+	await new Promise<void>(resolve =>
+		terminal.write(text.replace(/\n/g, '\r\n'), resolve),
+	);
+	return terminal;
+}
+
+// Snapshot of a screen whose cursor is on its last line
+function snapshotOf(text: string, msSinceOutput = 0): TerminalSnapshot {
+	const lines = text.trimEnd().split('\n');
+	return {lines, cursorLine: lines[lines.length - 1]!, msSinceOutput};
+}
+
+describe('captureTerminalSnapshot', () => {
+	it('should capture lines without trailing blank lines', async () => {
+		const terminal = await terminalFromText('first\nsecond\n\n\n');
+
+		const snapshot = captureTerminalSnapshot(terminal);
+
+		expect(snapshot.lines).toEqual(['first', 'second']);
+	});
+
+	it('should capture the line under the cursor', async () => {
+		const terminal = await terminalFromText('output\n│ > typing');
+
+		const snapshot = captureTerminalSnapshot(terminal);
+
+		expect(snapshot.cursorLine).toBe('│ > typing');
+	});
+
+	it('should compute time since the last output', async () => {
+		const terminal = await terminalFromText('output');
+
+		const snapshot = captureTerminalSnapshot(
+			terminal,
+			new Date(Date.now() - 5000),
+		);
+
+		expect(snapshot.msSinceOutput).toBeGreaterThanOrEqual(5000);
+	});
+});
+
+describe('matchesStateMatcher', () => {
+	const snapshot = snapshotOf(SNAPSHOTS.claudeIdle, 3000);
+
+	it('should require all conditions of a matcher', () => {
+		expect(
+			matchesStateMatcher({pattern: 'welcome', minQuietMs: 1000}, snapshot),
+		).toBe(true);
+		expect(
+			matchesStateMatcher({pattern: 'welcome', maxQuietMs: 1000}, snapshot),
+		).toBe(false);
+	});
+
+	it('should restrict patterns to the last N lines', () => {
+		expect(matchesStateMatcher({pattern: 'Welcome', lines: 2}, snapshot)).toBe(
+			false,
+		);
+		expect(
+			matchesStateMatcher({pattern: 'shortcuts', lines: 2}, snapshot),
+		).toBe(true);
+	});
+
+	it('should detect prompt box borders', () => {
+		expect(matchesStateMatcher({promptBox: 'top'}, snapshot)).toBe(true);
+		expect(matchesStateMatcher({promptBox: 'bottom'}, snapshot)).toBe(true);
+		expect(matchesStateMatcher({promptBox: 'line'}, snapshot)).toBe(true);
+		expect(matchesStateMatcher({promptBox: 'top'}, snapshotOf('plain'))).toBe(
+			false,
+		);
+	});
+
+	it('should match the cursor line', () => {
+		expect(
+			matchesStateMatcher({cursorLinePattern: 'for shortcuts'}, snapshot),
+		).toBe(true);
+		expect(matchesStateMatcher({cursorLinePattern: '^│'}, snapshot)).toBe(
+			false,
+		);
+	});
+
+	it('should treat an invalid regex as a plain substring', () => {
+		expect(
+			matchesStateMatcher(
+				{pattern: '(unclosed'},
+				snapshotOf('text (unclosed paren'),
+			),
+		).toBe(true);
+	});
+});
+
+describe('detectStateFromSnapshot', () => {
+	describe('claude profile', () => {
+		it('should detect idle', async () => {
+			const terminal = await terminalFromText(SNAPSHOTS.claudeIdle);
+			expect(
+				detectStateFromSnapshot(
+					captureTerminalSnapshot(terminal),
+					CLAUDE_DETECTION_PROFILE,
+				),
+			).toBe('idle');
+		});
+
+		it('should detect busy', async () => {
+			const terminal = await terminalFromText(SNAPSHOTS.claudeBusy);
+			expect(
+				detectStateFromSnapshot(
+					captureTerminalSnapshot(terminal),
+					CLAUDE_DETECTION_PROFILE,
+				),
+			).toBe('busy');
+		});
+
+		it('should detect waiting for input', async () => {
+			const terminal = await terminalFromText(SNAPSHOTS.claudeWaiting);
+			expect(
+				detectStateFromSnapshot(
+					captureTerminalSnapshot(terminal),
+					CLAUDE_DETECTION_PROFILE,
+				),
+			).toBe('waiting_input');
+		});
+	});
+
+	describe('codex profile', () => {
+		it('should detect idle', () => {
+			expect(
+				detectStateFromSnapshot(
+					snapshotOf(SNAPSHOTS.codexIdle, 5000),
+					CODEX_DETECTION_PROFILE,
+				),
+			).toBe('idle');
+		});
+
+		it('should detect busy', () => {
+			expect(
+				detectStateFromSnapshot(
+					snapshotOf(SNAPSHOTS.codexBusy, 100),
+					CODEX_DETECTION_PROFILE,
+				),
+			).toBe('busy');
+		});
+
+		it('should detect waiting for input', () => {
+			expect(
+				detectStateFromSnapshot(
+					snapshotOf(SNAPSHOTS.codexWaiting, 5000),
+					CODEX_DETECTION_PROFILE,
+				),
+			).toBe('waiting_input');
+		});
+	});
+
+	describe('generic profile', () => {
+		it('should report busy while output is flowing', () => {
+			expect(
+				detectStateFromSnapshot(
+					snapshotOf('compiling...', 200),
+					GENERIC_DETECTION_PROFILE,
+				),
+			).toBe('busy');
+		});
+
+		it('should report idle once output stops', () => {
+			expect(
+				detectStateFromSnapshot(
+					snapshotOf('done', 5000),
+					GENERIC_DETECTION_PROFILE,
+				),
+			).toBe('idle');
+		});
+	});
+
+	it('should prefer waiting over busy and use the fallback state', () => {
+		const snapshot = snapshotOf('Proceed? esc to interrupt');
+
+		expect(
+			detectStateFromSnapshot(snapshot, {
+				waiting: [{pattern: 'Proceed\\?'}],
+				busy: [{pattern: 'esc to interrupt'}],
+			}),
+		).toBe('waiting_input');
+		expect(
+			detectStateFromSnapshot(snapshotOf('nothing'), {
+				fallback: 'busy',
+			}),
+		).toBe('busy');
+	});
+});
+
+describe('isReadyForInput', () => {
+	it('should wait for the input box of Claude Code', () => {
+		const banner = '│ ✻ Welcome to Claude Code!                         │';
+		expect(
+			isReadyForInput(snapshotOf(banner, 5000), CLAUDE_DETECTION_PROFILE),
+		).toBe(false);
+		expect(
+			isReadyForInput(
+				snapshotOf(SNAPSHOTS.claudeIdle, 5000),
+				CLAUDE_DETECTION_PROFILE,
+			),
+		).toBe(true);
+	});
+
+	it('should wait for a quiet period without ready matchers', () => {
+		expect(
+			isReadyForInput(
+				snapshotOf('$ ', DEFAULT_READY_QUIET_MS - 1),
+				GENERIC_DETECTION_PROFILE,
+			),
+		).toBe(false);
+		expect(
+			isReadyForInput(
+				snapshotOf('$ ', DEFAULT_READY_QUIET_MS),
+				GENERIC_DETECTION_PROFILE,
+			),
+		).toBe(true);
+	});
+});
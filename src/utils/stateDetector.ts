@@ -0,0 +1,174 @@
+import {
+	DetectionProfile,
+	SessionState,
+	StateMatcher,
+	Terminal,
+} from '../types/index.js';
+import {
+	includesPromptBoxBottomBorder,
+	includesPromptBoxLine,
+	includesPromptBoxTopBorder,
+} from './promptDetector.js';
+
+const MAX_SNAPSHOT_LINES = 30;
+
+// Quiet period after which an idle agent without ready matchers accepts input
+export const DEFAULT_READY_QUIET_MS = 1000;
+
+export interface TerminalSnapshot {
+	lines: string[]; // Last non-empty lines of the screen, oldest first
+	cursorLine: string; // Text of the line under the cursor
+	msSinceOutput: number; // Time since the agent last wrote output
+}
+
+/**
+ * Read the last lines of a virtual terminal, oldest first, skipping empty
+ * lines at the bottom
+ */
+export function readTerminalLines(
+	terminal: Terminal,
+	maxLines: number,
+): string[] {
+	const buffer = terminal.buffer.active;
+	const lines: string[] = [];
+
+	// Start from the bottom and work our way up
+	for (let i = buffer.length - 1; i >= 0 && lines.length < maxLines; i--) {
+		const line = buffer.getLine(i);
+		if (line) {
+			const text = line.translateToString(true);
+			// Skip empty lines at the bottom
+			if (lines.length > 0 || text.trim() !== '') {
+				lines.unshift(text);
+			}
+		}
+	}
+
+	return lines;
+}
+
+/**
+ * Capture the visible state of a virtual terminal for state detection
+ */
+export function captureTerminalSnapshot(
+	terminal: Terminal,
+	lastOutputAt?: Date,
+): TerminalSnapshot {
+	const buffer = terminal.buffer.active;
+	const lines = readTerminalLines(terminal, MAX_SNAPSHOT_LINES);
+
+	const cursorLine =
+		buffer.getLine(buffer.baseY + buffer.cursorY)?.translateToString(true) ||
+		'';
+
+	return {
+		lines,
+		cursorLine,
+		msSinceOutput: lastOutputAt ? Date.now() - lastOutputAt.getTime() : 0,
+	};
+}
+
+function testPattern(pattern: string, flags: string, text: string): boolean {
+	try {
+		return new RegExp(pattern, flags).test(text);
+	} catch {
+		// Invalid regex from configuration, fall back to a plain substring
+		return text.toLowerCase().includes(pattern.toLowerCase());
+	}
+}
+
+export function matchesStateMatcher(
+	matcher: StateMatcher,
+	snapshot: TerminalSnapshot,
+): boolean {
+	const lines =
+		matcher.lines !== undefined
+			? snapshot.lines.slice(-matcher.lines)
+			: snapshot.lines;
+	const content = lines.join('\n');
+	const flags = matcher.flags ?? 'i';
+
+	if (
+		matcher.pattern !== undefined &&
+		!testPattern(matcher.pattern, flags, content)
+	) {
+		return false;
+	}
+
+	if (matcher.promptBox === 'top' && !includesPromptBoxTopBorder(content)) {
+		return false;
+	}
+	if (
+		matcher.promptBox === 'bottom' &&
+		!includesPromptBoxBottomBorder(content)
+	) {
+		return false;
+	}
+	if (matcher.promptBox === 'line' && !includesPromptBoxLine(content)) {
+		return false;
+	}
+
+	if (
+		matcher.cursorLinePattern !== undefined &&
+		!testPattern(matcher.cursorLinePattern, flags, snapshot.cursorLine)
+	) {
+		return false;
+	}
+
+	if (
+		matcher.minQuietMs !== undefined &&
+		snapshot.msSinceOutput < matcher.minQuietMs
+	) {
+		return false;
+	}
+	if (
+		matcher.maxQuietMs !== undefined &&
+		snapshot.msSinceOutput > matcher.maxQuietMs
+	) {
+		return false;
+	}
+
+	return true;
+}
+
+/**
+ * Detect the session state of a terminal snapshot using a detection profile
+ */
+export function detectStateFromSnapshot(
+	snapshot: TerminalSnapshot,
+	profile: DetectionProfile,
+): SessionState {
+	const matchesAny = (matchers?: StateMatcher[]) =>
+		(matchers || []).some(matcher => matchesStateMatcher(matcher, snapshot));
+
+	if (matchesAny(profile.waiting)) {
+		return 'waiting_input';
+	}
+
+	if (matchesAny(profile.busy)) {
+		return 'busy';
+	}
+
+	if (matchesAny(profile.idle)) {
+		return 'idle';
+	}
+
+	return profile.fallback || 'idle';
+}
+
+/**
+ * Whether an idle agent accepts input. The startup banner of many agents
+ * already looks idle while they are still loading, so a profile's `ready`
+ * matchers are required if it has any, otherwise a quiet period.
+ */
+export function isReadyForInput(
+	snapshot: TerminalSnapshot,
+	profile: DetectionProfile,
+): boolean {
+	if (profile.ready && profile.ready.length > 0) {
+		return profile.ready.some(matcher =>
+			matchesStateMatcher(matcher, snapshot),
+		);
+	}
+	return snapshot.msSinceOutput >= DEFAULT_READY_QUIET_MS;
+}
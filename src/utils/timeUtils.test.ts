@@ -0,0 +1,17 @@
+import {describe, it, expect} from 'vitest';
+import {formatElapsed} from './timeUtils.js';
+
+describe('formatElapsed', () => {
+	it('should use the largest whole unit', () => {
+		expect(formatElapsed(0)).toBe('0s');
+		expect(formatElapsed(999)).toBe('0s');
+		expect(formatElapsed(45 * 1000)).toBe('45s');
+		expect(formatElapsed(12 * 60 * 1000 + 59 * 1000)).toBe('12m');
+		expect(formatElapsed(3 * 60 * 60 * 1000)).toBe('3h');
+		expect(formatElapsed(5 * 24 * 60 * 60 * 1000)).toBe('5d');
+	});
+
+	it('should treat negative durations as zero', () => {
+		expect(formatElapsed(-5000)).toBe('0s');
+	});
+});
@@ -0,0 +1,18 @@
+const UNITS: [string, number][] = [
+	['d', 24 * 60 * 60 * 1000],
+	['h', 60 * 60 * 1000],
+	['m', 60 * 1000],
+	['s', 1000],
+];
+
+/**
+ * Format a duration in its largest unit, e.g. "45s", "12m", "3h" or "5d"
+ */
+export function formatElapsed(ms: number): string {
+	for (const [unit, size] of UNITS) {
+		if (ms >= size) {
+			return `${Math.floor(ms / size)}${unit}`;
+		}
+	}
+	return '0s';
+}
@@ -0,0 +1,159 @@
+import {describe, it, expect, beforeEach, afterEach} from 'vitest';
+import http from 'http';
+import {AddressInfo} from 'net';
+import {
+	createSampleStatusHookPayload,
+	renderWebhookBody,
+	sendWebhook,
+} from './webhook.js';
+import {StatusHookPayload} from '../types/index.js';
+
+describe('renderWebhookBody', () => {
+	const payload: StatusHookPayload = {
+		sessionId: 'session-1',
+		commandType: 'claude',
+		branch: 'feature/"quoted"',
+		worktreePath: '/repo/feature',
+		oldState: 'busy',
+		newState: 'idle',
+		previousStateDurationMs: 1500,
+		output: ['line 1', 'line 2'],
+		timestamp: '2024-01-01T00:00:00.000Z',
+	};
+
+	it('should send the payload without a template', () => {
+		expect(JSON.parse(renderWebhookBody(undefined, payload))).toEqual(payload);
+	});
+
+	it('should escape values for JSON strings', () => {
+		const body = renderWebhookBody(
+			'{"text": "{branch} is {new_state} after {duration_ms}ms", "log": "{output}", "raw": {payload}}',
+			payload,
+		);
+
+		expect(JSON.parse(body)).toEqual({
+			text: 'feature/"quoted" is idle after 1500ms',
+			log: 'line 1\nline 2',
+			raw: payload,
+		});
+	});
+
+	it('should keep unknown placeholders', () => {
+		expect(renderWebhookBody('{"a": "{unknown}"}', payload)).toBe(
+			'{"a": "{unknown}"}',
+		);
+	});
+});
+
+describe('sendWebhook', () => {
+	let server: http.Server;
+	let url: string;
+	let requests: {body: string; headers: http.IncomingHttpHeaders}[];
+	let statuses: number[];
+	let brokenResponses: number; // Responses cut off after the headers
+
+	beforeEach(async () => {
+		requests = [];
+		statuses = [];
+		brokenResponses = 0;
+		server = http.createServer((request, response) => {
+			let body = '';
+			request.on('data', chunk => (body += chunk));
+			request.on('end', () => {
+				requests.push({body, headers: request.headers});
+				if (brokenResponses > 0) {
+					brokenResponses--;
+					response.writeHead(200, {'Content-Length': 100});
+					response.write('partial', () => response.destroy());
+					return;
+				}
+				response.statusCode = statuses.shift() ?? 200;
+				response.end();
+			});
+		});
+		await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+		url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+	});
+
+	afterEach(async () => {
+		await new Promise(resolve => server.close(resolve));
+	});
+
+	it('should POST the body as JSON with the configured headers', async () => {
+		const body = JSON.stringify(createSampleStatusHookPayload('idle'));
+		const result = await sendWebhook({
+			url,
+			body,
+			headers: {Authorization: 'Bearer token'},
+		});
+
+		expect(result).toEqual({success: true, status: 200, attempts: 1});
+		expect(requests).toHaveLength(1);
+		expect(requests[0]!.body).toBe(body);
+		expect(requests[0]!.headers['content-type']).toBe('application/json');
+		expect(requests[0]!.headers['authorization']).toBe('Bearer token');
+	});
+
+	it('should retry server errors with backoff', async () => {
+		statuses = [503, 500];
+		const result = await sendWebhook({url, body: '{}', backoffMs: 5});
+
+		expect(result).toEqual({success: true, status: 200, attempts: 3});
+		expect(requests).toHaveLength(3);
+	});
+
+	it('should give up after the configured retries', async () => {
+		statuses = [500, 500, 500];
+		const result = await sendWebhook({
+			url,
+			body: '{}',
+			retries: 1,
+			backoffMs: 5,
+		});
+
+		expect(result).toEqual({
+			success: false,
+			status: 500,
+			attempts: 2,
+			error: 'HTTP 500',
+		});
+	});
+
+	it('should retry responses that are cut off', async () => {
+		brokenResponses = 1;
+		const first = await sendWebhook({
+			url,
+			body: '{}',
+			retries: 0,
+			backoffMs: 5,
+		});
+		expect(first.success).toBe(false);
+		expect(first.attempts).toBe(1);
+		expect(first.error).toBeDefined();
+
+		brokenResponses = 1;
+		const retried = await sendWebhook({url, body: '{}', backoffMs: 5});
+		expect(retried).toEqual({success: true, status: 200, attempts: 2});
+	});
+
+	it('should not retry client errors', async () => {
+		statuses = [404];
+		const result = await sendWebhook({url, body: '{}', backoffMs: 5});
+
+		expect(result.success).toBe(false);
+		expect(result.attempts).toBe(1);
+	});
+
+	it('should report unreachable and invalid URLs', async () => {
+		// Move the server to another port so the URL refuses connections
+		await new Promise(resolve => server.close(resolve));
+		server.listen(0);
+
+		const unreachable = await sendWebhook({url, body: '{}', retries: 0});
+		expect(unreachable.success).toBe(false);
+		expect(unreachable.error).toBeDefined();
+
+		const invalid = await sendWebhook({url: 'ftp://example.com', body: '{}'});
+		expect(invalid).toMatchObject({success: false, attempts: 0});
+	});
+});
@@ -0,0 +1,189 @@
+import http from 'http';
+import https from 'https';
+import {URL} from 'url';
+import {SessionState, StatusHookPayload} from '../types/index.js';
+
+export const DEFAULT_WEBHOOK_RETRIES = 2;
+export const DEFAULT_WEBHOOK_DEBOUNCE_MS = 1000;
+export const DEFAULT_WEBHOOK_TIMEOUT_MS = 10 * 1000;
+// Delay before the first retry, doubled for every further attempt
+const DEFAULT_RETRY_BACKOFF_MS = 1000;
+
+export interface WebhookRequest {
+	url: string;
+	body: string;
+	headers?: Record<string, string>;
+	timeoutMs?: number; // Per attempt
+	retries?: number; // Attempts after the first one fails
+	backoffMs?: number;
+}
+
+export interface WebhookResult {
+	success: boolean;
+	status?: number; // HTTP status of the last attempt
+	attempts: number;
+	error?: string;
+}
+
+interface AttemptResult {
+	status?: number;
+	error?: string;
+}
+
+/**
+ * Fill a webhook body template with the values of a status change. Values
+ * are escaped for use inside JSON strings, except `{payload}` which is the
+ * whole payload as JSON. Without a template the payload itself is sent.
+ */
+export function renderWebhookBody(
+	template: string | undefined,
+	payload: StatusHookPayload,
+): string {
+	if (!template) {
+		return JSON.stringify(payload);
+	}
+
+	// Escaped for use inside a JSON string
+	const escape = (value: string | number) =>
+		JSON.stringify(String(value)).slice(1, -1);
+
+	const values = new Map<string, string>([
+		['session_id', escape(payload.sessionId)],
+		['command_type', escape(payload.commandType)],
+		['branch', escape(payload.branch)],
+		['worktree', escape(payload.worktreePath)],
+		['old_state', escape(payload.oldState)],
+		['new_state', escape(payload.newState)],
+		['duration_ms', escape(payload.previousStateDurationMs)],
+		['output', escape(payload.output.join('\n'))],
+		['timestamp', escape(payload.timestamp)],
+		['payload', JSON.stringify(payload)],
+	]);
+
+	// Unknown placeholders are left as they are
+	return template.replace(
+		/\{(\w+)\}/g,
+		(match, name: string) => values.get(name) ?? match,
+	);
+}
+
+/**
+ * Payload used to test a webhook from the configuration screen
+ */
+export function createSampleStatusHookPayload(
+	newState: SessionState,
+): StatusHookPayload {
+	return {
+		sessionId: 'session-test',
+		commandType: 'claude',
+		branch: 'feature/webhook-test',
+		worktreePath: process.cwd(),
+		oldState: newState === 'busy' ? 'idle' : 'busy',
+		newState,
+		previousStateDurationMs: 42000,
+		output: ['This is a test notification from CCManager.'],
+		timestamp: new Date().toISOString(),
+	};
+}
+
+function postOnce(
+	url: URL,
+	body: string,
+	headers: Record<string, string>,
+	timeoutMs: number,
+): Promise<AttemptResult> {
+	const client = url.protocol === 'https:' ? https : http;
+
+	return new Promise(resolve => {
+		const request = client.request(
+			url,
+			{
+				method: 'POST',
+				headers: {
+					'Content-Type': 'application/json',
+					'Content-Length': Buffer.byteLength(body),
+					...headers,
+				},
+				timeout: timeoutMs,
+			},
+			response => {
+				// Drain the response so the connection is released
+				response.resume();
+				response.on('end', () => resolve({status: response.statusCode}));
+				// The connection can drop before the response is complete
+				response.on('aborted', () =>
+					resolve({error: 'Connection closed before the response ended'}),
+				);
+				response.on('error', error => resolve({error: error.message}));
+			},
+		);
+
+		request.on('timeout', () => {
+			request.destroy(new Error(`Timed out after ${timeoutMs}ms`));
+		});
+		request.on('error', error => resolve({error: error.message}));
+		request.end(body);
+	});
+}
+
+const isRetryable = (attempt: AttemptResult) =>
+	attempt.status === undefined ||
+	attempt.status === 429 ||
+	attempt.status >= 500;
+
+/**
+ * POST a JSON body to a webhook. Network errors, timeouts, 429 and 5xx
+ * responses are retried with exponential backoff; the promise never rejects.
+ */
+export async function sendWebhook(
+	request: WebhookRequest,
+): Promise<WebhookResult> {
+	let url: URL;
+	try {
+		url = new URL(request.url);
+		if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+			throw new Error('only http and https URLs are supported');
+		}
+	} catch (error) {
+		return {
+			success: false,
+			attempts: 0,
+			error: `Invalid URL ${request.url}: ${error instanceof Error ? error.message : String(error)}`,
+		};
+	}
+
+	const retries = request.retries ?? DEFAULT_WEBHOOK_RETRIES;
+	const backoffMs = request.backoffMs ?? DEFAULT_RETRY_BACKOFF_MS;
+	let attempt: AttemptResult = {};
+	let attempts = 0;
+
+	while (attempts <= retries) {
+		if (attempts > 0) {
+			await new Promise(resolve =>
+				setTimeout(resolve, backoffMs * 2 ** (attempts - 1)),
+			);
+		}
+
+		attempts++;
+		attempt = await postOnce(
+			url,
+			request.body,
+			request.headers || {},
+			request.timeoutMs ?? DEFAULT_WEBHOOK_TIMEOUT_MS,
+		);
+
+		if (attempt.status !== undefined && attempt.status < 300) {
+			return {success: true, status: attempt.status, attempts};
+		}
+		if (!isRetryable(attempt)) {
+			break;
+		}
+	}
+
+	return {
+		success: false,
+		status: attempt.status,
+		attempts,
+		error: attempt.error || `HTTP ${attempt.status}`,
+	};
+}
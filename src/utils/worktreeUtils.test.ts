@@ -1,7 +1,13 @@
 import {describe, it, expect} from 'vitest';
+import {execFileSync} from 'child_process';
 import {
 	generateWorktreeDirectory,
 	extractBranchParts,
+	getWorktreeDisplayPath,
+	matchesBranchPattern,
+	getTemplateVariables,
+	renderBranchTemplate,
+	validateBranchName,
 } from './worktreeUtils.js';
 
 describe('generateWorktreeDirectory', () => {
@@ -111,3 +117,129 @@ describe('extractBranchParts', () => {
 		});
 	});
 });
+
+describe('getWorktreeDisplayPath', () => {
+	it('should drop the directories shared by every worktree', () => {
+		const main = '/home/alice/projects/app';
+
+		expect(getWorktreeDisplayPath(main, main)).toBe('app');
+		expect(
+			getWorktreeDisplayPath('/home/alice/projects/app-feature', main),
+		).toBe('app-feature');
+		expect(
+			getWorktreeDisplayPath('/home/alice/projects/trees/fix-crash', main),
+		).toBe('trees/fix-crash');
+		expect(getWorktreeDisplayPath('/tmp/elsewhere/hotfix', main)).toBe(
+			'hotfix',
+		);
+		expect(getWorktreeDisplayPath('/home/alice/projects/app')).toBe('app');
+	});
+});
+
+describe('matchesBranchPattern', () => {
+	it('should match a single segment with *', () => {
+		expect(matchesBranchPattern('feature/*', 'feature/login')).toBe(true);
+		expect(matchesBranchPattern('feature/*', 'feature/user/login')).toBe(false);
+		expect(matchesBranchPattern('feature/*', 'bugfix/login')).toBe(false);
+	});
+
+	it('should match across segments with **', () => {
+		expect(matchesBranchPattern('feature/**', 'feature/user/login')).toBe(true);
+		expect(matchesBranchPattern('**', 'main')).toBe(true);
+	});
+
+	it('should match single characters with ?', () => {
+		expect(matchesBranchPattern('release/v?', 'release/v2')).toBe(true);
+		expect(matchesBranchPattern('release/v?', 'release/v10')).toBe(false);
+	});
+
+	it('should treat other characters literally', () => {
+		expect(matchesBranchPattern('release/1.0', 'release/1.0')).toBe(true);
+		expect(matchesBranchPattern('release/1.0', 'release/100')).toBe(false);
+		expect(matchesBranchPattern('main', 'main-old')).toBe(false);
+	});
+});
+
+describe('branch templates', () => {
+	it('should list the variables to ask for', () => {
+		expect(getTemplateVariables('{user}/{ticket}-{slug}')).toEqual([
+			'ticket',
+			'slug',
+		]);
+		expect(getTemplateVariables('{date}-{slug}-{slug}')).toEqual(['slug']);
+		expect(getTemplateVariables('hotfix/{user}')).toEqual([]);
+	});
+
+	it('should fill in the template', () => {
+		const now = new Date(2024, 0, 5);
+
+		expect(
+			renderBranchTemplate(
+				'{user}/{ticket}-{slug}',
+				{user: 'jane', ticket: 'PROJ-12 ', slug: 'Fix Login  Page'},
+				now,
+			),
+		).toBe('jane/PROJ-12-fix-login-page');
+		expect(renderBranchTemplate('release/{date}', {}, now)).toBe(
+			'release/2024-01-05',
+		);
+		expect(renderBranchTemplate('{ticket}-{slug}', {ticket: 'A-1'}, now)).toBe(
+			'A-1-{slug}',
+		);
+	});
+});
+
+describe('validateBranchName', () => {
+	const names = [
+		'feature/login',
+		'jane/PROJ-12-fix',
+		'v1.0',
+		'',
+		'-feature',
+		'feature branch',
+		'feature~1',
+		'feature^',
+		'a:b',
+		'what?',
+		'wild*',
+		'[x]',
+		'back\\slash',
+		'a..b',
+		'at@{1}',
+		'dot.',
+		'/leading',
+		'trailing/',
+		'double//slash',
+		'.hidden',
+		'feature/.hidden',
+		'locked.lock',
+		'feature/x.lock/y',
+	];
+
+	it('should follow git check-ref-format --branch', () => {
+		for (const name of names) {
+			let gitAccepts = true;
+			try {
+				execFileSync('git', ['check-ref-format', '--branch', name], {
+					stdio: 'pipe',
+				});
+			} catch {
+				gitAccepts = false;
+			}
+
+			expect({name, valid: validateBranchName(name) === undefined}).toEqual({
+				name,
+				valid: gitAccepts,
+			});
+		}
+	});
+
+	it('should explain what is wrong', () => {
+		expect(validateBranchName('feature branch')).toBe(
+			'Branch name cannot contain spaces or control characters',
+		);
+		expect(validateBranchName('a..b')).toBe('Branch name cannot contain ".."');
+		// check-ref-format reads "@" as HEAD, but git branch refuses it
+		expect(validateBranchName('@')).toBe('Branch name cannot be "@"');
+	});
+});
@@ -1,3 +1,4 @@
+import os from 'os';
 import path from 'path';
 
 export function generateWorktreeDirectory(
@@ -38,3 +39,148 @@ export function extractBranchParts(branchName: string): {
 	}
 	return {name: branchName};
 }
+
+/**
+ * Get the part of a worktree path that tells worktrees apart: the path
+ * relative to the directory holding the main worktree, or the directory
+ * name for worktrees outside it. Leading directories such as the home
+ * directory are shared by every worktree, so they are left out.
+ */
+export function getWorktreeDisplayPath(
+	worktreePath: string,
+	mainWorktreePath?: string,
+): string {
+	if (mainWorktreePath) {
+		const relativePath = path.relative(
+			path.dirname(mainWorktreePath),
+			worktreePath,
+		);
+		if (
+			relativePath &&
+			!relativePath.startsWith('..') &&
+			!path.isAbsolute(relativePath)
+		) {
+			return relativePath;
+		}
+	}
+	return path.basename(worktreePath);
+}
+
+/**
+ * Match a branch name against a glob pattern: `*` matches within one path
+ * segment, `**` across segments and `?` a single character
+ */
+export function matchesBranchPattern(
+	pattern: string,
+	branchName: string,
+): boolean {
+	const source = pattern
+		.split(/(\*\*|\*|\?)/)
+		.map(part => {
+			if (part === '**') return '.*';
+			if (part === '*') return '[^/]*';
+			if (part === '?') return '[^/]';
+			return part.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+		})
+		.join('');
+	return new RegExp(`^${source}$`).test(branchName);
+}
+
+// Variables of branch templates that are filled in without asking
+const AUTOMATIC_TEMPLATE_VARIABLES = ['user', 'date'];
+
+/**
+ * List the variables of a branch template the user has to fill in, e.g.
+ * `ticket` and `slug` for "{user}/{ticket}-{slug}"
+ */
+export function getTemplateVariables(template: string): string[] {
+	const variables: string[] = [];
+	for (const [, name] of template.matchAll(/\{([\w-]+)\}/g)) {
+		if (
+			!AUTOMATIC_TEMPLATE_VARIABLES.includes(name!) &&
+			!variables.includes(name!)
+		) {
+			variables.push(name!);
+		}
+	}
+	return variables;
+}
+
+/**
+ * Fill in a branch template. `{user}` is the login name and `{date}` today's
+ * date (YYYY-MM-DD) unless given; whitespace in values becomes dashes and
+ * `{slug}` is lowercased. Variables without a value are left as they are.
+ */
+export function renderBranchTemplate(
+	template: string,
+	values: Record<string, string>,
+	now: Date = new Date(),
+): string {
+	const pad = (value: number) => String(value).padStart(2, '0');
+	const automatic: Record<string, () => string> = {
+		user: () => {
+			try {
+				return os.userInfo().username;
+			} catch {
+				return process.env['USER'] || 'user';
+			}
+		},
+		date: () =>
+			`${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`,
+	};
+
+	return template.replace(/\{([\w-]+)\}/g, (placeholder, name: string) => {
+		const value = values[name] ?? automatic[name]?.();
+		if (value === undefined) {
+			return placeholder;
+		}
+		const normalized = value.trim().replace(/\s+/g, '-');
+		return name === 'slug' ? normalized.toLowerCase() : normalized;
+	});
+}
+
+/**
+ * Check a branch name against the rules of `git check-ref-format --branch`.
+ * Returns the broken rule, or undefined for a valid name.
+ */
+export function validateBranchName(branchName: string): string | undefined {
+	if (!branchName) {
+		return 'Branch name is empty';
+	}
+	if (branchName === '@') {
+		return 'Branch name cannot be "@"';
+	}
+	if (branchName.startsWith('-')) {
+		return 'Branch name cannot start with "-"';
+	}
+	const invalid = branchName.match(/[\x00-\x20\x7f~^:?*[\\]/);
+	if (invalid) {
+		return invalid[0].trim()
+			? `Branch name cannot contain "${invalid[0]}"`
+			: 'Branch name cannot contain spaces or control characters';
+	}
+	if (branchName.includes('..')) {
+		return 'Branch name cannot contain ".."';
+	}
+	if (branchName.includes('@{')) {
+		return 'Branch name cannot contain "@{"';
+	}
+	if (branchName.endsWith('.')) {
+		return 'Branch name cannot end with "."';
+	}
+	if (branchName.startsWith('/') || branchName.endsWith('/')) {
+		return 'Branch name cannot start or end with "/"';
+	}
+	for (const component of branchName.split('/')) {
+		if (!component) {
+			return 'Branch name cannot contain "//"';
+		}
+		if (component.startsWith('.')) {
+			return 'Branch name parts cannot start with "."';
+		}
+		if (component.endsWith('.lock')) {
+			return 'Branch name parts cannot end with ".lock"';
+		}
+	}
+	return undefined;
+}
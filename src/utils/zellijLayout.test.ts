@@ -0,0 +1,215 @@
+import {describe, it, expect} from 'vitest';
+import {
+	generateAgentPane,
+	generateWorktreeLayout,
+	kdlString,
+	parseLayoutPanes,
+	renderLayoutTemplate,
+} from './zellijLayout.js';
+
+const LAYOUT = `layout {
+    cwd "/home/user/project"
+    tab name="Tab #1" focus=true hide_floating_panes=true {
+        pane size=1 borderless=true {
+            plugin location="zellij:tab-bar"
+        }
+        pane split_direction="vertical" {
+            pane command="ccmanager" focus=true {
+                start_suspended false
+            }
+            pane command="script" cwd="../project-feature" name="feature-login" {
+                args "-q" "-f" "-c" "claude --resume" "/tmp/ccmanager/feature-login.log"
+            }
+            pane cwd="../project-fix"
+        }
+        pane size=2 borderless=true {
+            plugin location="zellij:status-bar"
+        }
+        floating_panes {
+            pane command="codex" cwd="/srv/other" name="floating-agent" focus=true
+        }
+    }
+    tab name="release-1.0" cwd="/home/user/project-release" {
+        pane name="release-1.0" command="claude" focus=true
+    }
+    new_tab_template {
+        pane command="claude" name="template"
+    }
+    swap_tiled_layout name="vertical" {
+        tab max_panes=5 {
+            pane command="claude" name="swap"
+        }
+    }
+}
+`;
+
+describe('parseLayoutPanes', () => {
+	const panes = parseLayoutPanes(LAYOUT);
+
+	it('should return terminal panes and skip plugins, containers and templates', () => {
+		expect(panes.map(pane => pane.name ?? pane.command ?? '(shell)')).toEqual([
+			'ccmanager',
+			'feature-login',
+			'(shell)',
+			'floating-agent',
+			'release-1.0',
+		]);
+	});
+
+	it('should record the tab of each pane', () => {
+		expect(panes.map(pane => pane.tabName)).toEqual([
+			'Tab #1',
+			'Tab #1',
+			'Tab #1',
+			'Tab #1',
+			'release-1.0',
+		]);
+		expect(panes[0]?.tabFocused).toBe(true);
+		expect(panes[4]?.tabFocused).toBe(false);
+	});
+
+	it('should resolve relative working directories', () => {
+		expect(panes[0]?.cwd).toBe('/home/user/project');
+		expect(panes[1]?.cwd).toBe('/home/user/project-feature');
+		expect(panes[2]?.cwd).toBe('/home/user/project-fix');
+		expect(panes[3]?.cwd).toBe('/srv/other');
+		expect(panes[4]?.cwd).toBe('/home/user/project-release');
+	});
+
+	it('should collect command arguments', () => {
+		expect(panes[1]?.command).toBe('script');
+		expect(panes[1]?.args).toEqual([
+			'-q',
+			'-f',
+			'-c',
+			'claude --resume',
+			'/tmp/ccmanager/feature-login.log',
+		]);
+	});
+
+	it('should mark focused and floating panes', () => {
+		expect(panes.filter(pane => pane.focused).map(pane => pane.name)).toEqual([
+			undefined,
+			'floating-agent',
+			'release-1.0',
+		]);
+		expect(panes.filter(pane => pane.floating).map(pane => pane.name)).toEqual([
+			'floating-agent',
+		]);
+	});
+
+	it('should return an empty list for empty output', () => {
+		expect(parseLayoutPanes('')).toEqual([]);
+	});
+});
+
+describe('generateWorktreeLayout', () => {
+	it('should generate a layout with only the agent pane', () => {
+		const layout = generateWorktreeLayout({
+			cwd: '/repo/feature',
+			agentPaneName: 'feature',
+			agentCommand: ['claude'],
+		});
+
+		expect(layout).toContain(
+			'pane name="feature" cwd="/repo/feature" focus=true command="claude"',
+		);
+		expect(layout).not.toContain('split_direction="horizontal"');
+	});
+
+	it('should add extra panes next to the agent pane', () => {
+		const layout = generateWorktreeLayout({
+			cwd: '/repo/feature',
+			agentPaneName: 'feature',
+			agentCommand: ['claude', '--resume'],
+			extraPanes: [
+				{name: 'shell'},
+				{name: 'tests', command: 'npm run test -- --watch'},
+			],
+			shell: '/bin/zsh',
+		});
+
+		expect(layout).toContain('args "--resume"');
+		expect(layout).toContain('size="60%"');
+		expect(layout).toContain('pane name="shell" cwd="/repo/feature"\n');
+		expect(layout).toContain(
+			'pane name="tests" cwd="/repo/feature" command="/bin/zsh" {',
+		);
+		expect(layout).toContain('args "-c" "npm run test -- --watch"');
+	});
+
+	it('should produce a layout that parses back into its panes', () => {
+		const panes = parseLayoutPanes(
+			generateWorktreeLayout({
+				cwd: '/repo/feature',
+				agentPaneName: 'feature',
+				agentCommand: ['claude'],
+				extraPanes: [{name: 'shell'}],
+			}),
+		);
+
+		expect(panes.map(pane => pane.name)).toEqual(['feature', 'shell']);
+		expect(panes[0]?.focused).toBe(true);
+	});
+
+	it('should escape quotes and backslashes', () => {
+		expect(kdlString('say "hi" \\ bye')).toBe('"say \\"hi\\" \\\\ bye"');
+	});
+});
+
+describe('renderLayoutTemplate', () => {
+	const variables = {
+		worktree: '/repo/feature "x"',
+		branch: 'feature/login',
+		tabName: 'feature-login',
+		agentCommand: "claude --append 'say hi'",
+		agentPane: generateAgentPane('feature-login', '/repo/feature', [
+			'claude',
+			'--resume',
+		]),
+	};
+
+	it('should replace placeholders with values escaped for KDL strings', () => {
+		const layout = renderLayoutTemplate(
+			[
+				'layout {',
+				'    pane name="{branch}" cwd="{worktree}" command="bash" {',
+				'        args "-c" "{agent_command}"',
+				'    }',
+				'}',
+			].join('\n'),
+			variables,
+		);
+
+		expect(layout).toContain(
+			'pane name="feature/login" cwd="/repo/feature \\"x\\"" command="bash" {',
+		);
+		expect(layout).toContain('args "-c" "claude --append \'say hi\'"');
+	});
+
+	it('should insert the agent pane and keep unknown placeholders', () => {
+		const layout = renderLayoutTemplate(
+			[
+				'layout {',
+				'    {agent_pane}',
+				'    pane name="logs" command="tail" {',
+				'        args "-f" "{log_file}"',
+				'    }',
+				'}',
+			].join('\n'),
+			variables,
+		);
+
+		expect(layout).toContain('"{log_file}"');
+		const panes = parseLayoutPanes(layout);
+		expect(panes.map(pane => pane.name)).toEqual(['feature-login', 'logs']);
+		expect(panes[0]?.args).toEqual(['--resume']);
+		expect(panes[0]?.focused).toBe(true);
+	});
+
+	it('should not replace object prototype names', () => {
+		expect(renderLayoutTemplate('{constructor}', variables)).toBe(
+			'{constructor}',
+		);
+	});
+});
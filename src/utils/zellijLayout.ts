@@ -0,0 +1,281 @@
+import {resolve} from 'path';
+
+export interface LayoutPane {
+	tabName: string;
+	tabFocused: boolean;
+	name?: string;
+	command?: string;
+	args: string[];
+	cwd: string;
+	focused: boolean;
+	floating: boolean;
+}
+
+type BlockType = 'layout' | 'tab' | 'floating' | 'pane' | 'ignored';
+
+interface OpenPane {
+	pane: LayoutPane;
+	isContainer: boolean;
+	isPlugin: boolean;
+}
+
+// Blocks of `dump-layout` that describe templates rather than live panes
+const IGNORED_BLOCKS = [
+	'new_tab_template',
+	'swap_tiled_layout',
+	'swap_floating_layout',
+	'default_tab_template',
+	'pane_template',
+	'tab_template',
+];
+
+function getAttribute(line: string, name: string): string | undefined {
+	const match = line.match(new RegExp(`\\b${name}="((?:[^"\\\\]|\\\\.)*)"`));
+	return match ? match[1] : undefined;
+}
+
+function getQuotedValues(line: string): string[] {
+	return Array.from(line.matchAll(/"((?:[^"\\]|\\.)*)"/g)).map(
+		match => match[1] || '',
+	);
+}
+
+/**
+ * Parse the KDL printed by `zellij action dump-layout` into a flat list of
+ * terminal panes with the tab they belong to. Plugin panes, container panes
+ * and layout templates are skipped.
+ */
+export function parseLayoutPanes(layout: string): LayoutPane[] {
+	const panes: LayoutPane[] = [];
+	const blocks: BlockType[] = [];
+	const openPanes: OpenPane[] = [];
+	let baseCwd = '';
+	let tabName = '';
+	let tabFocused = false;
+	let tabCwd = '';
+
+	const resolveCwd = (cwd: string | undefined, fallback: string) => {
+		if (!cwd) return fallback;
+		return cwd.startsWith('/') ? cwd : resolve(fallback || '/', cwd);
+	};
+
+	for (const rawLine of layout.split('\n')) {
+		const line = rawLine.trim();
+		if (!line) continue;
+
+		if (line === '}') {
+			const block = blocks.pop();
+			if (block === 'pane') {
+				const open = openPanes.pop();
+				if (open && !open.isContainer && !open.isPlugin) {
+					panes.push(open.pane);
+				}
+			}
+			continue;
+		}
+
+		const opensBlock = line.endsWith('{');
+		const keyword = line.split(/[\s{]/)[0] || '';
+
+		if (blocks.includes('ignored')) {
+			if (opensBlock) blocks.push('ignored');
+			continue;
+		}
+
+		if (IGNORED_BLOCKS.includes(keyword)) {
+			if (opensBlock) blocks.push('ignored');
+			continue;
+		}
+
+		const parent = openPanes[openPanes.length - 1];
+
+		switch (keyword) {
+			case 'layout':
+				if (opensBlock) blocks.push('layout');
+				break;
+			case 'cwd':
+				if (parent) {
+					parent.pane.cwd = resolveCwd(
+						getQuotedValues(line)[0],
+						parent.pane.cwd,
+					);
+				} else if (blocks[blocks.length - 1] === 'tab') {
+					tabCwd = resolveCwd(getQuotedValues(line)[0], baseCwd);
+				} else {
+					baseCwd = getQuotedValues(line)[0] || baseCwd;
+				}
+				break;
+			case 'tab':
+				tabName = getAttribute(line, 'name') || '';
+				tabFocused = /\bfocus=true\b/.test(line);
+				tabCwd = resolveCwd(getAttribute(line, 'cwd'), baseCwd);
+				if (opensBlock) blocks.push('tab');
+				break;
+			case 'floating_panes':
+				if (opensBlock) blocks.push('floating');
+				break;
+			case 'plugin':
+				if (parent) parent.isPlugin = true;
+				if (opensBlock) blocks.push('ignored');
+				break;
+			case 'args':
+				if (parent) parent.pane.args = getQuotedValues(line);
+				break;
+			case 'pane': {
+				if (parent) parent.isContainer = true;
+
+				const pane: LayoutPane = {
+					tabName,
+					tabFocused,
+					name: getAttribute(line, 'name'),
+					command: getAttribute(line, 'command'),
+					args: [],
+					cwd: resolveCwd(getAttribute(line, 'cwd'), tabCwd || baseCwd),
+					focused: /\bfocus=true\b/.test(line),
+					floating: blocks.includes('floating'),
+				};
+
+				if (opensBlock) {
+					blocks.push('pane');
+					openPanes.push({pane, isContainer: false, isPlugin: false});
+				} else {
+					panes.push(pane);
+				}
+				break;
+			}
+			default:
+				if (opensBlock) blocks.push('ignored');
+		}
+	}
+
+	return panes;
+}
+
+export interface WorktreeLayoutOptions {
+	cwd: string; // Absolute worktree path
+	agentPaneName: string;
+	agentCommand: string[]; // argv of the agent, e.g. ['claude', '--resume']
+	extraPanes?: Array<{name: string; command?: string}>;
+	shell?: string; // Shell used to run extra pane commands
+}
+
+/**
+ * Quote a value as a KDL string
+ */
+export function kdlString(value: string): string {
+	return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+function kdlCommandPane(
+	indent: string,
+	attributes: string,
+	argv: string[],
+): string[] {
+	const [command, ...args] = argv;
+	if (!command) {
+		return [`${indent}pane ${attributes}`];
+	}
+	if (args.length === 0) {
+		return [`${indent}pane ${attributes} command=${kdlString(command)}`];
+	}
+	return [
+		`${indent}pane ${attributes} command=${kdlString(command)} {`,
+		`${indent}    args ${args.map(kdlString).join(' ')}`,
+		`${indent}}`,
+	];
+}
+
+/**
+ * Generate the KDL layout of a worktree tab: the agent pane on the left and
+ * the extra panes (shell, test watcher, ...) stacked on the right
+ */
+export function generateWorktreeLayout(options: WorktreeLayoutOptions): string {
+	const cwd = kdlString(options.cwd);
+	const extraPanes = options.extraPanes || [];
+	const shell = options.shell || 'bash';
+
+	const lines = [
+		'layout {',
+		'    pane size=1 borderless=true {',
+		'        plugin location="zellij:tab-bar"',
+		'    }',
+		'    pane split_direction="vertical" {',
+		...kdlCommandPane(
+			'        ',
+			`name=${kdlString(options.agentPaneName)} cwd=${cwd} focus=true${extraPanes.length > 0 ? ' size="60%"' : ''}`,
+			options.agentCommand,
+		),
+	];
+
+	if (extraPanes.length > 0) {
+		lines.push('        pane split_direction="horizontal" {');
+		for (const pane of extraPanes) {
+			lines.push(
+				...kdlCommandPane(
+					'            ',
+					`name=${kdlString(pane.name)} cwd=${cwd}`,
+					pane.command ? [shell, '-c', pane.command] : [],
+				),
+			);
+		}
+		lines.push('        }');
+	}
+
+	lines.push(
+		'    }',
+		'    pane size=2 borderless=true {',
+		'        plugin location="zellij:status-bar"',
+		'    }',
+		'}',
+		'',
+	);
+
+	return lines.join('\n');
+}
+
+/**
+ * Generate the KDL node of a named agent pane
+ */
+export function generateAgentPane(
+	name: string,
+	cwd: string,
+	agentCommand: string[],
+): string {
+	return kdlCommandPane(
+		'',
+		`name=${kdlString(name)} cwd=${kdlString(cwd)} focus=true`,
+		agentCommand,
+	).join('\n');
+}
+
+export interface LayoutTemplateVariables {
+	worktree: string; // Absolute worktree path
+	branch: string;
+	tabName: string;
+	agentCommand: string; // Shell command line of the agent
+	agentPane: string; // KDL node of the agent pane
+}
+
+/**
+ * Render a layout template. `{worktree}`, `{branch}`, `{tab_name}` and
+ * `{agent_command}` are escaped to be used inside KDL strings, `{agent_pane}`
+ * is replaced with a complete pane node. Unknown placeholders are kept.
+ */
+export function renderLayoutTemplate(
+	template: string,
+	variables: LayoutTemplateVariables,
+): string {
+	const escape = (value: string) => kdlString(value).slice(1, -1);
+	const values = new Map<string, string>([
+		['worktree', escape(variables.worktree)],
+		['branch', escape(variables.branch)],
+		['tab_name', escape(variables.tabName)],
+		['agent_command', escape(variables.agentCommand)],
+		['agent_pane', variables.agentPane],
+	]);
+
+	return template.replace(
+		/\{(\w+)\}/g,
+		(placeholder, name: string) => values.get(name) ?? placeholder,
+	);
+}